@@ -0,0 +1,146 @@
+/**
+ * Append-only JSONL audit log of mutating tool calls.
+ *
+ * One record per line, written after the call completes. Argument values whose
+ * key looks like a credential are redacted before anything touches disk.
+ */
+
+import { appendFile, readFile } from "node:fs/promises";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export interface AuditRecord {
+  timestamp: string;
+  tool: string;
+  workspace: string;
+  args: Record<string, unknown>;
+  outcome: "success" | "error";
+  // Error text when the call failed
+  error?: string;
+  // IDs found in the tool's structured or JSON response, e.g. a created thread and its customer
+  returnedIds: string[];
+}
+
+export interface AuditQuery {
+  tool?: string;
+  workspace?: string;
+  // Matches argument values as well as returned IDs
+  entityId?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export interface AuditedCall {
+  tool: string;
+  workspace: string;
+  args: Record<string, unknown>;
+  result: CallToolResult;
+}
+
+export interface AuditLog {
+  path: string;
+  record(call: AuditedCall): Promise<void>;
+  // Matching records, newest first
+  query(filters: AuditQuery): Promise<AuditRecord[]>;
+}
+
+const SECRET_KEY = /secret|token|password|api_?key|authorization|credential/i;
+
+export function redact(value: unknown, key = ""): unknown {
+  if (key && SECRET_KEY.test(key) && value !== undefined && value !== null) return "[REDACTED]";
+  if (Array.isArray(value)) return value.map((item) => redact(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+}
+
+function collectIds(value: unknown, ids: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectIds(item, ids));
+  } else if (value && typeof value === "object") {
+    for (const [key, v] of Object.entries(value)) {
+      if (key === "id" && typeof v === "string") ids.add(v);
+      else collectIds(v, ids);
+    }
+  }
+}
+
+function textOf(result: CallToolResult): string {
+  return result.content.map((item) => (item.type === "text" ? item.text : "")).join("\n");
+}
+
+function returnedIds(result: CallToolResult): string[] {
+  const ids = new Set<string>();
+  if (result.structuredContent) {
+    collectIds(result.structuredContent, ids);
+    return [...ids];
+  }
+  for (const item of result.content) {
+    if (item.type !== "text") continue;
+    try {
+      collectIds(JSON.parse(item.text), ids);
+    } catch {
+      // Plain-text confirmations ("Snippet x deleted successfully") carry no IDs beyond the arguments
+    }
+  }
+  return [...ids];
+}
+
+function mentions(record: AuditRecord, entityId: string): boolean {
+  return record.returnedIds.includes(entityId) || JSON.stringify(record.args).includes(JSON.stringify(entityId));
+}
+
+export function createAuditLog(path: string): AuditLog {
+  return {
+    path,
+
+    async record({ tool, workspace, args, result }) {
+      const record: AuditRecord = {
+        timestamp: new Date().toISOString(),
+        tool,
+        workspace,
+        args: redact(args) as Record<string, unknown>,
+        outcome: result.isError ? "error" : "success",
+        ...(result.isError && { error: textOf(result) }),
+        returnedIds: returnedIds(result),
+      };
+      try {
+        await appendFile(path, JSON.stringify(record) + "\n");
+      } catch (error: any) {
+        // Never fail the tool call because the audit file can't be written
+        console.error(`Failed to write audit log ${path}: ${error.message}`);
+      }
+    },
+
+    async query({ tool, workspace, entityId, since, until, limit = 50 }) {
+      let contents: string;
+      try {
+        contents = await readFile(path, "utf8");
+      } catch (error: any) {
+        if (error.code === "ENOENT") return [];
+        throw error;
+      }
+
+      const sinceTime = since ? Date.parse(since) : -Infinity;
+      const untilTime = until ? Date.parse(until) : Infinity;
+      const records: AuditRecord[] = [];
+      for (const line of contents.split("\n")) {
+        if (!line.trim()) continue;
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          continue;
+        }
+        const time = Date.parse(record.timestamp);
+        if (tool && record.tool !== tool) continue;
+        if (workspace && record.workspace !== workspace) continue;
+        if (time < sinceTime || time > untilTime) continue;
+        if (entityId && !mentions(record, entityId)) continue;
+        records.push(record);
+      }
+      return records.reverse().slice(0, limit);
+    },
+  };
+}
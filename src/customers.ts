@@ -0,0 +1,101 @@
+/**
+ * Short-lived cache of customer display details (name and email), shared by
+ * the tools that show who a thread belongs to.
+ *
+ * Entries expire after CUSTOMER_CACHE_TTL_MS, and upsert_customer and
+ * delete_customer invalidate the customer they touch. Misses are fetched with
+ * one aliased query per batch instead of one request per customer.
+ */
+
+import type { PlainClient } from "@team-plain/typescript-sdk";
+import type { Result } from "./errors.ts";
+
+export const CUSTOMER_CACHE_TTL_MS = 60_000;
+
+// Customers fetched per aliased lookup query
+const LOOKUP_BATCH_SIZE = 50;
+
+export interface CustomerSummary {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface CustomerCache {
+  // Summaries for the given IDs; customers that don't exist are left out
+  get(ids: string[]): Promise<Result<Map<string, CustomerSummary>>>;
+  // Store customers that came back as part of another query
+  remember(customers: CustomerSummary[]): void;
+  invalidate(id: string): void;
+}
+
+// The `customer { id fullName email { email } }` selection as a summary
+export function customerSummary(customer: { id: string; fullName?: string | null; email?: { email?: string | null } | null }): CustomerSummary {
+  return { id: customer.id, name: customer.fullName ?? null, email: customer.email?.email ?? null };
+}
+
+function lookupQuery(count: number): string {
+  const variables = Array.from({ length: count }, (_, i) => `$c${i}: ID!`).join(", ");
+  const fields = Array.from({ length: count }, (_, i) => `c${i}: customer(customerId: $c${i}) { id fullName email { email } }`);
+  return `query CustomerSummaries(${variables}) {\n  ${fields.join("\n  ")}\n}`;
+}
+
+function createCustomerCache(plain: PlainClient, ttlMs: number): CustomerCache {
+  const entries = new Map<string, { customer: CustomerSummary; expiresAt: number }>();
+
+  function remember(customers: CustomerSummary[]): void {
+    const expiresAt = Date.now() + ttlMs;
+    for (const customer of customers) {
+      entries.set(customer.id, { customer, expiresAt });
+    }
+  }
+
+  return {
+    async get(ids) {
+      const found = new Map<string, CustomerSummary>();
+      const missing: string[] = [];
+      for (const id of new Set(ids)) {
+        const entry = entries.get(id);
+        if (entry && entry.expiresAt > Date.now()) {
+          found.set(id, entry.customer);
+        } else {
+          entries.delete(id);
+          missing.push(id);
+        }
+      }
+
+      for (let start = 0; start < missing.length; start += LOOKUP_BATCH_SIZE) {
+        const batch = missing.slice(start, start + LOOKUP_BATCH_SIZE);
+        const variables = Object.fromEntries(batch.map((id, i) => [`c${i}`, id]));
+        const result = await plain.rawRequest({ query: lookupQuery(batch.length), variables });
+        if (result.error) {
+          return { error: result.error };
+        }
+        const customers = Object.values((result.data as any) ?? {})
+          .filter((customer: any) => customer?.id)
+          .map((customer: any) => customerSummary(customer));
+        remember(customers);
+        customers.forEach((customer) => found.set(customer.id, customer));
+      }
+      return { data: found };
+    },
+
+    remember,
+
+    invalidate(id) {
+      entries.delete(id);
+    },
+  };
+}
+
+const caches = new WeakMap<PlainClient, CustomerCache>();
+
+// One cache per client, so every MCP session on a workspace shares it
+export function customerCache(plain: PlainClient, ttlMs = CUSTOMER_CACHE_TTL_MS): CustomerCache {
+  let cache = caches.get(plain);
+  if (!cache) {
+    cache = createCustomerCache(plain, ttlMs);
+    caches.set(plain, cache);
+  }
+  return cache;
+}
@@ -0,0 +1,132 @@
+/**
+ * The error model shared by every tool.
+ *
+ * SDK errors, mutation `error { ... }` payloads and the tools' own argument
+ * checks are all normalized to a ToolError. A failed tool call returns it as
+ * readable text for the model and as `_meta.error` for clients that want to
+ * branch on the code or the failing fields. It can't be structuredContent,
+ * which clients validate against the tool's output schema even on errors.
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { PlainRequestError } from "./requests.ts";
+
+export interface FieldError {
+  // Input path as Plain reports it, e.g. "input.title", or a tool argument name
+  field: string;
+  message: string;
+  type?: string;
+}
+
+export interface ToolError {
+  message: string;
+  // Plain's mutation error code, or a category such as "not_found" or "rate_limited"
+  code: string;
+  fields: FieldError[];
+  requestId?: string;
+  // Which tool arguments to change, when field errors map onto them
+  hint?: string;
+}
+
+// Anything a tool can fail with: an SDK error, a mutation error payload, or a tool's own check
+export interface ErrorSource {
+  message: string;
+  code?: string;
+  type?: string;
+  fields?: FieldError[];
+  errorDetails?: { code?: string; fields?: FieldError[] };
+  graphqlErrors?: { message: string }[];
+  requestId?: string;
+  err?: unknown;
+}
+
+// Data, or the error that kept it from being read; check `error` first
+export type Result<T> = { data: T; error?: undefined } | { data?: undefined; error: ErrorSource };
+
+// Codes for SDK errors that carry no Plain error code
+const SDK_ERROR_CODES: Record<string, string> = {
+  forbidden: "forbidden",
+  bad_request: "bad_request",
+  internal_server_error: "internal_server_error",
+  unknown: "unknown",
+};
+
+function codeOf(source: ErrorSource): string {
+  if (source.code) return source.code;
+  if (source.errorDetails?.code) return source.errorDetails.code;
+  if (source.err instanceof PlainRequestError) {
+    return source.err.status === 429 ? "rate_limited" : "unavailable";
+  }
+  return (source.type && SDK_ERROR_CODES[source.type]) || "error";
+}
+
+export function toToolError(source: ErrorSource | string): ToolError {
+  if (typeof source === "string") {
+    return { message: source, code: "error", fields: [] };
+  }
+
+  // A 400's own message is generic; the GraphQL errors say which argument was wrong
+  const details = source.graphqlErrors?.map((error) => error.message) ?? [];
+  const fields = source.fields ?? source.errorDetails?.fields ?? [];
+  return {
+    message: details.length > 0 ? `${source.message} ${details.join("; ")}` : source.message,
+    code: codeOf(source),
+    fields: fields.map(({ field, message, type }) => ({ field, message, ...(type && { type }) })),
+    ...(source.requestId && { requestId: source.requestId }),
+  };
+}
+
+export function formatToolError(error: ToolError): string {
+  const lines = [`Error: ${error.message}`, `Code: ${error.code}`];
+  for (const field of error.fields) {
+    lines.push(`- ${field.field}: ${field.message}${field.type ? ` (${field.type})` : ""}`);
+  }
+  if (error.hint) lines.push(`Hint: ${error.hint}`);
+  if (error.requestId) lines.push(`Request ID: ${error.requestId}`);
+  return lines.join("\n");
+}
+
+export function errorResult(source: ErrorSource | string): CallToolResult {
+  const error = toToolError(source);
+  return {
+    content: [{ type: "text", text: formatToolError(error) }],
+    _meta: { error },
+    isError: true,
+  };
+}
+
+function snakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase();
+}
+
+// "input.helpCenterArticleId" → "article_id"; tries the innermost path segment first
+function argumentFor(field: string, argNames: string[]): string | undefined {
+  const segments = field.split(".").filter((segment) => !/^\d+$/.test(segment)).reverse();
+  for (const segment of segments) {
+    const name = snakeCase(segment);
+    const match =
+      argNames.find((arg) => arg === name) ??
+      argNames.find((arg) => name.endsWith(`_${arg}`) || arg.endsWith(`_${name}`));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+// Point field errors at the tool's own argument names
+export function withArgumentHint(result: CallToolResult, argNames: string[]): CallToolResult {
+  const error = result._meta?.error as ToolError | undefined;
+  if (!result.isError || !error || error.hint || error.fields.length === 0) {
+    return result;
+  }
+
+  const args = [...new Set(error.fields.map((field) => argumentFor(field.field, argNames)).filter((arg) => arg !== undefined))];
+  if (args.length === 0) {
+    return result;
+  }
+
+  const hinted: ToolError = {
+    ...error,
+    hint: `Check the ${args.map((arg) => `"${arg}"`).join(", ")} argument${args.length > 1 ? "s" : ""}`,
+  };
+  return { ...result, content: [{ type: "text", text: formatToolError(hinted) }], _meta: { ...result._meta, error: hinted } };
+}
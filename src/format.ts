@@ -0,0 +1,195 @@
+/**
+ * Text renderings of tool results.
+ *
+ * Read tools take a `format` argument (default from PLAIN_RESPONSE_FORMAT) that
+ * only changes the text block; structuredContent is always the same data. The
+ * renderers work from the data's shape rather than the tool: lists of objects
+ * become tables or lines, entities become headed field lists, and a thread's
+ * timeline becomes a conversation transcript.
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+export const RESPONSE_FORMATS = ["json", "markdown", "compact"] as const;
+
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+// Longest text value in compact output; longer text such as message bodies is cut
+const COMPACT_VALUE_LENGTH = 100;
+
+// Fields used as an entity's heading, in order of preference
+const HEADING_FIELDS = ["title", "name", "fullName", "publicName"];
+
+// Pagination fields are rendered as a footer, not as data
+const PAGE_FIELDS = ["next_cursor", "has_more"];
+
+// A timeline entry's structured fields, which its content already states in words
+const TIMELINE_DETAIL_FIELDS = ["details", "attachments"];
+
+type Data = Record<string, unknown>;
+
+// Parse PLAIN_RESPONSE_FORMAT; unset means json
+export function parseResponseFormat(value: string | undefined): ResponseFormat | undefined {
+  const format = value?.trim().toLowerCase();
+  if (!format) return undefined;
+  if (!(RESPONSE_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unknown PLAIN_RESPONSE_FORMAT "${value}" (expected ${RESPONSE_FORMATS.join(", ")})`);
+  }
+  return format as ResponseFormat;
+}
+
+function isObject(value: unknown): value is Data {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isObjectList(value: unknown): value is Data[] {
+  return Array.isArray(value) && value.some(isObject);
+}
+
+// Nested objects show as the name a person would recognize, e.g. "Jane Doe <jane@example.com>"
+function summarize(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(summarize).filter(Boolean).join(", ");
+  if (!isObject(value)) return String(value);
+  const name = HEADING_FIELDS.map((field) => value[field]).find((v) => typeof v === "string" && v);
+  const email = typeof value.email === "string" ? value.email : undefined;
+  if (name && email) return `${name} <${email}>`;
+  return String(name ?? email ?? value.id ?? JSON.stringify(value));
+}
+
+// The field that names an entity; objects without an ID get no heading
+function headingField(data: Data): string | undefined {
+  if (typeof data.id !== "string") return undefined;
+  return HEADING_FIELDS.find((key) => typeof data[key] === "string" && data[key]);
+}
+
+// Split an object into its own fields and the lists of objects it contains
+function partition(data: Data): { fields: [string, unknown][]; lists: [string, Data[]][] } {
+  const fields: [string, unknown][] = [];
+  const lists: [string, Data[]][] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (PAGE_FIELDS.includes(key)) continue;
+    if (isObjectList(value)) lists.push([key, value]);
+    else if (Array.isArray(value) && value.length === 0 && !("id" in data)) lists.push([key, []]);
+    else fields.push([key, value]);
+  }
+  return { fields, lists };
+}
+
+function pageFooter(data: Data): string | undefined {
+  return data.has_more && typeof data.next_cursor === "string" ? data.next_cursor : undefined;
+}
+
+// =============================================================================
+// MARKDOWN
+// =============================================================================
+
+function cell(value: unknown): string {
+  return summarize(value).replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function markdownTable(items: Data[]): string {
+  const columns = [...new Set(items.flatMap((item) => Object.keys(item)))];
+  const header = `| ${columns.join(" | ")} |`;
+  const divider = `| ${columns.map(() => "---").join(" | ")} |`;
+  const rows = items.map((item) => `| ${columns.map((column) => cell(item[column])).join(" | ")} |`);
+  return [header, divider, ...rows].join("\n");
+}
+
+function markdownTranscript(entries: Data[]): string {
+  return entries
+    .map((entry) => {
+      const quoted = String(entry.content || "(no text)")
+        .split("\n")
+        .map((line) => `> ${line}`)
+        .join("\n");
+      return `**${summarize(entry.actor)}** · ${entry.type} · ${entry.timestamp}\n\n${quoted}`;
+    })
+    .join("\n\n");
+}
+
+export function renderMarkdown(data: Data): string {
+  const { fields, lists } = partition(data);
+  const heading = headingField(data);
+  const parts: string[] = [];
+
+  if (typeof data.message === "string") parts.push(data.message);
+  if (heading) parts.push(`## ${data[heading]}`);
+
+  const bullets = fields
+    .filter(([key, value]) => key !== "message" && key !== heading && summarize(value) !== "")
+    .map(([key, value]) => `- **${key}**: ${summarize(value)}`);
+  if (bullets.length > 0) parts.push(bullets.join("\n"));
+
+  for (const [key, items] of lists) {
+    // A bare list response needs no section heading of its own
+    if (heading || bullets.length > 0 || lists.length > 1) {
+      parts.push(`### ${key === "timeline" ? "Conversation" : key}`);
+    }
+    if (items.length === 0) parts.push(`_No ${key}._`);
+    else parts.push(key === "timeline" ? markdownTranscript(items) : markdownTable(items));
+  }
+
+  const cursor = pageFooter(data);
+  if (cursor) parts.push(`_More results: pass \`after: "${cursor}"\`._`);
+  return parts.join("\n\n");
+}
+
+// =============================================================================
+// COMPACT
+// =============================================================================
+
+function compactValue(value: unknown): string {
+  const text = summarize(value).replace(/\s+/g, " ").trim();
+  if (typeof value !== "string" || text.length <= COMPACT_VALUE_LENGTH) return text;
+  return `${text.slice(0, COMPACT_VALUE_LENGTH - 1)}…`;
+}
+
+// One line per entity: the ID, then every non-empty field as key=value
+function compactLine(fields: [string, unknown][]): string {
+  return fields
+    .filter(([, value]) => value !== null && value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0))
+    .map(([key, value]) => (key === "id" || key === "message" ? compactValue(value) : `${key}=${compactValue(value)}`))
+    .join(" | ");
+}
+
+export function renderCompact(data: Data): string {
+  const { fields, lists } = partition(data);
+  const lines: string[] = [];
+
+  const own = compactLine(fields);
+  if (own) lines.push(own);
+  // Items belonging to an entity, e.g. a thread's timeline, are indented under it
+  const indent = own ? "  " : "";
+  for (const [key, items] of lists) {
+    if (lists.length > 1) lines.push(`${key}:`);
+    if (items.length === 0) lines.push(`${indent}(no ${key})`);
+    for (const item of items) {
+      const entries = Object.entries(item);
+      lines.push(indent + compactLine(key === "timeline" ? entries.filter(([field]) => !TIMELINE_DETAIL_FIELDS.includes(field)) : entries));
+    }
+  }
+
+  const cursor = pageFooter(data);
+  if (cursor) lines.push(`next_cursor=${cursor}`);
+  return lines.join("\n");
+}
+
+export function render(data: Data, format: ResponseFormat): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdown(data);
+    case "compact":
+      return renderCompact(data);
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
+
+// Re-render a successful result's text from its structuredContent
+export function formatResult(result: CallToolResult, format: ResponseFormat): CallToolResult {
+  if (result.isError || !result.structuredContent || format === "json") {
+    return result;
+  }
+  return { ...result, content: [{ type: "text", text: render(result.structuredContent, format) }] };
+}
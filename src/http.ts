@@ -0,0 +1,171 @@
+/**
+ * HTTP transports for plain-mcp: Streamable HTTP on /mcp and the legacy
+ * SSE transport on /sse + /messages, for clients that predate Streamable HTTP.
+ *
+ * Every session gets its own McpServer from the factory, since an McpServer
+ * can only be connected to a single transport.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { PayloadTooLargeError, listen, readBody } from "./serve.ts";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  // Clients must send "Authorization: Bearer <authToken>" when set
+  authToken?: string;
+}
+
+export interface HttpServer {
+  url: string;
+  // Number of open sessions across both transports
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) return true;
+  const header = req.headers.authorization || "";
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(authToken);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+// Hostname of a Host or Origin header value, without the port or IPv6 brackets
+function hostnameOf(value: string): string | undefined {
+  try {
+    const url = new URL(value.includes("://") ? value : `http://${value}`);
+    return url.hostname.replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return undefined;
+  }
+}
+
+// A page on another site can rebind its own domain to 127.0.0.1 and reach a loopback
+// server that has no token, so loopback servers only answer to loopback names
+function isLoopbackRequest(req: IncomingMessage): boolean {
+  const host = hostnameOf(req.headers.host || "");
+  if (!host || !LOOPBACK_HOSTS.has(host)) return false;
+  const origin = req.headers.origin;
+  return !origin || LOOPBACK_HOSTS.has(hostnameOf(origin) ?? "");
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const raw = await readBody(req);
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+export async function startHttpServer(options: HttpOptions, createMcpServer: () => McpServer): Promise<HttpServer> {
+  if (!options.authToken && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error(`Refusing to listen on ${options.host} without PLAIN_MCP_AUTH_TOKEN`);
+  }
+
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    let transport = sessionId ? streamable.get(sessionId) : undefined;
+    if (sessionId && !transport) {
+      return sendError(res, 404, "Session not found");
+    }
+
+    if (!transport) {
+      if (req.method !== "POST" || !isInitializeRequest(body)) {
+        return sendError(res, 400, "No valid session ID provided");
+      }
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamable.set(id, created);
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId) streamable.delete(created.sessionId);
+      };
+      await createMcpServer().connect(created);
+      transport = created;
+    }
+
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handleSseStream(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport("/messages", res);
+    sse.set(transport.sessionId, transport);
+    res.on("close", () => {
+      sse.delete(transport.sessionId);
+    });
+    await createMcpServer().connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const transport = sse.get(url.searchParams.get("sessionId") || "");
+    if (!transport) {
+      return sendError(res, 404, "Session not found");
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (LOOPBACK_HOSTS.has(options.host) && !isLoopbackRequest(req)) {
+      return sendError(res, 403, "Forbidden host or origin");
+    }
+    if (!isAuthorized(req, options.authToken)) {
+      return sendError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+    }
+
+    if (url.pathname === "/mcp") {
+      return handleStreamable(req, res);
+    }
+    if (url.pathname === "/sse" && req.method === "GET") {
+      return handleSseStream(res);
+    }
+    if (url.pathname === "/messages" && req.method === "POST") {
+      return handleSseMessage(req, res, url);
+    }
+    sendError(res, 404, "Not found");
+  }
+
+  const server: Server = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (res.headersSent) return;
+      if (error instanceof PayloadTooLargeError) {
+        return sendError(res, 413, "Payload too large");
+      }
+      if (error instanceof SyntaxError) {
+        return sendError(res, 400, "Invalid JSON body");
+      }
+      console.error("HTTP request failed:", error);
+      sendError(res, 500, "Internal server error");
+    });
+  });
+
+  const url = await listen(server, options.host, options.port);
+
+  return {
+    url,
+    sessionCount: () => streamable.size + sse.size,
+    async close() {
+      const open = [...streamable.values(), ...sse.values()];
+      await Promise.all(open.map((transport) => transport.close()));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -1,37 +1,337 @@
 #!/usr/bin/env bun
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { PlainClient, ThreadStatus, TodoStatusDetail, SnoozeStatusDetail } from "@team-plain/typescript-sdk";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type CallToolResult,
+  type PromptMessage,
+  type Resource,
+  type ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  CustomersSortField,
+  PlainClient,
+  SnoozeStatusDetail,
+  SortDirection,
+  ThreadStatus,
+  ThreadsSortField,
+  TodoStatusDetail,
+} from "@team-plain/typescript-sdk";
 import { z } from "zod";
+import { createAuditLog, type AuditLog } from "./audit.ts";
+import { customerCache, customerSummary, type CustomerCache, type CustomerSummary } from "./customers.ts";
+import { errorResult, withArgumentHint, type ErrorSource, type Result, type ToolError } from "./errors.ts";
+import { RESPONSE_FORMATS, formatResult, parseResponseFormat, type ResponseFormat } from "./format.ts";
+import { startHttpServer } from "./http.ts";
+import { QUEUE_URI, createChangeWatcher } from "./subscriptions.ts";
+import {
+  ARTICLE_FIELDS,
+  COMPANY_FIELDS,
+  CUSTOMER_FIELDS,
+  TENANT_FIELDS,
+  THREAD_FIELDS,
+  articleSchema,
+  companySchema,
+  confirmationResult,
+  confirmationSchema,
+  customerSchema,
+  entitySchema,
+  jsonResult,
+  pageSchema,
+  priorityName,
+  statusDetailName,
+  tenantSchema,
+  threadDetailSchema,
+  threadSchema,
+  toArticle,
+  toCompany,
+  toCustomer,
+  toTenant,
+  toThread,
+  TIMELINE_ENTRY_FIELDS,
+  toTimelineEntry,
+  type Article,
+  type Customer,
+  type Thread,
+  type TimelineEntry,
+} from "./schemas.ts";
+import { createEventBuffer, startWebhookListener, type EventBuffer } from "./webhooks.ts";
+import { loadWorkspaces, singleWorkspace, type Workspaces } from "./workspaces.ts";
+
+// Everything a tool handler needs beyond its own arguments
+export interface ToolContext {
+  // Client for the workspace selected by the call's `workspace` argument
+  plain: PlainClient;
+  workspace: string;
+  workspaces: Workspaces;
+  // Null when PLAIN_AUDIT_LOG isn't set
+  auditLog: AuditLog | null;
+  // Null when PLAIN_WEBHOOK_SECRET isn't set
+  events: EventBuffer | null;
+  // Customer names and emails for the selected workspace
+  customers: CustomerCache;
+  // Tools registered on this server, after toolset and read-only filtering
+  registeredTools: ReadonlySet<string>;
+}
+
+type ToolHandler<Shape extends z.ZodRawShape> = (
+  args: z.infer<z.ZodObject<Shape>>,
+  ctx: ToolContext
+) => Promise<CallToolResult>;
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  schema: z.ZodRawShape;
+  // Shape of structuredContent on success
+  output: z.ZodObject;
+  annotations: ToolAnnotations;
+  // Null for tools that are always registered
+  toolset: string | null;
+  handler: (args: any, ctx: ToolContext) => Promise<CallToolResult>;
+}
+
+interface Toolset {
+  name: string;
+  description: string;
+}
+
+const tools: ToolDefinition[] = [];
+const toolsets: Toolset[] = [];
+let currentToolset: string | null = null;
+
+// Tools registered after this call belong to the named toolset, until the next call.
+// The description is given once, where the toolset is first used.
+function toolset(name: string, description?: string): void {
+  if (description) toolsets.push({ name, description });
+  currentToolset = name;
+}
+
+// Tools are collected here and registered per server instance in createServer(),
+// so the same definitions can be bound to any Plain client (e.g. the test mock).
+// Query tools pass { readOnlyHint: true }; anything else is treated as a mutation.
+// Every tool declares the output schema its structuredContent follows.
+function tool<Shape extends z.ZodRawShape>(
+  name: string,
+  description: string,
+  schema: Shape,
+  output: z.ZodObject,
+  handler: ToolHandler<Shape>
+): void;
+function tool<Shape extends z.ZodRawShape>(
+  name: string,
+  description: string,
+  schema: Shape,
+  output: z.ZodObject,
+  annotations: ToolAnnotations,
+  handler: ToolHandler<Shape>
+): void;
+function tool(name: string, description: string, schema: z.ZodRawShape, output: z.ZodObject, ...rest: any[]): void {
+  const handler = rest.pop();
+  const annotations: ToolAnnotations = rest[0] ?? {};
+  tools.push({ name, description, schema, output, annotations, toolset: currentToolset, handler });
+}
+
+function isReadOnly(def: ToolDefinition): boolean {
+  return def.annotations.readOnlyHint === true;
+}
+
+// =============================================================================
+// PAGINATION
+// =============================================================================
+
+// Safety cap for fetch_all so a single call can't walk an unbounded list
+const FETCH_ALL_MAX_ITEMS = 1000;
+
+// Inputs shared by every list tool
+const paginationArgs = {
+  after: z.string().optional().describe("Cursor from a previous response's next_cursor, to fetch the following page"),
+  fetch_all: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(`Follow next_cursor automatically and return every page (stops after ${FETCH_ALL_MAX_ITEMS} items)`),
+};
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor?: string | null;
+  // Only selected when paging backwards
+  hasPreviousPage?: boolean;
+  startCursor?: string | null;
+}
+
+interface FetchedPage<T> {
+  items: T[];
+  pageInfo?: PageInfo | null;
+}
+
+interface Page<T> {
+  items: T[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+// Read the nodes and pageInfo out of a GraphQL connection
+function connectionPage<T = any>(connection: any): FetchedPage<T> {
+  return {
+    items: connection?.edges?.map((e: any) => e.node) || [],
+    pageInfo: connection?.pageInfo,
+  };
+}
+
+// Fetch one page starting at `after`, or with fetch_all keep following cursors up to the cap
+async function fetchPages<T>(
+  fetchPage: (after: string | undefined) => Promise<FetchedPage<T> | { error: ErrorSource }>,
+  { after, fetch_all }: { after?: string; fetch_all?: boolean }
+): Promise<Result<Page<T>>> {
+  const items: T[] = [];
+  let cursor = after;
+
+  while (true) {
+    const page = await fetchPage(cursor);
+    if ("error" in page) {
+      return { error: page.error };
+    }
+
+    items.push(...page.items);
+    const hasMore = page.pageInfo?.hasNextPage ?? false;
+    cursor = page.pageInfo?.endCursor ?? undefined;
+
+    if (!fetch_all || !hasMore || !cursor || items.length >= FETCH_ALL_MAX_ITEMS) {
+      return { data: { items, next_cursor: hasMore ? cursor ?? null : null, has_more: hasMore } };
+    }
+  }
+}
+
+// List tools respond with { <key>: [...], next_cursor, has_more }; see pageSchema()
+function pageResult(key: string, items: unknown[], page: Page<unknown>): CallToolResult {
+  return jsonResult({ [key]: items, next_cursor: page.next_cursor, has_more: page.has_more });
+}
+
+// =============================================================================
+// DRY RUN & CONFIRMATION
+// =============================================================================
+
+// How long a confirmation token from a dry run stays valid
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Looks up what a destructive tool would remove, without changing anything
+type PreviewHandler = (args: any, ctx: ToolContext) => Promise<Result<Record<string, unknown>>>;
+
+const previews = new Map<string, PreviewHandler>();
+
+// Register the dry_run preview for a destructive tool. Tools with a preview get
+// `dry_run` and `confirmation_token` arguments in createServer().
+function preview(name: string, handler: PreviewHandler): void {
+  previews.set(name, handler);
+}
 
-const apiKey = process.env.PLAIN_API_KEY;
-if (!apiKey) {
-  console.error("PLAIN_API_KEY environment variable is required");
-  process.exit(1);
+// Preview for targets that a single query can fetch
+async function previewLookup(
+  plain: PlainClient,
+  query: string,
+  variables: Record<string, unknown>,
+  field: string,
+  notFound: string
+): Promise<Result<Record<string, unknown>>> {
+  const result = await plain.rawRequest({ query, variables });
+  if (result.error) {
+    return { error: result.error };
+  }
+  const target = (result.data as any)?.[field];
+  return target ? { data: target } : { error: { message: notFound, code: "not_found" } };
 }
 
-const plain = new PlainClient({ apiKey });
+// Counts in previews read "1000+" when the list runs past the fetch_all cap
+function countOf(page: Page<unknown>): number | string {
+  return page.has_more ? `${page.items.length}+` : page.items.length;
+}
 
-const server = new McpServer({
-  name: "plain-mcp",
-  version: "2.0.0",
+// A dry run's structuredContent, which replaces the tool's own output
+const dryRunSchema = z.object({
+  dryRun: z.literal(true),
+  tool: z.string(),
+  wouldDelete: z.record(z.string(), z.unknown()),
+  confirmationToken: z.string(),
+  confirmationExpiresAt: z.string(),
 });
 
+const previewArgs = {
+  dry_run: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Only report what would be deleted, and return a confirmation_token for the real call"),
+  confirmation_token: z
+    .string()
+    .optional()
+    .describe("Token from a dry_run of this exact call, confirming the delete"),
+};
+
+// Tokens are bound to the tool, workspace and target arguments of the previewed call
+function confirmationKey(toolName: string, workspace: string, args: Record<string, unknown>): string {
+  const { dry_run, confirmation_token, workspace: _workspace, ...target } = args;
+  return JSON.stringify([toolName, workspace, target]);
+}
+
+interface PendingConfirmation {
+  key: string;
+  expiresAt: number;
+}
+
+// =============================================================================
+// TOOLSET TOOLS
+// =============================================================================
+
+// Tool: list_toolsets
+tool(
+  "list_toolsets",
+  "List the toolsets that group this server's tools, which of them are enabled, and the tools in each. Set PLAIN_TOOLSETS to choose which toolsets are enabled.",
+  {},
+  z.object({
+    toolsets: z.array(z.object({ name: z.string(), description: z.string(), enabled: z.boolean(), tools: z.array(z.string()) })),
+  }),
+  { readOnlyHint: true },
+  async (_args, { registeredTools }) => {
+    const result = toolsets.map((set) => {
+      const members = tools.filter((def) => def.toolset === set.name).map((def) => def.name);
+      const registered = members.filter((name) => registeredTools.has(name));
+      return {
+        name: set.name,
+        description: set.description,
+        enabled: registered.length > 0,
+        // Disabled toolsets still list their tools, for reference
+        tools: registered.length > 0 ? registered : members,
+      };
+    });
+    return jsonResult({ toolsets: result });
+  }
+);
+
 // =============================================================================
 // HELP CENTER TOOLS
 // =============================================================================
 
+toolset("help_centers", "Help centers, their articles, article groups, navigation index and custom domains");
+
 // Tool: list_help_centers
-server.tool(
+tool(
   "list_help_centers",
   "List all help centers in the workspace",
   {
-    limit: z.number().min(1).max(50).optional().default(25).describe("Number of help centers to return"),
+    limit: z.number().min(1).max(50).optional().default(25).describe("Number of help centers to return per page"),
+    ...paginationArgs,
   },
-  async ({ limit }) => {
+  pageSchema("helpCenters", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query HelpCenters($first: Int) {
-        helpCenters(first: $first) {
+      query HelpCenters($first: Int, $after: String) {
+        helpCenters(first: $first, after: $after) {
           edges {
             node {
               id
@@ -47,35 +347,41 @@ server.tool(
               updatedAt { iso8601 }
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: { first: limit } });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.helpCenters);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const helpCenters = data?.helpCenters?.edges?.map((e: any) => ({
-      ...e.node,
-      subdomain: e.node.domainSettings?.domainName,
-      customDomainName: e.node.domainSettings?.customDomainName,
-    })) || [];
+    const helpCenters = page.data.items.map((hc: any) => ({
+      ...hc,
+      subdomain: hc.domainSettings?.domainName,
+      customDomainName: hc.domainSettings?.customDomainName,
+    }));
 
-    return { content: [{ type: "text", text: JSON.stringify(helpCenters, null, 2) }] };
+    return pageResult("helpCenters", helpCenters, page.data);
   }
 );
 
 // Tool: get_help_center
-server.tool(
+tool(
   "get_help_center",
   "Get details of a specific help center",
   {
     help_center_id: z.string().describe("The help center ID"),
   },
-  async ({ help_center_id }) => {
+  entitySchema,
+  { readOnlyHint: true },
+  async ({ help_center_id }, { plain }) => {
     const query = `
       query HelpCenter($id: ID!) {
         helpCenter(id: $id) {
@@ -97,21 +403,22 @@ server.tool(
     const result = await plain.rawRequest({ query, variables: { id: help_center_id } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const hc = (result.data as any)?.helpCenter;
-    if (hc) {
-      hc.subdomain = hc.domainSettings?.domainName;
-      hc.customDomainName = hc.domainSettings?.customDomainName;
+    if (!hc) {
+      return errorResult({ message: "Help center not found", code: "not_found" });
     }
+    hc.subdomain = hc.domainSettings?.domainName;
+    hc.customDomainName = hc.domainSettings?.customDomainName;
 
-    return { content: [{ type: "text", text: JSON.stringify(hc, null, 2) }] };
+    return jsonResult(hc);
   }
 );
 
 // Tool: create_help_center
-server.tool(
+tool(
   "create_help_center",
   "Create a new help center",
   {
@@ -121,7 +428,8 @@ server.tool(
     type: z.enum(["STANDALONE", "EMBEDDED"]).optional().default("STANDALONE").describe("Help center type"),
     description: z.string().optional().describe("Description of the help center"),
   },
-  async ({ public_name, internal_name, subdomain, type, description }) => {
+  entitySchema,
+  async ({ public_name, internal_name, subdomain, type, description }, { plain }) => {
     const mutation = `
       mutation CreateHelpCenter($input: CreateHelpCenterInput!) {
         createHelpCenter(input: $input) {
@@ -132,7 +440,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -149,20 +459,20 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createHelpCenter?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createHelpCenter.error.message}` }], isError: true };
+      return errorResult(data.createHelpCenter.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createHelpCenter?.helpCenter, null, 2) }] };
+    return jsonResult(data?.createHelpCenter?.helpCenter);
   }
 );
 
 // Tool: update_help_center
-server.tool(
+tool(
   "update_help_center",
   "Update an existing help center",
   {
@@ -171,7 +481,8 @@ server.tool(
     internal_name: z.string().optional().describe("New internal name"),
     description: z.string().optional().describe("New description"),
   },
-  async ({ help_center_id, public_name, internal_name, description }) => {
+  confirmationSchema,
+  async ({ help_center_id, public_name, internal_name, description }, { plain }) => {
     const mutation = `
       mutation UpdateHelpCenter($input: UpdateHelpCenterInput!) {
         updateHelpCenter(input: $input) {
@@ -183,7 +494,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -197,32 +510,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.updateHelpCenter?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.updateHelpCenter.error.message}` }], isError: true };
+      return errorResult(data.updateHelpCenter.error);
     }
 
-    return { content: [{ type: "text", text: `Help center ${help_center_id} updated successfully` }] };
+    return confirmationResult(`Help center ${help_center_id} updated successfully`);
   }
 );
 
 // Tool: delete_help_center
-server.tool(
+tool(
   "delete_help_center",
   "Delete a help center",
   {
     help_center_id: z.string().describe("The help center ID to delete"),
   },
-  async ({ help_center_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ help_center_id }, { plain }) => {
     const mutation = `
       mutation DeleteHelpCenter($input: DeleteHelpCenterInput!) {
         deleteHelpCenter(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -231,27 +548,79 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input: { helpCenterId: help_center_id } } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteHelpCenter?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteHelpCenter.error.message}` }], isError: true };
+      return errorResult(data.deleteHelpCenter.error);
     }
 
-    return { content: [{ type: "text", text: `Help center ${help_center_id} deleted successfully` }] };
+    return confirmationResult(`Help center ${help_center_id} deleted successfully`);
   }
 );
 
+// Preview: delete_help_center
+preview("delete_help_center", async ({ help_center_id }, { plain }) => {
+  const query = `
+    query HelpCenterPreview($id: ID!, $after: String) {
+      helpCenter(id: $id) {
+        id
+        publicName
+        internalName
+        domainSettings {
+          domainName
+          customDomainName
+        }
+        articles(first: 100, after: $after) {
+          edges {
+            node {
+              id
+            }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    }
+  `;
+
+  let helpCenter: any = null;
+  const articles = await fetchPages(async (cursor) => {
+    const result = await plain.rawRequest({ query, variables: { id: help_center_id, after: cursor } });
+    if (result.error) return { error: result.error };
+    helpCenter = (result.data as any)?.helpCenter;
+    return connectionPage(helpCenter?.articles);
+  }, { fetch_all: true });
+
+  if (articles.error) {
+    return { error: articles.error };
+  }
+  if (!helpCenter) {
+    return { error: { message: "Help center not found", code: "not_found" } };
+  }
+
+  return {
+    data: {
+      id: helpCenter.id,
+      publicName: helpCenter.publicName,
+      internalName: helpCenter.internalName,
+      subdomain: helpCenter.domainSettings?.domainName,
+      customDomainName: helpCenter.domainSettings?.customDomainName,
+      articleCount: countOf(articles.data),
+    },
+  };
+});
+
 // Tool: update_help_center_custom_domain
-server.tool(
+tool(
   "update_help_center_custom_domain",
   "Set a custom domain for a help center",
   {
     help_center_id: z.string().describe("The help center ID"),
     custom_domain_name: z.string().nullable().describe("The custom domain name (e.g., 'help.example.com') or null to remove"),
   },
-  async ({ help_center_id, custom_domain_name }) => {
+  confirmationSchema,
+  async ({ help_center_id, custom_domain_name }, { plain }) => {
     const mutation = `
       mutation UpdateHelpCenterCustomDomainName($input: UpdateHelpCenterCustomDomainNameInput!) {
         updateHelpCenterCustomDomainName(input: $input) {
@@ -261,7 +630,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -273,26 +644,27 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.updateHelpCenterCustomDomainName?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.updateHelpCenterCustomDomainName.error.message}` }], isError: true };
+      return errorResult(data.updateHelpCenterCustomDomainName.error);
     }
 
-    return { content: [{ type: "text", text: `Custom domain updated to: ${custom_domain_name || "(removed)"}` }] };
+    return confirmationResult(`Custom domain updated to: ${custom_domain_name || "(removed)"}`);
   }
 );
 
 // Tool: verify_help_center_custom_domain
-server.tool(
+tool(
   "verify_help_center_custom_domain",
   "Verify DNS ownership of a custom domain for a help center",
   {
     help_center_id: z.string().describe("The help center ID"),
   },
-  async ({ help_center_id }) => {
+  confirmationSchema,
+  async ({ help_center_id }, { plain }) => {
     const mutation = `
       mutation VerifyHelpCenterCustomDomainName($input: VerifyHelpCenterCustomDomainNameInput!) {
         verifyHelpCenterCustomDomainName(input: $input) {
@@ -302,7 +674,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -314,15 +688,15 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.verifyHelpCenterCustomDomainName?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.verifyHelpCenterCustomDomainName.error.message}` }], isError: true };
+      return errorResult(data.verifyHelpCenterCustomDomainName.error);
     }
 
-    return { content: [{ type: "text", text: `Custom domain verification successful` }] };
+    return confirmationResult(`Custom domain verification successful`);
   }
 );
 
@@ -330,70 +704,63 @@ server.tool(
 // HELP CENTER ARTICLE TOOLS
 // =============================================================================
 
+toolset("help_centers");
+
 // Tool: list_help_center_articles
-server.tool(
+tool(
   "list_help_center_articles",
   "List articles in a help center",
   {
     help_center_id: z.string().describe("The help center ID"),
-    limit: z.number().min(1).max(100).optional().default(25).describe("Number of articles to return"),
+    limit: z.number().min(1).max(100).optional().default(25).describe("Number of articles to return per page"),
+    ...paginationArgs,
   },
-  async ({ help_center_id, limit }) => {
+  pageSchema("articles", articleSchema),
+  { readOnlyHint: true },
+  async ({ help_center_id, limit, after, fetch_all }, { plain }) => {
     const query = `
-      query HelpCenterArticles($helpCenterId: ID!, $first: Int) {
+      query HelpCenterArticles($helpCenterId: ID!, $first: Int, $after: String) {
         helpCenter(id: $helpCenterId) {
           id
-          articles(first: $first) {
+          articles(first: $first, after: $after) {
             edges {
-              node {
-                id
-                title
-                slug
-                status
-                createdAt { iso8601 }
-                updatedAt { iso8601 }
-              }
+              node { ${ARTICLE_FIELDS} }
             }
+            pageInfo { hasNextPage endCursor }
           }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: { helpCenterId: help_center_id, first: limit } });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { helpCenterId: help_center_id, first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.helpCenter?.articles);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const articles = data?.helpCenter?.articles?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(articles, null, 2) }] };
+    return pageResult("articles", page.data.items.map(toArticle), page.data);
   }
 );
 
 // Tool: get_help_center_article
-server.tool(
+tool(
   "get_help_center_article",
   "Get a specific help center article by ID",
   {
     article_id: z.string().describe("The article ID"),
   },
-  async ({ article_id }) => {
+  articleSchema,
+  { readOnlyHint: true },
+  async ({ article_id }, { plain }) => {
     const query = `
       query HelpCenterArticle($id: ID!) {
         helpCenterArticle(id: $id) {
-          id
-          title
-          slug
-          status
+          ${ARTICLE_FIELDS}
           contentHtml
-          createdAt { iso8601 }
-          updatedAt { iso8601 }
-          group {
-            id
-            name
-          }
         }
       }
     `;
@@ -401,32 +768,34 @@ server.tool(
     const result = await plain.rawRequest({ query, variables: { id: article_id } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
+    }
+
+    const article = (result.data as any)?.helpCenterArticle;
+    if (!article) {
+      return errorResult({ message: "Article not found", code: "not_found" });
     }
 
-    return { content: [{ type: "text", text: JSON.stringify((result.data as any)?.helpCenterArticle, null, 2) }] };
+    return jsonResult(toArticle(article));
   }
 );
 
 // Tool: get_help_center_article_by_slug
-server.tool(
+tool(
   "get_help_center_article_by_slug",
   "Get a help center article by its URL slug",
   {
     help_center_id: z.string().describe("The help center ID"),
     slug: z.string().describe("The article slug (URL-friendly identifier)"),
   },
-  async ({ help_center_id, slug }) => {
+  articleSchema,
+  { readOnlyHint: true },
+  async ({ help_center_id, slug }, { plain }) => {
     const query = `
       query HelpCenterArticleBySlug($helpCenterId: ID!, $slug: String!) {
         helpCenterArticleBySlug(helpCenterId: $helpCenterId, slug: $slug) {
-          id
-          title
-          slug
-          status
+          ${ARTICLE_FIELDS}
           contentHtml
-          createdAt { iso8601 }
-          updatedAt { iso8601 }
         }
       }
     `;
@@ -434,15 +803,20 @@ server.tool(
     const result = await plain.rawRequest({ query, variables: { helpCenterId: help_center_id, slug } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
+    }
+
+    const article = (result.data as any)?.helpCenterArticleBySlug;
+    if (!article) {
+      return errorResult({ message: "Article not found", code: "not_found" });
     }
 
-    return { content: [{ type: "text", text: JSON.stringify((result.data as any)?.helpCenterArticleBySlug, null, 2) }] };
+    return jsonResult(toArticle(article));
   }
 );
 
 // Tool: upsert_help_center_article
-server.tool(
+tool(
   "upsert_help_center_article",
   "Create or update a help center article",
   {
@@ -455,20 +829,20 @@ server.tool(
     article_id: z.string().optional().describe("Article ID to update (omit to create new)"),
     group_id: z.string().optional().describe("Article group ID to place article in"),
   },
-  async ({ help_center_id, title, content_html, description, slug, status, article_id, group_id }) => {
+  articleSchema,
+  async ({ help_center_id, title, content_html, description, slug, status, article_id, group_id }, { plain }) => {
     const mutation = `
       mutation UpsertHelpCenterArticle($input: UpsertHelpCenterArticleInput!) {
         upsertHelpCenterArticle(input: $input) {
           helpCenterArticle {
-            id
-            title
-            slug
-            status
+            ${ARTICLE_FIELDS}
+            contentHtml
           }
           error {
             message
+            type
             code
-            fields { field message }
+            fields { field message type }
           }
         }
       }
@@ -488,33 +862,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.upsertHelpCenterArticle?.error) {
-      const err = data.upsertHelpCenterArticle.error;
-      return { content: [{ type: "text", text: `Error: ${err.message} (${JSON.stringify(err.fields)})` }], isError: true };
+      return errorResult(data.upsertHelpCenterArticle.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.upsertHelpCenterArticle?.helpCenterArticle, null, 2) }] };
+    return jsonResult(toArticle(data?.upsertHelpCenterArticle?.helpCenterArticle));
   }
 );
 
 // Tool: delete_help_center_article
-server.tool(
+tool(
   "delete_help_center_article",
   "Delete a help center article",
   {
     article_id: z.string().describe("The article ID to delete"),
   },
-  async ({ article_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ article_id }, { plain }) => {
     const mutation = `
       mutation DeleteHelpCenterArticle($input: DeleteHelpCenterArticleInput!) {
         deleteHelpCenterArticle(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -526,39 +903,60 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteHelpCenterArticle?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteHelpCenterArticle.error.message}` }], isError: true };
+      return errorResult(data.deleteHelpCenterArticle.error);
     }
 
-    return { content: [{ type: "text", text: `Article ${article_id} deleted successfully` }] };
+    return confirmationResult(`Article ${article_id} deleted successfully`);
   }
 );
 
+// Preview: delete_help_center_article
+preview("delete_help_center_article", ({ article_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query HelpCenterArticlePreview($id: ID!) {
+        helpCenterArticle(id: $id) {
+          id
+          title
+          slug
+          status
+        }
+      }
+    `,
+    { id: article_id },
+    "helpCenterArticle",
+    "Article not found"
+  )
+);
+
 // Tool: generate_help_center_article
-server.tool(
+tool(
   "generate_help_center_article",
   "Auto-generate a help center article from a support thread using AI",
   {
     thread_id: z.string().describe("The thread ID to generate article from"),
     help_center_id: z.string().describe("The help center ID to create the article in"),
   },
-  async ({ thread_id, help_center_id }) => {
+  z.object({ articles: z.array(articleSchema) }),
+  async ({ thread_id, help_center_id }, { plain }) => {
     const mutation = `
       mutation GenerateHelpCenterArticle($input: GenerateHelpCenterArticleInput!) {
         generateHelpCenterArticle(input: $input) {
           helpCenterArticles {
-            id
-            title
-            slug
-            status
+            ${ARTICLE_FIELDS}
+            contentHtml
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -570,15 +968,16 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.generateHelpCenterArticle?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.generateHelpCenterArticle.error.message}` }], isError: true };
+      return errorResult(data.generateHelpCenterArticle.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.generateHelpCenterArticle?.helpCenterArticles, null, 2) }] };
+    const articles = data?.generateHelpCenterArticle?.helpCenterArticles ?? [];
+    return jsonResult({ articles: articles.map(toArticle) });
   }
 );
 
@@ -586,19 +985,25 @@ server.tool(
 // HELP CENTER ARTICLE GROUP TOOLS
 // =============================================================================
 
+toolset("help_centers");
+
 // Tool: list_help_center_article_groups
-server.tool(
+tool(
   "list_help_center_article_groups",
   "List article groups (categories) in a help center",
   {
     help_center_id: z.string().describe("The help center ID"),
+    limit: z.number().min(1).max(100).optional().default(100).describe("Number of article groups to return per page"),
+    ...paginationArgs,
   },
-  async ({ help_center_id }) => {
+  pageSchema("articleGroups", entitySchema),
+  { readOnlyHint: true },
+  async ({ help_center_id, limit, after, fetch_all }, { plain }) => {
     const query = `
-      query HelpCenterArticleGroups($helpCenterId: ID!) {
+      query HelpCenterArticleGroups($helpCenterId: ID!, $first: Int, $after: String) {
         helpCenter(id: $helpCenterId) {
           id
-          articleGroups(first: 100) {
+          articleGroups(first: $first, after: $after) {
             edges {
               node {
                 id
@@ -607,32 +1012,36 @@ server.tool(
                 createdAt { iso8601 }
               }
             }
+            pageInfo { hasNextPage endCursor }
           }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: { helpCenterId: help_center_id } });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { helpCenterId: help_center_id, first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.helpCenter?.articleGroups);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const groups = data?.helpCenter?.articleGroups?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(groups, null, 2) }] };
+    return pageResult("articleGroups", page.data.items, page.data);
   }
 );
 
 // Tool: get_help_center_article_group
-server.tool(
+tool(
   "get_help_center_article_group",
   "Get a specific article group by ID",
   {
     group_id: z.string().describe("The article group ID"),
   },
-  async ({ group_id }) => {
+  entitySchema,
+  { readOnlyHint: true },
+  async ({ group_id }, { plain }) => {
     const query = `
       query HelpCenterArticleGroup($id: ID!) {
         helpCenterArticleGroup(id: $id) {
@@ -657,21 +1066,23 @@ server.tool(
     const result = await plain.rawRequest({ query, variables: { id: group_id } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     const group = data?.helpCenterArticleGroup;
-    if (group?.articles?.edges) {
+    if (!group) {
+      return errorResult({ message: "Article group not found", code: "not_found" });
+    }
+    if (group.articles?.edges) {
       group.articles = group.articles.edges.map((e: any) => e.node);
     }
-
-    return { content: [{ type: "text", text: JSON.stringify(group, null, 2) }] };
+    return jsonResult(group);
   }
 );
 
 // Tool: create_help_center_article_group
-server.tool(
+tool(
   "create_help_center_article_group",
   "Create a new article group (category) in a help center",
   {
@@ -680,7 +1091,8 @@ server.tool(
     slug: z.string().optional().describe("URL-friendly slug (auto-generated if not provided)"),
     parent_id: z.string().optional().describe("Parent group ID for nested groups"),
   },
-  async ({ help_center_id, name, slug, parent_id }) => {
+  entitySchema,
+  async ({ help_center_id, name, slug, parent_id }, { plain }) => {
     const mutation = `
       mutation CreateHelpCenterArticleGroup($input: CreateHelpCenterArticleGroupInput!) {
         createHelpCenterArticleGroup(input: $input) {
@@ -691,7 +1103,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -704,27 +1118,28 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createHelpCenterArticleGroup?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createHelpCenterArticleGroup.error.message}` }], isError: true };
+      return errorResult(data.createHelpCenterArticleGroup.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createHelpCenterArticleGroup?.articleGroup, null, 2) }] };
+    return jsonResult(data?.createHelpCenterArticleGroup?.articleGroup);
   }
 );
 
 // Tool: update_help_center_article_group
-server.tool(
+tool(
   "update_help_center_article_group",
   "Update an article group",
   {
     group_id: z.string().describe("The article group ID to update"),
     name: z.string().optional().describe("New group name"),
   },
-  async ({ group_id, name }) => {
+  confirmationSchema,
+  async ({ group_id, name }, { plain }) => {
     const mutation = `
       mutation UpdateHelpCenterArticleGroup($input: UpdateHelpCenterArticleGroupInput!) {
         updateHelpCenterArticleGroup(input: $input) {
@@ -735,7 +1150,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -747,32 +1164,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.updateHelpCenterArticleGroup?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.updateHelpCenterArticleGroup.error.message}` }], isError: true };
+      return errorResult(data.updateHelpCenterArticleGroup.error);
     }
 
-    return { content: [{ type: "text", text: `Article group ${group_id} updated successfully` }] };
+    return confirmationResult(`Article group ${group_id} updated successfully`);
   }
 );
 
 // Tool: delete_help_center_article_group
-server.tool(
+tool(
   "delete_help_center_article_group",
   "Delete an article group",
   {
     group_id: z.string().describe("The article group ID to delete"),
   },
-  async ({ group_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ group_id }, { plain }) => {
     const mutation = `
       mutation DeleteHelpCenterArticleGroup($input: DeleteHelpCenterArticleGroupInput!) {
         deleteHelpCenterArticleGroup(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -784,26 +1205,47 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteHelpCenterArticleGroup?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteHelpCenterArticleGroup.error.message}` }], isError: true };
+      return errorResult(data.deleteHelpCenterArticleGroup.error);
     }
 
-    return { content: [{ type: "text", text: `Article group ${group_id} deleted successfully` }] };
+    return confirmationResult(`Article group ${group_id} deleted successfully`);
   }
 );
 
+// Preview: delete_help_center_article_group
+preview("delete_help_center_article_group", ({ group_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query HelpCenterArticleGroupPreview($id: ID!) {
+        helpCenterArticleGroup(id: $id) {
+          id
+          name
+          slug
+        }
+      }
+    `,
+    { id: group_id },
+    "helpCenterArticleGroup",
+    "Article group not found"
+  )
+);
+
 // Tool: get_help_center_index
-server.tool(
+tool(
   "get_help_center_index",
   "Get the navigation index/structure of a help center",
   {
     help_center_id: z.string().describe("The help center ID"),
   },
-  async ({ help_center_id }) => {
+  z.looseObject({ hash: z.string() }),
+  { readOnlyHint: true },
+  async ({ help_center_id }, { plain }) => {
     const query = `
       query HelpCenterIndex($id: ID!) {
         helpCenterIndex(id: $id) {
@@ -819,15 +1261,20 @@ server.tool(
     const result = await plain.rawRequest({ query, variables: { id: help_center_id } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
+    }
+
+    const index = (result.data as any)?.helpCenterIndex;
+    if (!index) {
+      return errorResult({ message: "Help center not found", code: "not_found" });
     }
 
-    return { content: [{ type: "text", text: JSON.stringify((result.data as any)?.helpCenterIndex, null, 2) }] };
+    return jsonResult(index);
   }
 );
 
 // Tool: update_help_center_index
-server.tool(
+tool(
   "update_help_center_index",
   "Update the navigation index/structure of a help center",
   {
@@ -838,7 +1285,8 @@ server.tool(
       id: z.string().describe("Item ID"),
     })).describe("Ordered list of index items"),
   },
-  async ({ help_center_id, hash, index }) => {
+  confirmationSchema.extend({ hash: z.string() }),
+  async ({ help_center_id, hash, index }, { plain }) => {
     const mutation = `
       mutation UpdateHelpCenterIndex($input: UpdateHelpCenterIndexInput!) {
         updateHelpCenterIndex(input: $input) {
@@ -847,7 +1295,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -859,15 +1309,16 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.updateHelpCenterIndex?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.updateHelpCenterIndex.error.message}` }], isError: true };
+      return errorResult(data.updateHelpCenterIndex.error);
     }
 
-    return { content: [{ type: "text", text: `Help center index updated. New hash: ${data?.updateHelpCenterIndex?.helpCenterIndex?.hash}` }] };
+    const newHash = data?.updateHelpCenterIndex?.helpCenterIndex?.hash;
+    return confirmationResult(`Help center index updated. New hash: ${newHash}`, { hash: newHash });
   }
 );
 
@@ -875,15 +1326,18 @@ server.tool(
 // KNOWLEDGE SOURCE TOOLS
 // =============================================================================
 
+toolset("knowledge_sources", "Knowledge sources the AI can reference");
+
 // Tool: create_knowledge_source
-server.tool(
+tool(
   "create_knowledge_source",
   "Create a knowledge source for AI to reference",
   {
     name: z.string().describe("Name of the knowledge source"),
     url: z.string().describe("URL of the knowledge source"),
   },
-  async ({ name, url }) => {
+  entitySchema,
+  async ({ name, url }, { plain }) => {
     const mutation = `
       mutation CreateKnowledgeSource($input: CreateKnowledgeSourceInput!) {
         createKnowledgeSource(input: $input) {
@@ -894,7 +1348,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -906,32 +1362,36 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createKnowledgeSource?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createKnowledgeSource.error.message}` }], isError: true };
+      return errorResult(data.createKnowledgeSource.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createKnowledgeSource?.knowledgeSource, null, 2) }] };
+    return jsonResult(data?.createKnowledgeSource?.knowledgeSource);
   }
 );
 
 // Tool: delete_knowledge_source
-server.tool(
+tool(
   "delete_knowledge_source",
   "Delete a knowledge source",
   {
     knowledge_source_id: z.string().describe("The knowledge source ID to delete"),
   },
-  async ({ knowledge_source_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ knowledge_source_id }, { plain }) => {
     const mutation = `
       mutation DeleteKnowledgeSource($input: DeleteKnowledgeSourceInput!) {
         deleteKnowledgeSource(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -943,24 +1403,51 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteKnowledgeSource?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteKnowledgeSource.error.message}` }], isError: true };
+      return errorResult(data.deleteKnowledgeSource.error);
     }
 
-    return { content: [{ type: "text", text: `Knowledge source ${knowledge_source_id} deleted successfully` }] };
+    return confirmationResult(`Knowledge source ${knowledge_source_id} deleted successfully`);
   }
 );
 
+// Preview: delete_knowledge_source
+preview("delete_knowledge_source", ({ knowledge_source_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query KnowledgeSourcePreview($knowledgeSourceId: ID!) {
+        knowledgeSource(knowledgeSourceId: $knowledgeSourceId) {
+          __typename
+          ... on KnowledgeSourceUrl {
+            id
+            url
+          }
+          ... on KnowledgeSourceSitemap {
+            id
+            url
+          }
+        }
+      }
+    `,
+    { knowledgeSourceId: knowledge_source_id },
+    "knowledgeSource",
+    "Knowledge source not found"
+  )
+);
+
 // =============================================================================
 // CUSTOMER MANAGEMENT TOOLS
 // =============================================================================
 
+toolset("customers", "Listing and looking up customers, customer groups, spam marking and customer events");
+
 // Tool: upsert_customer
-server.tool(
+tool(
   "upsert_customer",
   "Create or update a customer",
   {
@@ -969,7 +1456,8 @@ server.tool(
     short_name: z.string().optional().describe("Customer short/display name"),
     external_id: z.string().optional().describe("External system ID for the customer"),
   },
-  async ({ email, full_name, short_name, external_id }) => {
+  z.object({ result: z.string(), customer: customerSchema }),
+  async ({ email, full_name, short_name, external_id }, { plain, customers }) => {
     const identifier: any = { emailAddress: email };
     const input: any = { identifier };
 
@@ -980,27 +1468,32 @@ server.tool(
     const result = await plain.upsertCustomer(input);
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
+    customers.invalidate(result.data.customer.id);
 
-    return { content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }] };
+    return jsonResult({ result: result.data.result, customer: toCustomer(result.data.customer) });
   }
 );
 
 // Tool: delete_customer
-server.tool(
+tool(
   "delete_customer",
   "Delete a customer",
   {
     customer_id: z.string().describe("The customer ID to delete"),
   },
-  async ({ customer_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ customer_id }, { plain, customers }) => {
     const mutation = `
       mutation DeleteCustomer($input: DeleteCustomerInput!) {
         deleteCustomer(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1012,32 +1505,73 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteCustomer?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteCustomer.error.message}` }], isError: true };
+      return errorResult(data.deleteCustomer.error);
     }
+    customers.invalidate(customer_id);
 
-    return { content: [{ type: "text", text: `Customer ${customer_id} deleted successfully` }] };
+    return confirmationResult(`Customer ${customer_id} deleted successfully`);
   }
 );
 
+// Preview: delete_customer
+preview("delete_customer", async ({ customer_id }, { plain }) => {
+  const query = `
+    query CustomerPreview($customerId: ID!) {
+      customer(customerId: $customerId) {
+        id
+        fullName
+        email { email }
+        company { name }
+      }
+      threads(filters: { customerIds: [$customerId], statuses: [TODO, SNOOZED, DONE] }, first: 1) {
+        totalCount
+      }
+    }
+  `;
+
+  const result = await plain.rawRequest({ query, variables: { customerId: customer_id } });
+  if (result.error) {
+    return { error: result.error };
+  }
+
+  const data = result.data as any;
+  if (!data?.customer) {
+    return { error: { message: "Customer not found", code: "not_found" } };
+  }
+
+  return {
+    data: {
+      id: data.customer.id,
+      fullName: data.customer.fullName,
+      email: data.customer.email?.email,
+      company: data.customer.company?.name ?? null,
+      threadCount: data.threads?.totalCount,
+    },
+  };
+});
+
 // Tool: mark_customer_as_spam
-server.tool(
+tool(
   "mark_customer_as_spam",
   "Mark a customer as spam",
   {
     customer_id: z.string().describe("The customer ID to mark as spam"),
   },
-  async ({ customer_id }) => {
+  confirmationSchema,
+  async ({ customer_id }, { plain }) => {
     const mutation = `
       mutation MarkCustomerAsSpam($input: MarkCustomerAsSpamInput!) {
         markCustomerAsSpam(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1049,32 +1583,35 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.markCustomerAsSpam?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.markCustomerAsSpam.error.message}` }], isError: true };
+      return errorResult(data.markCustomerAsSpam.error);
     }
 
-    return { content: [{ type: "text", text: `Customer ${customer_id} marked as spam` }] };
+    return confirmationResult(`Customer ${customer_id} marked as spam`);
   }
 );
 
 // Tool: unmark_customer_as_spam
-server.tool(
+tool(
   "unmark_customer_as_spam",
   "Remove spam marking from a customer",
   {
     customer_id: z.string().describe("The customer ID to unmark as spam"),
   },
-  async ({ customer_id }) => {
+  confirmationSchema,
+  async ({ customer_id }, { plain }) => {
     const mutation = `
       mutation UnmarkCustomerAsSpam($input: UnmarkCustomerAsSpamInput!) {
         unmarkCustomerAsSpam(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1086,38 +1623,161 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.unmarkCustomerAsSpam?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.unmarkCustomerAsSpam.error.message}` }], isError: true };
+      return errorResult(data.unmarkCustomerAsSpam.error);
+    }
+
+    return confirmationResult(`Customer ${customer_id} unmarked as spam`);
+  }
+);
+
+// Cursors for customer lists sorted or filtered here rather than by Plain
+const OFFSET_CURSOR_PREFIX = "offset:";
+
+// Customers read per request when listing them all to sort or filter here
+const CUSTOMER_SCAN_PAGE_SIZE = 100;
+
+// Tool: list_customers
+tool(
+  "list_customers",
+  `List customers with filters and sorting. Filtering by tier or date range, or sorting by anything but name, reads the first ${FETCH_ALL_MAX_ITEMS} customers again for every page, before filtering and sorting them here, and sets truncated when the workspace has more`,
+  {
+    customer_group_ids: z.array(z.string()).optional().describe("Only customers in any of these customer groups"),
+    company: z.string().optional().describe('Company ID, or company domain name such as "example.com"'),
+    tenant_id: z.string().optional().describe("Only customers belonging to this tenant"),
+    tier_id: z.string().optional().describe("Only customers whose company is in this tier"),
+    is_marked_as_spam: z.boolean().optional().describe("true for only spam, false to leave spam out"),
+    created_after: z.string().datetime({ offset: true }).optional().describe("Created at or after this ISO 8601 time"),
+    created_before: z.string().datetime({ offset: true }).optional().describe("Created before this ISO 8601 time"),
+    updated_after: z.string().datetime({ offset: true }).optional().describe("Last updated at or after this ISO 8601 time"),
+    updated_before: z.string().datetime({ offset: true }).optional().describe("Last updated before this ISO 8601 time"),
+    sort_by: z
+      .enum(["name", "created_at", "last_activity"])
+      .optional()
+      .default("name")
+      .describe("Sort by full name, creation date, or last activity (when the customer was last updated)"),
+    sort_direction: z.enum(["asc", "desc"]).optional().default("asc").describe("Sort direction"),
+    limit: z.number().min(1).max(100).optional().default(25).describe("Number of customers to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("customers", customerSchema).extend({
+    // Only when filtering or sorting here: customers past the first FETCH_ALL_MAX_ITEMS were never read
+    truncated: z.boolean().optional(),
+  }),
+  { readOnlyHint: true },
+  async (args, { plain }) => {
+    const { company, tenant_id, tier_id, sort_by, sort_direction, limit, after, fetch_all } = args;
+
+    const query = `
+      query ListCustomers($filters: CustomersFilter, $sortBy: CustomersSort, $first: Int, $after: String) {
+        customers(filters: $filters, sortBy: $sortBy, first: $first, after: $after) {
+          edges {
+            node {
+              ${CUSTOMER_FIELDS}
+              company { tier { id } }
+            }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `;
+
+    const filters = {
+      ...(args.customer_group_ids && { customerGroupIds: args.customer_group_ids }),
+      ...(company && { companyIdentifiers: [company.includes(".") ? { companyDomainName: company } : { companyId: company }] }),
+      ...(tenant_id && { tenantIdentifiers: [{ tenantId: tenant_id }] }),
+      ...(args.is_marked_as_spam !== undefined && { isMarkedAsSpam: args.is_marked_as_spam }),
+    };
+    const ranges = {
+      createdAt: { after: args.created_after, before: args.created_before },
+      updatedAt: { after: args.updated_after, before: args.updated_before },
+    };
+    const sortField = { name: "fullName", created_at: "createdAt", last_activity: "updatedAt" } as const;
+
+    // Plain can sort by name and filter by everything but tier and dates
+    const local = sort_by !== "name" || !!tier_id || Object.values(ranges).some((range) => range.after || range.before);
+    if (!local) {
+      const sortBy = { field: CustomersSortField.FullName, direction: sort_direction === "desc" ? SortDirection.Desc : SortDirection.Asc };
+      const page = await fetchPages(async (cursor) => {
+        const result = await plain.rawRequest({ query, variables: { filters, sortBy, first: limit, after: cursor } });
+        if (result.error) return { error: result.error };
+        return connectionPage((result.data as any)?.customers);
+      }, { after, fetch_all });
+
+      if (page.error) {
+        return errorResult(page.error);
+      }
+      return pageResult("customers", page.data.items.map(toCustomer), page.data);
+    }
+
+    const offset = after ? Number(after.slice(OFFSET_CURSOR_PREFIX.length)) : 0;
+    if (after && (!after.startsWith(OFFSET_CURSOR_PREFIX) || !Number.isInteger(offset) || offset < 0)) {
+      return errorResult({
+        message: "after must be a next_cursor from list_customers called with the same sorting and filters",
+        code: "invalid_argument",
+        fields: [{ field: "after", message: "Not a cursor for this listing", type: "invalid" }],
+      });
     }
 
-    return { content: [{ type: "text", text: `Customer ${customer_id} unmarked as spam` }] };
+    const all = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { filters, first: CUSTOMER_SCAN_PAGE_SIZE, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.customers);
+    }, { fetch_all: true });
+
+    if (all.error) {
+      return errorResult(all.error);
+    }
+
+    const inRange = (time: string, range: { after?: string; before?: string }) =>
+      (!range.after || Date.parse(time) >= Date.parse(range.after)) && (!range.before || Date.parse(time) < Date.parse(range.before));
+    const direction = sort_direction === "desc" ? -1 : 1;
+    const customers = all.data.items
+      .filter((customer: any) => !tier_id || customer.company?.tier?.id === tier_id)
+      .map(toCustomer)
+      .filter((customer) => inRange(customer.createdAt, ranges.createdAt) && inRange(customer.updatedAt, ranges.updatedAt))
+      .sort((a, b) => a[sortField[sort_by]].localeCompare(b[sortField[sort_by]]) * direction);
+
+    const end = fetch_all ? customers.length : offset + limit;
+    const hasMore = end < customers.length;
+    return jsonResult({
+      customers: customers.slice(offset, end),
+      next_cursor: hasMore ? `${OFFSET_CURSOR_PREFIX}${end}` : null,
+      has_more: hasMore,
+      truncated: all.data.has_more,
+    });
   }
 );
 
 // Tool: get_customer
-server.tool(
+tool(
   "get_customer",
   "Get detailed customer information by ID",
   {
     customer_id: z.string().describe("The customer ID"),
   },
-  async ({ customer_id }) => {
+  customerSchema,
+  { readOnlyHint: true },
+  async ({ customer_id }, { plain }) => {
     const result = await plain.getCustomerById({ customerId: customer_id });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
+    }
+    if (!result.data) {
+      return errorResult({ message: "Customer not found", code: "not_found" });
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }] };
+    return jsonResult(toCustomer(result.data));
   }
 );
 
 // Tool: create_customer_event
-server.tool(
+tool(
   "create_customer_event",
   "Create a custom event on a customer timeline",
   {
@@ -1128,7 +1788,8 @@ server.tool(
       text: z.string().describe("Component text content"),
     })).describe("Event components to display"),
   },
-  async ({ customer_id, title, components }) => {
+  confirmationSchema.extend({ customerEventId: z.string() }),
+  async ({ customer_id, title, components }, { plain }) => {
     const mutation = `
       mutation CreateCustomerEvent($input: CreateCustomerEventInput!) {
         createCustomerEvent(input: $input) {
@@ -1137,7 +1798,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1157,15 +1820,16 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createCustomerEvent?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createCustomerEvent.error.message}` }], isError: true };
+      return errorResult(data.createCustomerEvent.error);
     }
 
-    return { content: [{ type: "text", text: `Customer event created: ${data?.createCustomerEvent?.customerEvent?.id}` }] };
+    const customerEventId = data?.createCustomerEvent?.customerEvent?.id;
+    return confirmationResult(`Customer event created: ${customerEventId}`, { customerEventId });
   }
 );
 
@@ -1173,8 +1837,10 @@ server.tool(
 // ADDITIONAL THREAD TOOLS
 // =============================================================================
 
+toolset("threads", "Listing, searching, reading, replying to, assigning, snoozing and resolving threads, plus notes");
+
 // Tool: create_thread
-server.tool(
+tool(
   "create_thread",
   "Create a new support thread for a customer",
   {
@@ -1183,18 +1849,17 @@ server.tool(
     description: z.string().optional().describe("Thread description"),
     priority: z.number().min(0).max(3).optional().default(2).describe("Priority: 0=urgent, 1=high, 2=normal, 3=low"),
   },
-  async ({ customer_id, title, description, priority }) => {
+  threadSchema,
+  async ({ customer_id, title, description, priority }, { plain }) => {
     const mutation = `
       mutation CreateThread($input: CreateThreadInput!) {
         createThread(input: $input) {
-          thread {
-            id
-            title
-            status
-          }
+          thread { ${THREAD_FIELDS} }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1206,34 +1871,35 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createThread?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createThread.error.message}` }], isError: true };
+      return errorResult(data.createThread.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createThread?.thread, null, 2) }] };
+    return jsonResult(toThread(data?.createThread?.thread));
   }
 );
 
 // Tool: assign_thread
-server.tool(
+tool(
   "assign_thread",
   "Assign a thread to a user",
   {
     thread_id: z.string().describe("The thread ID"),
     user_id: z.string().describe("The user ID to assign to"),
   },
-  async ({ thread_id, user_id }) => {
+  confirmationSchema,
+  async ({ thread_id, user_id }, { plain }) => {
     const result = await plain.assignThread({
       threadId: thread_id,
       userId: user_id,
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const assignee = result.data?.assignedTo;
@@ -1242,39 +1908,41 @@ server.tool(
       : assignee?.__typename === "MachineUser"
         ? assignee.fullName
         : "user";
-    return { content: [{ type: "text", text: `Thread assigned to ${assigneeName}` }] };
+    return confirmationResult(`Thread assigned to ${assigneeName}`);
   }
 );
 
 // Tool: unassign_thread
-server.tool(
+tool(
   "unassign_thread",
   "Remove assignment from a thread",
   {
     thread_id: z.string().describe("The thread ID"),
   },
-  async ({ thread_id }) => {
+  confirmationSchema,
+  async ({ thread_id }, { plain }) => {
     const result = await plain.unassignThread({
       threadId: thread_id,
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
-    return { content: [{ type: "text", text: `Thread ${thread_id} unassigned` }] };
+    return confirmationResult(`Thread ${thread_id} unassigned`);
   }
 );
 
 // Tool: change_thread_priority
-server.tool(
+tool(
   "change_thread_priority",
   "Change the priority of a thread",
   {
     thread_id: z.string().describe("The thread ID"),
     priority: z.number().min(0).max(3).describe("New priority: 0=urgent, 1=high, 2=normal, 3=low"),
   },
-  async ({ thread_id, priority }) => {
+  confirmationSchema,
+  async ({ thread_id, priority }, { plain }) => {
     const mutation = `
       mutation ChangeThreadPriority($input: ChangeThreadPriorityInput!) {
         changeThreadPriority(input: $input) {
@@ -1284,7 +1952,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1296,28 +1966,28 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.changeThreadPriority?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.changeThreadPriority.error.message}` }], isError: true };
+      return errorResult(data.changeThreadPriority.error);
     }
 
-    const priorityNames = ["urgent", "high", "normal", "low"];
-    return { content: [{ type: "text", text: `Thread priority changed to ${priorityNames[priority]}` }] };
+    return confirmationResult(`Thread priority changed to ${priorityName(priority)}`);
   }
 );
 
 // Tool: update_thread_title
-server.tool(
+tool(
   "update_thread_title",
   "Update the title of a thread",
   {
     thread_id: z.string().describe("The thread ID"),
     title: z.string().describe("New thread title"),
   },
-  async ({ thread_id, title }) => {
+  confirmationSchema,
+  async ({ thread_id, title }, { plain }) => {
     const mutation = `
       mutation UpdateThreadTitle($input: UpdateThreadTitleInput!) {
         updateThreadTitle(input: $input) {
@@ -1327,7 +1997,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1339,32 +2011,36 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.updateThreadTitle?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.updateThreadTitle.error.message}` }], isError: true };
+      return errorResult(data.updateThreadTitle.error);
     }
 
-    return { content: [{ type: "text", text: `Thread title updated to: ${title}` }] };
+    return confirmationResult(`Thread title updated to: ${title}`);
   }
 );
 
 // Tool: delete_thread
-server.tool(
+tool(
   "delete_thread",
   "Permanently delete a thread",
   {
     thread_id: z.string().describe("The thread ID to delete"),
   },
-  async ({ thread_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ thread_id }, { plain }) => {
     const mutation = `
       mutation DeleteThread($input: DeleteThreadInput!) {
         deleteThread(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1376,20 +2052,70 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteThread?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteThread.error.message}` }], isError: true };
+      return errorResult(data.deleteThread.error);
     }
 
-    return { content: [{ type: "text", text: `Thread ${thread_id} deleted permanently` }] };
+    return confirmationResult(`Thread ${thread_id} deleted permanently`);
   }
 );
 
+// Preview: delete_thread
+preview("delete_thread", async ({ thread_id }, { plain, customers }) => {
+  const threadResult = await plain.getThread({ threadId: thread_id });
+  if (threadResult.error) {
+    return { error: threadResult.error };
+  }
+  const thread = threadResult.data;
+  if (!thread) {
+    return { error: { message: "Thread not found", code: "not_found" } };
+  }
+
+  const customerResult = await customers.get([thread.customer.id]);
+  if (customerResult.error) {
+    return { error: customerResult.error };
+  }
+  const customer = customerResult.data.get(thread.customer.id);
+
+  const query = `
+    query ThreadTimelineEntryIds($threadId: ID!, $after: String) {
+      thread(threadId: $threadId) {
+        timelineEntries(first: 100, after: $after) {
+          edges {
+            node { id }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    }
+  `;
+  const entries = await fetchPages(async (cursor) => {
+    const result = await plain.rawRequest({ query, variables: { threadId: thread_id, after: cursor } });
+    if (result.error) return { error: result.error };
+    return connectionPage((result.data as any)?.thread?.timelineEntries);
+  }, { fetch_all: true });
+  if (entries.error) {
+    return { error: entries.error };
+  }
+
+  return {
+    data: {
+      id: thread.id,
+      title: thread.title,
+      status: thread.status,
+      customer: customer ?? { id: thread.customer.id, name: null, email: null },
+      timelineEntryCount: countOf(entries.data),
+      createdAt: thread.createdAt.iso8601,
+    },
+  };
+});
+
 // Tool: create_thread_event
-server.tool(
+tool(
   "create_thread_event",
   "Create a custom event on a thread timeline",
   {
@@ -1400,7 +2126,8 @@ server.tool(
       text: z.string().describe("Component text content"),
     })).describe("Event components to display"),
   },
-  async ({ thread_id, title, components }) => {
+  confirmationSchema.extend({ threadEventId: z.string() }),
+  async ({ thread_id, title, components }, { plain }) => {
     const mutation = `
       mutation CreateThreadEvent($input: CreateThreadEventInput!) {
         createThreadEvent(input: $input) {
@@ -1409,7 +2136,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1429,15 +2158,16 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createThreadEvent?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createThreadEvent.error.message}` }], isError: true };
+      return errorResult(data.createThreadEvent.error);
     }
 
-    return { content: [{ type: "text", text: `Thread event created: ${data?.createThreadEvent?.threadEvent?.id}` }] };
+    const threadEventId = data?.createThreadEvent?.threadEvent?.id;
+    return confirmationResult(`Thread event created: ${threadEventId}`, { threadEventId });
   }
 );
 
@@ -1445,15 +2175,22 @@ server.tool(
 // LABEL TOOLS
 // =============================================================================
 
+toolset("labels", "Label types and thread labels");
+
 // Tool: list_label_types
-server.tool(
+tool(
   "list_label_types",
   "List all available label types",
-  {},
-  async () => {
+  {
+    limit: z.number().min(1).max(100).optional().default(100).describe("Number of label types to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("labelTypes", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query LabelTypes {
-        labelTypes(first: 100) {
+      query LabelTypes($first: Int, $after: String) {
+        labelTypes(first: $first, after: $after) {
           edges {
             node {
               id
@@ -1462,32 +2199,35 @@ server.tool(
               isArchived
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: {} });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.labelTypes);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const labels = data?.labelTypes?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(labels, null, 2) }] };
+    return pageResult("labelTypes", page.data.items, page.data);
   }
 );
 
 // Tool: create_label_type
-server.tool(
+tool(
   "create_label_type",
   "Create a new label type",
   {
     name: z.string().describe("Label name"),
     icon: z.string().optional().describe("Label icon (emoji)"),
   },
-  async ({ name, icon }) => {
+  entitySchema,
+  async ({ name, icon }, { plain }) => {
     const mutation = `
       mutation CreateLabelType($input: CreateLabelTypeInput!) {
         createLabelType(input: $input) {
@@ -1498,7 +2238,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1510,55 +2252,59 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createLabelType?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createLabelType.error.message}` }], isError: true };
+      return errorResult(data.createLabelType.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createLabelType?.labelType, null, 2) }] };
+    return jsonResult(data?.createLabelType?.labelType);
   }
 );
 
 // Tool: add_labels_to_thread
-server.tool(
+tool(
   "add_labels_to_thread",
   "Add labels to a thread",
   {
     thread_id: z.string().describe("The thread ID"),
     label_type_ids: z.array(z.string()).describe("Label type IDs to add"),
   },
-  async ({ thread_id, label_type_ids }) => {
+  confirmationSchema,
+  async ({ thread_id, label_type_ids }, { plain }) => {
     const result = await plain.addLabels({
       threadId: thread_id,
       labelTypeIds: label_type_ids,
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
-    return { content: [{ type: "text", text: `Labels added to thread ${thread_id}` }] };
+    return confirmationResult(`Labels added to thread ${thread_id}`);
   }
 );
 
 // Tool: remove_labels_from_thread
-server.tool(
+tool(
   "remove_labels_from_thread",
   "Remove labels from a thread",
   {
     thread_id: z.string().describe("The thread ID"),
     label_type_ids: z.array(z.string()).describe("Label type IDs to remove"),
   },
-  async ({ thread_id, label_type_ids }) => {
+  confirmationSchema,
+  async ({ thread_id, label_type_ids }, { plain }) => {
     const mutation = `
       mutation RemoveLabels($input: RemoveLabelsInput!) {
         removeLabels(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1570,15 +2316,15 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.removeLabels?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.removeLabels.error.message}` }], isError: true };
+      return errorResult(data.removeLabels.error);
     }
 
-    return { content: [{ type: "text", text: `Labels removed from thread ${thread_id}` }] };
+    return confirmationResult(`Labels removed from thread ${thread_id}`);
   }
 );
 
@@ -1586,27 +2332,170 @@ server.tool(
 // COMPANY & TENANT TOOLS
 // =============================================================================
 
-// Tool: upsert_company
-server.tool(
-  "upsert_company",
-  "Create or update a company",
+toolset("companies", "Companies and their threads");
+
+// Tool: list_companies
+tool(
+  "list_companies",
+  "List companies",
   {
-    name: z.string().describe("Company name"),
-    domain: z.string().optional().describe("Company domain (e.g., example.com)"),
-    external_id: z.string().optional().describe("External system ID"),
+    limit: z.number().min(1).max(100).optional().default(50).describe("Number of companies to return per page"),
+    ...paginationArgs,
   },
-  async ({ name, domain, external_id }) => {
-    const mutation = `
-      mutation UpsertCompany($input: UpsertCompanyInput!) {
-        upsertCompany(input: $input) {
-          company {
-            id
-            name
+  pageSchema("companies", companySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
+    const query = `
+      query ListCompanies($first: Int, $after: String) {
+        companies(first: $first, after: $after) {
+          edges {
+            node { ${COMPANY_FIELDS} }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `;
+
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.companies);
+    }, { after, fetch_all });
+
+    if (page.error) {
+      return errorResult(page.error);
+    }
+
+    return pageResult("companies", page.data.items.map(toCompany), page.data);
+  }
+);
+
+// Tool: get_company
+tool(
+  "get_company",
+  "Get a company by ID",
+  {
+    company_id: z.string().describe("The company ID"),
+  },
+  companySchema,
+  { readOnlyHint: true },
+  async ({ company_id }, { plain }) => {
+    const query = `
+      query GetCompany($companyId: ID!) {
+        company(companyId: $companyId) { ${COMPANY_FIELDS} }
+      }
+    `;
+
+    const result = await plain.rawRequest({ query, variables: { companyId: company_id } });
+
+    if (result.error) {
+      return errorResult(result.error);
+    }
+
+    const company = (result.data as any)?.company;
+    if (!company) {
+      return errorResult({ message: "Company not found", code: "not_found" });
+    }
+
+    return jsonResult(toCompany(company));
+  }
+);
+
+// Tool: search_companies
+tool(
+  "search_companies",
+  "Search companies by partial name or domain name",
+  {
+    term: z.string().min(2).describe("Text to search for in company names and domains (at least 2 characters)"),
+    limit: z.number().min(1).max(100).optional().default(25).describe("Number of companies to return per page"),
+    after: paginationArgs.after,
+  },
+  pageSchema("companies", companySchema),
+  { readOnlyHint: true },
+  async ({ term, limit, after }, { plain }) => {
+    const query = `
+      query SearchCompanies($searchQuery: CompaniesSearchQuery!, $first: Int, $after: String) {
+        searchCompanies(searchQuery: $searchQuery, first: $first, after: $after) {
+          edges {
+            node {
+              company { ${COMPANY_FIELDS} }
+            }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `;
+
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { searchQuery: { term }, first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      const found = connectionPage((result.data as any)?.searchCompanies);
+      return { items: found.items.map((hit: any) => hit.company).filter(Boolean), pageInfo: found.pageInfo };
+    }, { after });
+
+    if (page.error) {
+      return errorResult(page.error);
+    }
+
+    return pageResult("companies", page.data.items.map(toCompany), page.data);
+  }
+);
+
+// Tool: list_company_threads
+tool(
+  "list_company_threads",
+  "List threads from every customer of a company, for a view of everything going on with an account",
+  {
+    company_id: z.string().describe("The company ID"),
+    statuses: z
+      .array(z.enum(["todo", "snoozed", "done"]))
+      .optional()
+      .describe("Only threads with these statuses (default: any)"),
+    limit: z.number().min(1).max(100).optional().default(25).describe("Number of threads to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("threads", threadSchema),
+  { readOnlyHint: true },
+  async ({ company_id, statuses, limit, after, fetch_all }, { plain, customers }) => {
+    const page = await fetchThreadPages(
+      plain,
+      { companyIdentifiers: [{ companyId: company_id }], ...(statuses && { statuses: statuses.map((status) => THREAD_STATUSES[status]) }) },
+      { limit, after, fetch_all }
+    );
+
+    if (page.error) {
+      return errorResult(page.error);
+    }
+
+    customers.remember(page.data.items.filter((thread: any) => thread.customer?.id).map((thread: any) => customerSummary(thread.customer)));
+    return pageResult("threads", page.data.items.map((thread) => toThread(thread)), page.data);
+  }
+);
+
+// Tool: upsert_company
+tool(
+  "upsert_company",
+  "Create or update a company",
+  {
+    name: z.string().describe("Company name"),
+    domain: z.string().optional().describe("Company domain (e.g., example.com)"),
+    external_id: z.string().optional().describe("External system ID"),
+  },
+  entitySchema,
+  async ({ name, domain, external_id }, { plain }) => {
+    const mutation = `
+      mutation UpsertCompany($input: UpsertCompanyInput!) {
+        upsertCompany(input: $input) {
+          company {
+            id
+            name
             domainName
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1619,32 +2508,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.upsertCompany?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.upsertCompany.error.message}` }], isError: true };
+      return errorResult(data.upsertCompany.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.upsertCompany?.company, null, 2) }] };
+    return jsonResult(data?.upsertCompany?.company);
   }
 );
 
 // Tool: delete_company
-server.tool(
+tool(
   "delete_company",
   "Delete a company",
   {
     company_id: z.string().describe("The company ID to delete"),
   },
-  async ({ company_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ company_id }, { plain }) => {
     const mutation = `
       mutation DeleteCompany($input: DeleteCompanyInput!) {
         deleteCompany(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1656,20 +2549,225 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteCompany?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteCompany.error.message}` }], isError: true };
+      return errorResult(data.deleteCompany.error);
+    }
+
+    return confirmationResult(`Company ${company_id} deleted successfully`);
+  }
+);
+
+// Preview: delete_company
+preview("delete_company", ({ company_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query CompanyPreview($companyId: ID!) {
+        company(companyId: $companyId) {
+          id
+          name
+          domainName
+        }
+      }
+    `,
+    { companyId: company_id },
+    "company",
+    "Company not found"
+  )
+);
+
+toolset("tenants", "Tenants, their customers and their threads");
+
+// Tool: list_tenants
+tool(
+  "list_tenants",
+  "List tenants",
+  {
+    limit: z.number().min(1).max(100).optional().default(50).describe("Number of tenants to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("tenants", tenantSchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
+    const query = `
+      query ListTenants($first: Int, $after: String) {
+        tenants(first: $first, after: $after) {
+          edges {
+            node { ${TENANT_FIELDS} }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `;
+
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.tenants);
+    }, { after, fetch_all });
+
+    if (page.error) {
+      return errorResult(page.error);
+    }
+
+    return pageResult("tenants", page.data.items.map(toTenant), page.data);
+  }
+);
+
+// Tool: get_tenant
+tool(
+  "get_tenant",
+  "Get a tenant by ID. Use list_customers with tenant_id to see its customers",
+  {
+    tenant_id: z.string().describe("The tenant ID"),
+  },
+  tenantSchema,
+  { readOnlyHint: true },
+  async ({ tenant_id }, { plain }) => {
+    const query = `
+      query GetTenant($tenantId: ID!) {
+        tenant(tenantId: $tenantId) { ${TENANT_FIELDS} }
+      }
+    `;
+
+    const result = await plain.rawRequest({ query, variables: { tenantId: tenant_id } });
+
+    if (result.error) {
+      return errorResult(result.error);
+    }
+
+    const tenant = (result.data as any)?.tenant;
+    if (!tenant) {
+      return errorResult({ message: "Tenant not found", code: "not_found" });
+    }
+
+    return jsonResult(toTenant(tenant));
+  }
+);
+
+// Tool: add_customer_to_tenants
+tool(
+  "add_customer_to_tenants",
+  "Add a customer to one or more tenants",
+  {
+    customer_id: z.string().describe("The customer ID"),
+    tenant_ids: z.array(z.string()).describe("Tenant IDs to add the customer to"),
+  },
+  confirmationSchema,
+  async ({ customer_id, tenant_ids }, { plain }) => {
+    const mutation = `
+      mutation AddCustomerToTenants($input: AddCustomerToTenantsInput!) {
+        addCustomerToTenants(input: $input) {
+          error {
+            message
+            type
+            code
+            fields { field message type }
+          }
+        }
+      }
+    `;
+
+    const result = await plain.rawRequest({
+      query: mutation,
+      variables: {
+        input: { customerIdentifier: { customerId: customer_id }, tenantIdentifiers: tenant_ids.map((tenantId) => ({ tenantId })) },
+      },
+    });
+
+    if (result.error) {
+      return errorResult(result.error);
+    }
+
+    const data = result.data as any;
+    if (data?.addCustomerToTenants?.error) {
+      return errorResult(data.addCustomerToTenants.error);
+    }
+
+    return confirmationResult(`Customer added to ${tenant_ids.length} tenant(s)`);
+  }
+);
+
+// Tool: remove_customer_from_tenants
+tool(
+  "remove_customer_from_tenants",
+  "Remove a customer from one or more tenants",
+  {
+    customer_id: z.string().describe("The customer ID"),
+    tenant_ids: z.array(z.string()).describe("Tenant IDs to remove the customer from"),
+  },
+  confirmationSchema,
+  async ({ customer_id, tenant_ids }, { plain }) => {
+    const mutation = `
+      mutation RemoveCustomerFromTenants($input: RemoveCustomerFromTenantsInput!) {
+        removeCustomerFromTenants(input: $input) {
+          error {
+            message
+            type
+            code
+            fields { field message type }
+          }
+        }
+      }
+    `;
+
+    const result = await plain.rawRequest({
+      query: mutation,
+      variables: {
+        input: { customerIdentifier: { customerId: customer_id }, tenantIdentifiers: tenant_ids.map((tenantId) => ({ tenantId })) },
+      },
+    });
+
+    if (result.error) {
+      return errorResult(result.error);
+    }
+
+    const data = result.data as any;
+    if (data?.removeCustomerFromTenants?.error) {
+      return errorResult(data.removeCustomerFromTenants.error);
+    }
+
+    return confirmationResult(`Customer removed from ${tenant_ids.length} tenant(s)`);
+  }
+);
+
+// Tool: list_tenant_threads
+tool(
+  "list_tenant_threads",
+  "List threads that belong to a tenant",
+  {
+    tenant_id: z.string().describe("The tenant ID"),
+    statuses: z
+      .array(z.enum(["todo", "snoozed", "done"]))
+      .optional()
+      .describe("Only threads with these statuses (default: any)"),
+    limit: z.number().min(1).max(100).optional().default(25).describe("Number of threads to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("threads", threadSchema),
+  { readOnlyHint: true },
+  async ({ tenant_id, statuses, limit, after, fetch_all }, { plain, customers }) => {
+    const page = await fetchThreadPages(
+      plain,
+      { tenantIdentifiers: [{ tenantId: tenant_id }], ...(statuses && { statuses: statuses.map((status) => THREAD_STATUSES[status]) }) },
+      { limit, after, fetch_all }
+    );
+
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    return { content: [{ type: "text", text: `Company ${company_id} deleted successfully` }] };
+    customers.remember(page.data.items.filter((thread: any) => thread.customer?.id).map((thread: any) => customerSummary(thread.customer)));
+    return pageResult("threads", page.data.items.map((thread) => toThread(thread)), page.data);
   }
 );
 
 // Tool: upsert_tenant
-server.tool(
+tool(
   "upsert_tenant",
   "Create or update a tenant",
   {
@@ -1677,7 +2775,8 @@ server.tool(
     name: z.string().describe("Tenant name"),
     external_id: z.string().optional().describe("External system ID"),
   },
-  async ({ identifier, name, external_id }) => {
+  entitySchema,
+  async ({ identifier, name, external_id }, { plain }) => {
     const mutation = `
       mutation UpsertTenant($input: UpsertTenantInput!) {
         upsertTenant(input: $input) {
@@ -1688,7 +2787,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1700,32 +2801,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.upsertTenant?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.upsertTenant.error.message}` }], isError: true };
+      return errorResult(data.upsertTenant.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.upsertTenant?.tenant, null, 2) }] };
+    return jsonResult(data?.upsertTenant?.tenant);
   }
 );
 
 // Tool: delete_tenant
-server.tool(
+tool(
   "delete_tenant",
   "Delete a tenant",
   {
     tenant_id: z.string().describe("The tenant ID to delete"),
   },
-  async ({ tenant_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ tenant_id }, { plain }) => {
     const mutation = `
       mutation DeleteTenant($input: DeleteTenantInput!) {
         deleteTenant(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1737,33 +2842,58 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteTenant?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteTenant.error.message}` }], isError: true };
+      return errorResult(data.deleteTenant.error);
     }
 
-    return { content: [{ type: "text", text: `Tenant ${tenant_id} deleted successfully` }] };
+    return confirmationResult(`Tenant ${tenant_id} deleted successfully`);
   }
 );
 
+// Preview: delete_tenant
+preview("delete_tenant", ({ tenant_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query TenantPreview($tenantId: ID!) {
+        tenant(tenantId: $tenantId) {
+          id
+          name
+          identifier
+          externalId
+        }
+      }
+    `,
+    { tenantId: tenant_id },
+    "tenant",
+    "Tenant not found"
+  )
+);
+
 // =============================================================================
 // SNIPPET TOOLS
 // =============================================================================
 
+toolset("snippets", "Snippets (canned responses)");
+
 // Tool: list_snippets
-server.tool(
+tool(
   "list_snippets",
   "List all snippets (canned responses)",
   {
-    limit: z.number().min(1).max(100).optional().default(50).describe("Number of snippets to return"),
+    limit: z.number().min(1).max(100).optional().default(50).describe("Number of snippets to return per page"),
+    ...paginationArgs,
   },
-  async ({ limit }) => {
+  pageSchema("snippets", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query Snippets($first: Int) {
-        snippets(first: $first) {
+      query Snippets($first: Int, $after: String) {
+        snippets(first: $first, after: $after) {
           edges {
             node {
               id
@@ -1772,32 +2902,35 @@ server.tool(
               createdAt { iso8601 }
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: { first: limit } });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.snippets);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const snippets = data?.snippets?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(snippets, null, 2) }] };
+    return pageResult("snippets", page.data.items, page.data);
   }
 );
 
 // Tool: create_snippet
-server.tool(
+tool(
   "create_snippet",
   "Create a new snippet (canned response)",
   {
     name: z.string().describe("Snippet name/shortcut"),
     text: z.string().describe("Snippet text content"),
   },
-  async ({ name, text }) => {
+  entitySchema,
+  async ({ name, text }, { plain }) => {
     const mutation = `
       mutation CreateSnippet($input: CreateSnippetInput!) {
         createSnippet(input: $input) {
@@ -1808,7 +2941,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1820,20 +2955,20 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createSnippet?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createSnippet.error.message}` }], isError: true };
+      return errorResult(data.createSnippet.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createSnippet?.snippet, null, 2) }] };
+    return jsonResult(data?.createSnippet?.snippet);
   }
 );
 
 // Tool: update_snippet
-server.tool(
+tool(
   "update_snippet",
   "Update an existing snippet",
   {
@@ -1841,7 +2976,8 @@ server.tool(
     name: z.string().optional().describe("New snippet name"),
     text: z.string().optional().describe("New snippet text"),
   },
-  async ({ snippet_id, name, text }) => {
+  confirmationSchema,
+  async ({ snippet_id, name, text }, { plain }) => {
     const mutation = `
       mutation UpdateSnippet($input: UpdateSnippetInput!) {
         updateSnippet(input: $input) {
@@ -1852,7 +2988,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1865,32 +3003,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.updateSnippet?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.updateSnippet.error.message}` }], isError: true };
+      return errorResult(data.updateSnippet.error);
     }
 
-    return { content: [{ type: "text", text: `Snippet ${snippet_id} updated successfully` }] };
+    return confirmationResult(`Snippet ${snippet_id} updated successfully`);
   }
 );
 
 // Tool: delete_snippet
-server.tool(
+tool(
   "delete_snippet",
   "Delete a snippet",
   {
     snippet_id: z.string().describe("The snippet ID to delete"),
   },
-  async ({ snippet_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ snippet_id }, { plain }) => {
     const mutation = `
       mutation DeleteSnippet($input: DeleteSnippetInput!) {
         deleteSnippet(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1902,31 +3044,57 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteSnippet?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteSnippet.error.message}` }], isError: true };
+      return errorResult(data.deleteSnippet.error);
     }
 
-    return { content: [{ type: "text", text: `Snippet ${snippet_id} deleted successfully` }] };
+    return confirmationResult(`Snippet ${snippet_id} deleted successfully`);
   }
 );
 
+// Preview: delete_snippet
+preview("delete_snippet", ({ snippet_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query SnippetPreview($snippetId: ID!) {
+        snippet(snippetId: $snippetId) {
+          id
+          name
+          text
+        }
+      }
+    `,
+    { snippetId: snippet_id },
+    "snippet",
+    "Snippet not found"
+  )
+);
+
 // =============================================================================
 // WEBHOOK TOOLS
 // =============================================================================
 
+toolset("webhooks", "Webhook targets and events received by the local webhook listener");
+
 // Tool: list_webhooks
-server.tool(
+tool(
   "list_webhooks",
   "List all webhook targets",
-  {},
-  async () => {
+  {
+    limit: z.number().min(1).max(100).optional().default(50).describe("Number of webhook targets to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("webhooks", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query WebhookTargets {
-        webhookTargets(first: 50) {
+      query WebhookTargets($first: Int, $after: String) {
+        webhookTargets(first: $first, after: $after) {
           edges {
             node {
               id
@@ -1938,28 +3106,32 @@ server.tool(
               createdAt { iso8601 }
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: {} });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.webhookTargets);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const webhooks = data?.webhookTargets?.edges?.map((e: any) => ({
-      ...e.node,
-      eventSubscriptions: e.node.eventSubscriptions?.map((s: any) => s.eventType),
-    })) || [];
+    const webhooks = page.data.items.map((webhook: any) => ({
+      ...webhook,
+      eventSubscriptions: webhook.eventSubscriptions?.map((s: any) => s.eventType),
+    }));
 
-    return { content: [{ type: "text", text: JSON.stringify(webhooks, null, 2) }] };
+    return pageResult("webhooks", webhooks, page.data);
   }
 );
 
 // Tool: create_webhook
-server.tool(
+tool(
   "create_webhook",
   "Create a new webhook target",
   {
@@ -1967,7 +3139,8 @@ server.tool(
     event_types: z.array(z.string()).describe("Event types to subscribe to (e.g., 'thread.created', 'thread.status_transitioned')"),
     is_enabled: z.boolean().optional().default(true).describe("Whether webhook is enabled"),
   },
-  async ({ url, event_types, is_enabled }) => {
+  entitySchema,
+  async ({ url, event_types, is_enabled }, { plain }) => {
     const mutation = `
       mutation CreateWebhookTarget($input: CreateWebhookTargetInput!) {
         createWebhookTarget(input: $input) {
@@ -1978,7 +3151,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -1992,20 +3167,20 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createWebhookTarget?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createWebhookTarget.error.message}` }], isError: true };
+      return errorResult(data.createWebhookTarget.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createWebhookTarget?.webhookTarget, null, 2) }] };
+    return jsonResult(data?.createWebhookTarget?.webhookTarget);
   }
 );
 
 // Tool: update_webhook
-server.tool(
+tool(
   "update_webhook",
   "Update a webhook target",
   {
@@ -2014,7 +3189,8 @@ server.tool(
     event_types: z.array(z.string()).optional().describe("New event types to subscribe to"),
     is_enabled: z.boolean().optional().describe("Whether webhook is enabled"),
   },
-  async ({ webhook_id, url, event_types, is_enabled }) => {
+  confirmationSchema,
+  async ({ webhook_id, url, event_types, is_enabled }, { plain }) => {
     const mutation = `
       mutation UpdateWebhookTarget($input: UpdateWebhookTargetInput!) {
         updateWebhookTarget(input: $input) {
@@ -2025,7 +3201,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2039,32 +3217,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.updateWebhookTarget?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.updateWebhookTarget.error.message}` }], isError: true };
+      return errorResult(data.updateWebhookTarget.error);
     }
 
-    return { content: [{ type: "text", text: `Webhook ${webhook_id} updated successfully` }] };
+    return confirmationResult(`Webhook ${webhook_id} updated successfully`);
   }
 );
 
 // Tool: delete_webhook
-server.tool(
+tool(
   "delete_webhook",
   "Delete a webhook target",
   {
     webhook_id: z.string().describe("The webhook target ID to delete"),
   },
-  async ({ webhook_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ webhook_id }, { plain }) => {
     const mutation = `
       mutation DeleteWebhookTarget($input: DeleteWebhookTargetInput!) {
         deleteWebhookTarget(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2076,33 +3258,102 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteWebhookTarget?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteWebhookTarget.error.message}` }], isError: true };
+      return errorResult(data.deleteWebhookTarget.error);
+    }
+
+    return confirmationResult(`Webhook ${webhook_id} deleted successfully`);
+  }
+);
+
+// Mirrors WebhookEvent
+const webhookEventSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  timestamp: z.string(),
+  workspaceId: z.string(),
+  threadId: z.string().nullable(),
+  customerId: z.string().nullable(),
+  summary: z.string(),
+  payload: z.record(z.string(), z.unknown()).optional(),
+});
+
+// Tool: list_recent_events
+tool(
+  "list_recent_events",
+  "List webhook events recently received by the local webhook listener (newest first)",
+  {
+    type: z
+      .string()
+      .optional()
+      .describe('Only this event type, e.g. thread.thread_status_transitioned, or a prefix ending in ".", e.g. "customer."'),
+    thread_id: z.string().optional().describe("Only events about this thread"),
+    customer_id: z.string().optional().describe("Only events about this customer or their threads"),
+    since: z.string().datetime({ offset: true }).optional().describe("Only events at or after this ISO 8601 time"),
+    limit: z.number().min(1).max(500).optional().default(50).describe("Maximum number of events to return"),
+    include_payload: z.boolean().optional().default(false).describe("Include each event's full webhook payload"),
+  },
+  z.object({ events: z.array(webhookEventSchema) }),
+  { readOnlyHint: true },
+  async ({ type, thread_id, customer_id, since, limit, include_payload }, { events }) => {
+    if (!events) {
+      return errorResult({
+        message: "The webhook listener is disabled. Set PLAIN_WEBHOOK_SECRET to the webhook target's signing secret to enable it.",
+        code: "not_configured",
+      });
     }
 
-    return { content: [{ type: "text", text: `Webhook ${webhook_id} deleted successfully` }] };
+    const matching = events
+      .list({ type, threadId: thread_id, customerId: customer_id, since, limit })
+      .map(({ payload, ...event }) => (include_payload ? { ...event, payload } : event));
+
+    return jsonResult({ events: matching });
   }
 );
 
+// Preview: delete_webhook
+preview("delete_webhook", ({ webhook_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query WebhookTargetPreview($webhookTargetId: ID!) {
+        webhookTarget(webhookTargetId: $webhookTargetId) {
+          id
+          url
+          isEnabled
+        }
+      }
+    `,
+    { webhookTargetId: webhook_id },
+    "webhookTarget",
+    "Webhook target not found"
+  )
+);
+
 // =============================================================================
 // USER & WORKSPACE TOOLS
 // =============================================================================
 
+toolset("workspace", "Workspace details and users");
+
 // Tool: list_users
-server.tool(
+tool(
   "list_users",
   "List workspace users",
   {
-    limit: z.number().min(1).max(100).optional().default(50).describe("Number of users to return"),
+    limit: z.number().min(1).max(100).optional().default(50).describe("Number of users to return per page"),
+    ...paginationArgs,
   },
-  async ({ limit }) => {
+  pageSchema("users", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query Users($first: Int) {
-        users(first: $first) {
+      query Users($first: Int, $after: String) {
+        users(first: $first, after: $after) {
           edges {
             node {
               id
@@ -2113,29 +3364,36 @@ server.tool(
               createdAt { iso8601 }
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: { first: limit } });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.users);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const users = data?.users?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(users, null, 2) }] };
+    return pageResult("users", page.data.items, page.data);
   }
 );
 
 // Tool: get_workspace
-server.tool(
+tool(
   "get_workspace",
-  "Get current workspace information",
+  "Get current workspace information, plus the names of all configured workspaces",
   {},
-  async () => {
+  entitySchema.extend({
+    configuredAs: z.string(),
+    configuredWorkspaces: z.array(z.object({ name: z.string(), isDefault: z.boolean() })),
+  }),
+  { readOnlyHint: true },
+  async (_args, { plain, workspace, workspaces }) => {
     const query = `
       query Workspace {
         workspace {
@@ -2150,10 +3408,19 @@ server.tool(
     const result = await plain.rawRequest({ query, variables: {} });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify((result.data as any)?.workspace, null, 2) }] };
+    const response = {
+      ...(result.data as any)?.workspace,
+      configuredAs: workspace,
+      configuredWorkspaces: Object.keys(workspaces.clients).map((name) => ({
+        name,
+        isDefault: name === workspaces.defaultName,
+      })),
+    };
+
+    return jsonResult(response);
   }
 );
 
@@ -2161,8 +3428,10 @@ server.tool(
 // MESSAGING TOOLS
 // =============================================================================
 
+toolset("messaging", "Sending new emails and chats to customers");
+
 // Tool: send_email
-server.tool(
+tool(
   "send_email",
   "Send a new email to a customer (starts a new thread)",
   {
@@ -2171,17 +3440,17 @@ server.tool(
     text_content: z.string().describe("Plain text email content"),
     html_content: z.string().optional().describe("HTML email content"),
   },
-  async ({ customer_id, subject, text_content, html_content }) => {
+  confirmationSchema.extend({ thread: threadSchema }),
+  async ({ customer_id, subject, text_content, html_content }, { plain }) => {
     const mutation = `
       mutation SendNewEmail($input: SendNewEmailInput!) {
         sendNewEmail(input: $input) {
-          thread {
-            id
-            title
-          }
+          thread { ${THREAD_FIELDS} }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2197,27 +3466,29 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.sendNewEmail?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.sendNewEmail.error.message}` }], isError: true };
+      return errorResult(data.sendNewEmail.error);
     }
 
-    return { content: [{ type: "text", text: `Email sent. Thread: ${JSON.stringify(data?.sendNewEmail?.thread, null, 2)}` }] };
+    const thread = toThread(data?.sendNewEmail?.thread);
+    return confirmationResult(`Email sent. Thread ID: ${thread.id}`, { thread });
   }
 );
 
 // Tool: send_chat
-server.tool(
+tool(
   "send_chat",
   "Send a chat message to a customer",
   {
     customer_id: z.string().describe("The customer ID"),
     text: z.string().describe("Chat message text"),
   },
-  async ({ customer_id, text }) => {
+  confirmationSchema.extend({ threadId: z.string() }),
+  async ({ customer_id, text }, { plain }) => {
     const mutation = `
       mutation SendChat($input: SendChatInput!) {
         sendChat(input: $input) {
@@ -2226,7 +3497,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2238,15 +3511,16 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.sendChat?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.sendChat.error.message}` }], isError: true };
+      return errorResult(data.sendChat.error);
     }
 
-    return { content: [{ type: "text", text: `Chat sent. Thread ID: ${data?.sendChat?.thread?.id}` }] };
+    const threadId = data?.sendChat?.thread?.id;
+    return confirmationResult(`Chat sent. Thread ID: ${threadId}`, { threadId });
   }
 );
 
@@ -2254,15 +3528,22 @@ server.tool(
 // AUTORESPONDER TOOLS
 // =============================================================================
 
+toolset("autoresponders", "Autoresponders");
+
 // Tool: list_autoresponders
-server.tool(
+tool(
   "list_autoresponders",
   "List all autoresponders",
-  {},
-  async () => {
+  {
+    limit: z.number().min(1).max(100).optional().default(50).describe("Number of autoresponders to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("autoresponders", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query Autoresponders {
-        autoresponders(first: 50) {
+      query Autoresponders($first: Int, $after: String) {
+        autoresponders(first: $first, after: $after) {
           edges {
             node {
               id
@@ -2271,25 +3552,27 @@ server.tool(
               createdAt { iso8601 }
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: {} });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.autoresponders);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const autoresponders = data?.autoresponders?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(autoresponders, null, 2) }] };
+    return pageResult("autoresponders", page.data.items, page.data);
   }
 );
 
 // Tool: create_autoresponder
-server.tool(
+tool(
   "create_autoresponder",
   "Create a new autoresponder",
   {
@@ -2298,7 +3581,8 @@ server.tool(
     markdown_content: z.string().optional().describe("Markdown version of the message"),
     is_enabled: z.boolean().optional().default(true).describe("Whether autoresponder is enabled"),
   },
-  async ({ name, text_content, markdown_content, is_enabled }) => {
+  entitySchema,
+  async ({ name, text_content, markdown_content, is_enabled }, { plain }) => {
     const mutation = `
       mutation CreateAutoresponder($input: CreateAutoresponderInput!) {
         createAutoresponder(input: $input) {
@@ -2309,7 +3593,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2321,32 +3607,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createAutoresponder?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createAutoresponder.error.message}` }], isError: true };
+      return errorResult(data.createAutoresponder.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createAutoresponder?.autoresponder, null, 2) }] };
+    return jsonResult(data?.createAutoresponder?.autoresponder);
   }
 );
 
 // Tool: delete_autoresponder
-server.tool(
+tool(
   "delete_autoresponder",
   "Delete an autoresponder",
   {
     autoresponder_id: z.string().describe("The autoresponder ID to delete"),
   },
-  async ({ autoresponder_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ autoresponder_id }, { plain }) => {
     const mutation = `
       mutation DeleteAutoresponder($input: DeleteAutoresponderInput!) {
         deleteAutoresponder(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2358,31 +3648,57 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteAutoresponder?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteAutoresponder.error.message}` }], isError: true };
+      return errorResult(data.deleteAutoresponder.error);
     }
 
-    return { content: [{ type: "text", text: `Autoresponder ${autoresponder_id} deleted successfully` }] };
+    return confirmationResult(`Autoresponder ${autoresponder_id} deleted successfully`);
   }
 );
 
+// Preview: delete_autoresponder
+preview("delete_autoresponder", ({ autoresponder_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query AutoresponderPreview($autoresponderId: ID!) {
+        autoresponder(autoresponderId: $autoresponderId) {
+          id
+          name
+          isEnabled
+        }
+      }
+    `,
+    { autoresponderId: autoresponder_id },
+    "autoresponder",
+    "Autoresponder not found"
+  )
+);
+
 // =============================================================================
 // TIER & SLA TOOLS
 // =============================================================================
 
+toolset("tiers", "Support tiers");
+
 // Tool: list_tiers
-server.tool(
+tool(
   "list_tiers",
   "List all support tiers",
-  {},
-  async () => {
+  {
+    limit: z.number().min(1).max(100).optional().default(50).describe("Number of tiers to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("tiers", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query Tiers {
-        tiers(first: 50) {
+      query Tiers($first: Int, $after: String) {
+        tiers(first: $first, after: $after) {
           edges {
             node {
               id
@@ -2391,32 +3707,35 @@ server.tool(
               createdAt { iso8601 }
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: {} });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.tiers);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const tiers = data?.tiers?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(tiers, null, 2) }] };
+    return pageResult("tiers", page.data.items, page.data);
   }
 );
 
 // Tool: create_tier
-server.tool(
+tool(
   "create_tier",
   "Create a new support tier",
   {
     name: z.string().describe("Tier name"),
     color: z.string().optional().describe("Tier color (hex code)"),
   },
-  async ({ name, color }) => {
+  entitySchema,
+  async ({ name, color }, { plain }) => {
     const mutation = `
       mutation CreateTier($input: CreateTierInput!) {
         createTier(input: $input) {
@@ -2427,7 +3746,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2439,32 +3760,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createTier?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createTier.error.message}` }], isError: true };
+      return errorResult(data.createTier.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createTier?.tier, null, 2) }] };
+    return jsonResult(data?.createTier?.tier);
   }
 );
 
 // Tool: delete_tier
-server.tool(
+tool(
   "delete_tier",
   "Delete a support tier",
   {
     tier_id: z.string().describe("The tier ID to delete"),
   },
-  async ({ tier_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ tier_id }, { plain }) => {
     const mutation = `
       mutation DeleteTier($input: DeleteTierInput!) {
         deleteTier(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2476,33 +3801,56 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteTier?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteTier.error.message}` }], isError: true };
+      return errorResult(data.deleteTier.error);
     }
 
-    return { content: [{ type: "text", text: `Tier ${tier_id} deleted successfully` }] };
+    return confirmationResult(`Tier ${tier_id} deleted successfully`);
   }
 );
 
+// Preview: delete_tier
+preview("delete_tier", ({ tier_id }, { plain }) =>
+  previewLookup(
+    plain,
+    `
+      query TierPreview($tierId: ID!) {
+        tier(tierId: $tierId) {
+          id
+          name
+        }
+      }
+    `,
+    { tierId: tier_id },
+    "tier",
+    "Tier not found"
+  )
+);
+
 // =============================================================================
 // CUSTOMER GROUP TOOLS
 // =============================================================================
 
+toolset("customers");
+
 // Tool: list_customer_groups
-server.tool(
+tool(
   "list_customer_groups",
   "List all customer groups",
   {
-    limit: z.number().min(1).max(100).optional().default(50).describe("Number of groups to return"),
+    limit: z.number().min(1).max(100).optional().default(50).describe("Number of groups to return per page"),
+    ...paginationArgs,
   },
-  async ({ limit }) => {
+  pageSchema("customerGroups", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query CustomerGroups($first: Int) {
-        customerGroups(first: $first) {
+      query CustomerGroups($first: Int, $after: String) {
+        customerGroups(first: $first, after: $after) {
           edges {
             node {
               id
@@ -2512,25 +3860,27 @@ server.tool(
               createdAt { iso8601 }
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: { first: limit } });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.customerGroups);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const groups = data?.customerGroups?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(groups, null, 2) }] };
+    return pageResult("customerGroups", page.data.items, page.data);
   }
 );
 
 // Tool: create_customer_group
-server.tool(
+tool(
   "create_customer_group",
   "Create a new customer group",
   {
@@ -2538,7 +3888,8 @@ server.tool(
     key: z.string().describe("Unique group key"),
     color: z.string().optional().describe("Group color (hex code)"),
   },
-  async ({ name, key, color }) => {
+  entitySchema,
+  async ({ name, key, color }, { plain }) => {
     const mutation = `
       mutation CreateCustomerGroup($input: CreateCustomerGroupInput!) {
         createCustomerGroup(input: $input) {
@@ -2550,7 +3901,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2562,33 +3915,36 @@ server.tool(
     const result = await plain.rawRequest({ query: mutation, variables: { input } });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.createCustomerGroup?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.createCustomerGroup.error.message}` }], isError: true };
+      return errorResult(data.createCustomerGroup.error);
     }
 
-    return { content: [{ type: "text", text: JSON.stringify(data?.createCustomerGroup?.customerGroup, null, 2) }] };
+    return jsonResult(data?.createCustomerGroup?.customerGroup);
   }
 );
 
 // Tool: add_customer_to_groups
-server.tool(
+tool(
   "add_customer_to_groups",
   "Add a customer to one or more groups",
   {
     customer_id: z.string().describe("The customer ID"),
     group_ids: z.array(z.string()).describe("Customer group IDs to add customer to"),
   },
-  async ({ customer_id, group_ids }) => {
+  confirmationSchema,
+  async ({ customer_id, group_ids }, { plain }) => {
     const mutation = `
       mutation AddCustomerToCustomerGroups($input: AddCustomerToCustomerGroupsInput!) {
         addCustomerToCustomerGroups(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2600,33 +3956,36 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.addCustomerToCustomerGroups?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.addCustomerToCustomerGroups.error.message}` }], isError: true };
+      return errorResult(data.addCustomerToCustomerGroups.error);
     }
 
-    return { content: [{ type: "text", text: `Customer added to ${group_ids.length} group(s)` }] };
+    return confirmationResult(`Customer added to ${group_ids.length} group(s)`);
   }
 );
 
 // Tool: remove_customer_from_groups
-server.tool(
+tool(
   "remove_customer_from_groups",
   "Remove a customer from one or more groups",
   {
     customer_id: z.string().describe("The customer ID"),
     group_ids: z.array(z.string()).describe("Customer group IDs to remove customer from"),
   },
-  async ({ customer_id, group_ids }) => {
+  confirmationSchema,
+  async ({ customer_id, group_ids }, { plain }) => {
     const mutation = `
       mutation RemoveCustomerFromCustomerGroups($input: RemoveCustomerFromCustomerGroupsInput!) {
         removeCustomerFromCustomerGroups(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2638,15 +3997,15 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.removeCustomerFromCustomerGroups?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.removeCustomerFromCustomerGroups.error.message}` }], isError: true };
+      return errorResult(data.removeCustomerFromCustomerGroups.error);
     }
 
-    return { content: [{ type: "text", text: `Customer removed from ${group_ids.length} group(s)` }] };
+    return confirmationResult(`Customer removed from ${group_ids.length} group(s)`);
   }
 );
 
@@ -2654,15 +4013,22 @@ server.tool(
 // THREAD FIELD TOOLS
 // =============================================================================
 
+toolset("thread_fields", "Custom thread field schemas and values");
+
 // Tool: list_thread_field_schemas
-server.tool(
+tool(
   "list_thread_field_schemas",
   "List all custom thread field schemas",
-  {},
-  async () => {
+  {
+    limit: z.number().min(1).max(100).optional().default(100).describe("Number of thread field schemas to return per page"),
+    ...paginationArgs,
+  },
+  pageSchema("threadFieldSchemas", entitySchema),
+  { readOnlyHint: true },
+  async ({ limit, after, fetch_all }, { plain }) => {
     const query = `
-      query ThreadFieldSchemas {
-        threadFieldSchemas(first: 100) {
+      query ThreadFieldSchemas($first: Int, $after: String) {
+        threadFieldSchemas(first: $first, after: $after) {
           edges {
             node {
               id
@@ -2672,25 +4038,27 @@ server.tool(
               isRequired
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
       }
     `;
 
-    const result = await plain.rawRequest({ query, variables: {} });
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.threadFieldSchemas);
+    }, { after, fetch_all });
 
-    if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    const data = result.data as any;
-    const schemas = data?.threadFieldSchemas?.edges?.map((e: any) => e.node) || [];
-
-    return { content: [{ type: "text", text: JSON.stringify(schemas, null, 2) }] };
+    return pageResult("threadFieldSchemas", page.data.items, page.data);
   }
 );
 
 // Tool: upsert_thread_field
-server.tool(
+tool(
   "upsert_thread_field",
   "Set a custom field value on a thread",
   {
@@ -2698,7 +4066,8 @@ server.tool(
     key: z.string().describe("Field key (must match a thread field schema key)"),
     value: z.string().describe("Field value"),
   },
-  async ({ thread_id, key, value }) => {
+  confirmationSchema,
+  async ({ thread_id, key, value }, { plain }) => {
     const mutation = `
       mutation UpsertThreadField($input: UpsertThreadFieldInput!) {
         upsertThreadField(input: $input) {
@@ -2708,7 +4077,9 @@ server.tool(
           }
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2720,15 +4091,15 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.upsertThreadField?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.upsertThreadField.error.message}` }], isError: true };
+      return errorResult(data.upsertThreadField.error);
     }
 
-    return { content: [{ type: "text", text: `Thread field '${key}' set to '${value}'` }] };
+    return confirmationResult(`Thread field '${key}' set to '${value}'`);
   }
 );
 
@@ -2736,20 +4107,26 @@ server.tool(
 // DELETE NOTE TOOL
 // =============================================================================
 
+toolset("threads");
+
 // Tool: delete_note
-server.tool(
+tool(
   "delete_note",
   "Delete an internal note from a thread",
   {
     note_id: z.string().describe("The note ID to delete"),
   },
-  async ({ note_id }) => {
+  confirmationSchema,
+  { destructiveHint: true },
+  async ({ note_id }, { plain }) => {
     const mutation = `
       mutation DeleteNote($input: DeleteNoteInput!) {
         deleteNote(input: $input) {
           error {
             message
+            type
             code
+            fields { field message type }
           }
         }
       }
@@ -2761,15 +4138,65 @@ server.tool(
     });
 
     if (result.error) {
-      return { content: [{ type: "text", text: `Error: ${result.error.message}` }], isError: true };
+      return errorResult(result.error);
     }
 
     const data = result.data as any;
     if (data?.deleteNote?.error) {
-      return { content: [{ type: "text", text: `Error: ${data.deleteNote.error.message}` }], isError: true };
+      return errorResult(data.deleteNote.error);
+    }
+
+    return confirmationResult(`Note ${note_id} deleted successfully`);
+  }
+);
+
+// Preview: delete_note
+// Plain has no query for a single note, so the preview can only echo the ID
+preview("delete_note", async ({ note_id }) => ({
+  data: { noteId: note_id, details: "Notes can't be looked up by ID; check the thread timeline before deleting" },
+}));
+
+// =============================================================================
+// AUDIT LOG TOOLS
+// =============================================================================
+
+toolset("audit", "The local audit log of mutating tool calls");
+
+// Mirrors AuditRecord
+const auditRecordSchema = z.object({
+  timestamp: z.string(),
+  tool: z.string(),
+  workspace: z.string(),
+  args: z.record(z.string(), z.unknown()),
+  outcome: z.enum(["success", "error"]),
+  error: z.string().optional(),
+  returnedIds: z.array(z.string()),
+});
+
+// Tool: get_audit_log
+tool(
+  "get_audit_log",
+  "Query the local audit log of mutating tool calls made through this server in the selected workspace (newest first)",
+  {
+    tool: z.string().optional().describe("Only calls to this tool, e.g. delete_thread"),
+    entity_id: z.string().optional().describe("Only calls that took or returned this ID, e.g. a thread or customer ID"),
+    since: z.string().datetime({ offset: true }).optional().describe("Only calls at or after this ISO 8601 time"),
+    until: z.string().datetime({ offset: true }).optional().describe("Only calls at or before this ISO 8601 time"),
+    limit: z.number().min(1).max(500).optional().default(50).describe("Maximum number of records to return"),
+  },
+  z.object({ records: z.array(auditRecordSchema) }),
+  { readOnlyHint: true },
+  async ({ tool, entity_id, since, until, limit }, { auditLog, workspace }) => {
+    if (!auditLog) {
+      return errorResult({
+        message: "Audit logging is disabled. Set PLAIN_AUDIT_LOG to a file path to enable it.",
+        code: "not_configured",
+      });
     }
 
-    return { content: [{ type: "text", text: `Note ${note_id} deleted successfully` }] };
+    const records = await auditLog.query({ tool, workspace, entityId: entity_id, since, until, limit });
+
+    return jsonResult({ records });
   }
 );
 
@@ -2777,10 +4204,44 @@ server.tool(
 // ORIGINAL THREAD TOOLS (from v1)
 // =============================================================================
 
+toolset("threads");
+
+// Status arguments as Plain's thread statuses
+const THREAD_STATUSES = {
+  todo: ThreadStatus.Todo,
+  snoozed: ThreadStatus.Snoozed,
+  done: ThreadStatus.Done,
+};
+
+// Customer name and email come back with each thread, so listing needs no per-thread lookups
+const LIST_THREADS_QUERY = `
+  query ListThreads($filters: ThreadsFilter, $first: Int, $after: String) {
+    threads(filters: $filters, first: $first, after: $after) {
+      edges {
+        node { ${THREAD_FIELDS} }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+// Threads matching `filters`, selected with THREAD_FIELDS, a page or fetch_all at a time
+function fetchThreadPages(
+  plain: PlainClient,
+  filters: Record<string, unknown>,
+  { limit, after, fetch_all }: { limit: number; after?: string; fetch_all?: boolean }
+): Promise<Result<Page<any>>> {
+  return fetchPages(async (cursor) => {
+    const result = await plain.rawRequest({ query: LIST_THREADS_QUERY, variables: { filters, first: limit, after: cursor } });
+    if (result.error) return { error: result.error };
+    return connectionPage((result.data as any)?.threads);
+  }, { after, fetch_all });
+}
+
 // Tool: list_threads
-server.tool(
+tool(
   "list_threads",
-  "List support threads with optional filters. Note: statusDetail (CREATED, NEW_REPLY, etc.) is not available in list results - use get_thread for that.",
+  "List support threads with optional filters",
   {
     status: z
       .enum(["todo", "snoozed", "done"])
@@ -2793,7 +4254,7 @@ server.tool(
       .max(100)
       .optional()
       .default(25)
-      .describe("Number of threads to return"),
+      .describe("Number of threads to return per page"),
     priorities: z
       .array(z.number().min(0).max(3))
       .optional()
@@ -2806,363 +4267,632 @@ server.tool(
       .array(z.string())
       .optional()
       .describe("Filter by assigned user IDs"),
+    ...paginationArgs,
   },
-  async ({ status, limit, priorities, is_assigned, assigned_to_user }) => {
-    const statusMap: Record<string, ThreadStatus> = {
-      todo: ThreadStatus.Todo,
-      snoozed: ThreadStatus.Snoozed,
-      done: ThreadStatus.Done,
+  pageSchema("threads", threadSchema),
+  { readOnlyHint: true },
+  async ({ status, limit, priorities, is_assigned, assigned_to_user, after, fetch_all }, { plain, customers }) => {
+    const filters = {
+      statuses: [THREAD_STATUSES[status]],
+      ...(priorities && { priorities }),
+      ...(is_assigned !== undefined && { isAssigned: is_assigned }),
+      ...(assigned_to_user && { assignedToUser: assigned_to_user }),
     };
+    const page = await fetchThreadPages(plain, filters, { limit, after, fetch_all });
 
-    const threadStatus = statusMap[status] ?? ThreadStatus.Todo;
-    const result = await plain.getThreads({
-      filters: {
-        statuses: [threadStatus],
-        ...(priorities && { priorities }),
-        ...(is_assigned !== undefined && { isAssigned: is_assigned }),
-        ...(assigned_to_user && { assignedToUser: assigned_to_user }),
-      },
-      first: limit,
-    });
+    if (page.error) {
+      return errorResult(page.error);
+    }
+
+    const threadCustomers = page.data.items.filter((thread: any) => thread.customer?.id).map((thread: any) => customerSummary(thread.customer));
+    customers.remember(threadCustomers);
+
+    return pageResult("threads", page.data.items.map((thread) => toThread(thread)), page.data);
+  }
+);
+
+// Timeline entries fetched per request while walking a thread's history
+const TIMELINE_PAGE_SIZE = 100;
+
+const DEFAULT_TIMELINE_ENTRIES = 200;
 
+const THREAD_TIMELINE_QUERY = `
+  query ThreadTimeline($threadId: ID!, $last: Int, $before: String) {
+    thread(threadId: $threadId) {
+      timelineEntries(last: $last, before: $before) {
+        edges {
+          node {
+            ${TIMELINE_ENTRY_FIELDS}
+          }
+        }
+        pageInfo { hasPreviousPage startCursor }
+      }
+    }
+  }
+`;
+
+// Walk a thread's timeline back from the newest entry until its start, `since` or maxEntries matching entries
+async function fetchThreadTimeline(
+  plain: PlainClient,
+  threadId: string,
+  { since, entryTypes, maxEntries }: { since?: string; entryTypes?: string[]; maxEntries: number }
+): Promise<Result<{ entries: TimelineEntry[]; truncated: boolean }>> {
+  const sinceTime = since ? Date.parse(since) : undefined;
+  // Newest first until the end, then reversed into conversation order
+  const entries: TimelineEntry[] = [];
+  const done = (truncated: boolean) => ({ data: { entries: entries.reverse(), truncated } });
+  let before: string | undefined;
+
+  while (true) {
+    const result = await plain.rawRequest({
+      query: THREAD_TIMELINE_QUERY,
+      variables: { threadId, last: TIMELINE_PAGE_SIZE, before },
+    });
     if (result.error) {
-      return {
-        content: [{ type: "text", text: `Error: ${result.error.message}` }],
-        isError: true,
-      };
+      return { error: result.error };
     }
 
-    // Fetch customer details for each thread (thread only contains customer ID)
-    const threads = await Promise.all(
-      result.data.threads.map(async (thread: any) => {
-        let customerName = "Unknown";
-        if (thread.customer?.id) {
-          const customerResult = await plain.getCustomerById({
-            customerId: thread.customer.id,
-          });
-          if (!customerResult.error && customerResult.data) {
-            customerName =
-              customerResult.data.fullName ||
-              customerResult.data.email?.email ||
-              "Unknown";
-          }
-        }
-        return {
-          id: thread.id,
-          title: thread.title || "(no title)",
-          status: thread.status,
-          priority: thread.priority,
-          customer: customerName,
-          labels: thread.labels?.map((l: any) => l.labelType?.name).filter(Boolean) || [],
-          assignee: thread.assignedToUser
-            ? { id: thread.assignedToUser.id, name: thread.assignedToUser.fullName }
-            : null,
-          createdAt: thread.createdAt.iso8601,
-          updatedAt: thread.updatedAt.iso8601,
-        };
-      })
-    );
+    const page = connectionPage((result.data as any)?.thread?.timelineEntries);
+    for (const node of page.items.reverse()) {
+      if (sinceTime !== undefined && Date.parse(node.timestamp.iso8601) < sinceTime) {
+        return done(false);
+      }
+      const entry = toTimelineEntry(node);
+      if (entryTypes && !entryTypes.includes(entry.type)) continue;
+      if (entries.length === maxEntries) {
+        return done(true);
+      }
+      entries.push(entry);
+    }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(threads, null, 2),
-        },
-      ],
-    };
+    if (!page.pageInfo?.hasPreviousPage || !page.pageInfo.startCursor) {
+      return done(false);
+    }
+    before = page.pageInfo.startCursor;
   }
-);
+}
 
 // Tool: get_thread
-server.tool(
+tool(
   "get_thread",
   "Get detailed thread information including conversation timeline",
   {
     thread_id: z.string().describe("The thread ID to fetch"),
+    since: z.string().datetime({ offset: true }).optional().describe("Only timeline entries at or after this ISO 8601 time"),
+    entry_types: z
+      .array(z.string())
+      .optional()
+      .describe('Only these timeline entry types, e.g. ["EmailEntry", "ChatEntry"]'),
+    max_entries: z
+      .number()
+      .min(1)
+      .max(FETCH_ALL_MAX_ITEMS)
+      .optional()
+      .default(DEFAULT_TIMELINE_ENTRIES)
+      .describe("Maximum number of timeline entries to return. The most recent are kept and timelineTruncated is set"),
   },
-  async ({ thread_id }) => {
+  threadDetailSchema,
+  { readOnlyHint: true },
+  async ({ thread_id, since, entry_types, max_entries }, { plain, customers }) => {
     // Fetch thread details using getThread (not getThreadById)
     const threadResult = await plain.getThread({ threadId: thread_id });
 
     if (threadResult.error) {
-      return {
-        content: [{ type: "text", text: `Error: ${threadResult.error.message}` }],
-        isError: true,
-      };
+      return errorResult(threadResult.error);
     }
 
     if (!threadResult.data) {
-      return {
-        content: [{ type: "text", text: "Thread not found" }],
-        isError: true,
-      };
+      return errorResult({ message: "Thread not found", code: "not_found" });
     }
 
     const thread = threadResult.data as any;
     const customerId = thread.customer?.id;
 
-    // Fetch full customer details separately (thread only contains customer ID)
-    let customerDetails: { id: string; name?: string; email?: string } = {
-      id: customerId,
-    };
+    // The thread only carries the customer ID; name and email usually come from the cache
+    let customerDetails: CustomerSummary | undefined;
     if (customerId) {
-      const customerResult = await plain.getCustomerById({ customerId });
-      if (!customerResult.error && customerResult.data) {
-        customerDetails = {
-          id: customerId,
-          name: customerResult.data.fullName,
-          email: customerResult.data.email?.email,
-        };
-      }
+      const customerResult = await customers.get([customerId]);
+      customerDetails = customerResult.data?.get(customerId);
     }
 
-    // Fetch timeline entries using rawRequest
-    let timelineEntries: any[] = [];
-    if (customerId) {
-      const timelineQuery = `
-        query TimelineEntries($customerId: ID!, $first: Int) {
-          timelineEntries(customerId: $customerId, first: $first) {
-            edges {
-              node {
-                id
-                timestamp { iso8601 }
-                actor {
-                  ... on UserActor {
-                    __typename
-                    user { fullName email }
-                  }
-                  ... on CustomerActor {
-                    __typename
-                    customer { fullName email { email } }
-                  }
-                  ... on SystemActor {
-                    __typename
-                  }
-                  ... on MachineUserActor {
-                    __typename
-                    machineUser { fullName }
-                  }
-                }
-                entry {
-                  ... on ChatEntry {
-                    __typename
-                    chatId
-                    chatText: text
-                  }
-                  ... on EmailEntry {
-                    __typename
-                    emailId
-                    subject
-                    textContent
-                    from { email name }
-                    to { email name }
-                  }
-                  ... on NoteEntry {
-                    __typename
-                    noteId
-                    noteText: text
-                  }
-                  ... on CustomEntry {
-                    __typename
-                    title
-                    components {
-                      ... on ComponentText {
-                        __typename
-                        componentText: text
-                      }
-                    }
-                  }
-                }
-                threadId
-              }
+    const timeline = await fetchThreadTimeline(plain, thread_id, { since, entryTypes: entry_types, maxEntries: max_entries });
+    if (timeline.error) {
+      return errorResult(timeline.error);
+    }
+
+    return jsonResult({
+      ...toThread(thread, customerDetails),
+      timeline: timeline.data.entries,
+      timelineTruncated: timeline.data.truncated,
+    });
+  }
+);
+
+// Newest timeline entries read per hit when looking for the snippet
+const SEARCH_SNIPPET_ENTRIES = 20;
+
+// Characters of context kept either side of the match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+const threadSearchHitSchema = threadSchema.extend({
+  // The newest timeline entry that mentions the search term; null when only the title or an older entry did
+  match: z
+    .object({ entryId: z.string(), timestamp: z.string(), actor: z.string(), type: z.string(), snippet: z.string() })
+    .nullable(),
+});
+
+// The text around the first occurrence of `term`, or of any of its words, with ellipses where it was cut
+function snippetOf(content: string, term: string): string | null {
+  const text = content.replace(/\s+/g, " ");
+  const lower = text.toLowerCase();
+  const words = term.toLowerCase().split(/\s+/).filter((word) => word.length >= 2);
+  const needle = [term.toLowerCase(), ...words].find((candidate) => candidate && lower.includes(candidate));
+  if (!needle) return null;
+
+  const index = lower.indexOf(needle);
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + needle.length + SNIPPET_CONTEXT);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+// The newest SEARCH_SNIPPET_ENTRIES timeline entries of each thread, newest first, in one aliased query
+async function recentTimelines(plain: PlainClient, threadIds: string[]): Promise<Result<Map<string, TimelineEntry[]>>> {
+  const timelines = new Map<string, TimelineEntry[]>();
+  if (threadIds.length === 0) return { data: timelines };
+
+  const variables = threadIds.map((_, i) => `$t${i}: ID!`).join(", ");
+  const fields = threadIds.map(
+    (_, i) => `t${i}: thread(threadId: $t${i}) { timelineEntries(last: $last) { edges { node { ${TIMELINE_ENTRY_FIELDS} } } } }`
+  );
+  const result = await plain.rawRequest({
+    query: `query SearchHitTimelines($last: Int, ${variables}) {\n  ${fields.join("\n  ")}\n}`,
+    variables: { last: SEARCH_SNIPPET_ENTRIES, ...Object.fromEntries(threadIds.map((id, i) => [`t${i}`, id])) },
+  });
+  if (result.error) return { error: result.error };
+
+  threadIds.forEach((id, i) => {
+    const nodes = connectionPage((result.data as any)?.[`t${i}`]?.timelineEntries).items;
+    timelines.set(id, nodes.map(toTimelineEntry).reverse());
+  });
+  return { data: timelines };
+}
+
+// Tool: search_threads
+tool(
+  "search_threads",
+  `Search threads by free text across titles and conversations, e.g. an invoice number or error message. Each hit includes a snippet from the newest of its last ${SEARCH_SNIPPET_ENTRIES} timeline entries that mentions the term, or match: null when only the title or an older entry does`,
+  {
+    term: z.string().min(2).describe("Text to search for (at least 2 characters)"),
+    statuses: z
+      .array(z.enum(["todo", "snoozed", "done"]))
+      .optional()
+      .describe("Only threads with these statuses (default: any)"),
+    priorities: z
+      .array(z.number().min(0).max(3))
+      .optional()
+      .describe("Filter by priority levels (0=urgent, 1=high, 2=normal, 3=low)"),
+    label_type_ids: z.array(z.string()).optional().describe("Only threads with any of these labels"),
+    is_assigned: z
+      .boolean()
+      .optional()
+      .describe("Filter by assignment status (true=assigned, false=unassigned)"),
+    assigned_to_user: z
+      .array(z.string())
+      .optional()
+      .describe("Filter by assigned user IDs"),
+    limit: z
+      .number()
+      .min(1)
+      .max(25)
+      .optional()
+      .default(10)
+      .describe("Number of hits to return per page"),
+    after: paginationArgs.after,
+  },
+  pageSchema("threads", threadSearchHitSchema),
+  { readOnlyHint: true },
+  async ({ term, statuses, priorities, label_type_ids, is_assigned, assigned_to_user, limit, after }, { plain, customers }) => {
+    const query = `
+      query SearchThreads($searchQuery: ThreadsSearchQuery!, $filters: ThreadsFilter, $first: Int, $after: String) {
+        searchThreads(searchQuery: $searchQuery, filters: $filters, first: $first, after: $after) {
+          edges {
+            node {
+              thread { ${THREAD_FIELDS} }
             }
           }
+          pageInfo { hasNextPage endCursor }
         }
-      `;
-
-      const timelineResult = await plain.rawRequest({
-        query: timelineQuery,
-        variables: { customerId, first: 50 },
-      });
-
-      if (timelineResult.error) {
-        console.error("Timeline query error:", timelineResult.error);
       }
-      const data = timelineResult.data as any;
-      if (!data?.timelineEntries?.edges) {
-        console.error("No timeline edges found. Response data:", JSON.stringify(data, null, 2));
-      }
-      if (data?.timelineEntries?.edges) {
-        // Filter to only entries for this thread
-        timelineEntries = data.timelineEntries.edges
-          .map((edge: any) => edge.node)
-          .filter((entry: any) => entry.threadId === thread_id)
-          .map((entry: any) => {
-            const actorName = getActorName(entry.actor);
-            const content = getEntryContent(entry.entry);
-            return {
-              id: entry.id,
-              timestamp: entry.timestamp?.iso8601,
-              actor: actorName,
-              type: entry.entry?.__typename || "Unknown",
-              content,
-            };
-          });
-      }
-    }
+    `;
 
-    const response = {
-      id: thread.id,
-      title: thread.title || "(no title)",
-      description: thread.description,
-      status: thread.status,
-      priority: thread.priority,
-      customer: customerDetails,
-      assignee: thread.assignee ? {
-        id: thread.assignee.id,
-        name: thread.assignee.fullName,
-      } : null,
-      labels: thread.labels?.map((l: any) => l.labelType.name) || [],
-      createdAt: thread.createdAt.iso8601,
-      updatedAt: thread.updatedAt.iso8601,
-      timeline: timelineEntries,
+    const filters = {
+      ...(statuses && { statuses: statuses.map((status) => THREAD_STATUSES[status]) }),
+      ...(priorities && { priorities }),
+      ...(label_type_ids && { labelTypeIds: label_type_ids }),
+      ...(is_assigned !== undefined && { isAssigned: is_assigned }),
+      ...(assigned_to_user && { assignedToUser: assigned_to_user }),
     };
+    const page = await fetchPages(async (cursor) => {
+      const result = await plain.rawRequest({ query, variables: { searchQuery: { term }, filters, first: limit, after: cursor } });
+      if (result.error) return { error: result.error };
+      return connectionPage((result.data as any)?.searchThreads);
+    }, { after });
+
+    if (page.error) {
+      return errorResult(page.error);
+    }
+
+    const threads = page.data.items.map((hit: any) => hit.thread).filter(Boolean);
+    customers.remember(threads.filter((thread: any) => thread.customer?.id).map((thread: any) => customerSummary(thread.customer)));
+
+    // Search results don't say where the term matched, so look through each hit's recent timeline
+    const timelines = await recentTimelines(plain, threads.map((thread: any) => thread.id));
+    const hits = threads.map((thread: any) => {
+      // A hit is still worth returning without its snippet, so a failed lookup leaves match null
+      for (const entry of timelines.data?.get(thread.id) ?? []) {
+        const snippet = snippetOf(entry.content, term);
+        if (snippet) {
+          return {
+            ...toThread(thread),
+            match: { entryId: entry.id, timestamp: entry.timestamp, actor: entry.actor, type: entry.type, snippet },
+          };
+        }
+      }
+      return { ...toThread(thread), match: null };
+    });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return pageResult("threads", hits, page.data);
   }
 );
 
-// Helper function to extract actor name
-function getActorName(actor: any): string {
-  if (!actor) return "Unknown";
-  switch (actor.__typename) {
-    case "UserActor":
-      return actor.user?.fullName || actor.user?.email || "Support Agent";
-    case "CustomerActor":
-      return actor.customer?.fullName || actor.customer?.email?.email || "Customer";
-    case "SystemActor":
-      return `System (${actor.systemActorType || "auto"})`;
-    case "MachineUserActor":
-      return actor.machineUser?.fullName || "Bot";
-    default:
-      return "Unknown";
-  }
+toolset("customers");
+
+const customerMatchSchema = customerSchema.extend({ openThreadCount: z.number() });
+
+// How closely a customer matches a search term; lower ranks first
+function matchRank(customer: Customer, term: string): number {
+  const t = term.toLowerCase();
+  const email = customer.email?.toLowerCase() ?? "";
+  const name = customer.fullName.toLowerCase();
+  if (email === t || customer.externalId?.toLowerCase() === t) return 0;
+  if (name === t || customer.shortName?.toLowerCase() === t) return 1;
+  if (email.startsWith(t) || name.split(/\s+/).some((word) => word.startsWith(t))) return 2;
+  // A domain such as "example.com" or "@example.com"
+  if (email.endsWith(t.startsWith("@") ? t : `@${t}`)) return 3;
+  return 4;
 }
 
-// Helper function to extract entry content
-function getEntryContent(entry: any): string {
-  if (!entry) return "";
-  switch (entry.__typename) {
-    case "ChatEntry":
-      return entry.chatText || "";
-    case "EmailEntry":
-      return entry.textContent || entry.subject || "";
-    case "NoteEntry":
-      return entry.noteText || "";
-    case "CustomEntry":
-      if (entry.components?.length > 0) {
-        return entry.components
-          .filter((c: any) => c.__typename === "ComponentText")
-          .map((c: any) => c.componentText)
-          .join("\n");
-      }
-      return entry.title || "";
-    default:
-      return "";
-  }
+// Whether `company` (an ID, or a domain name when it has a dot) is the customer's company
+function companyMatches(customer: any, company: string): boolean {
+  return company.includes(".") ? customer.company?.domainName === company : customer.company?.id === company;
+}
+
+// Open (todo and snoozed) thread counts per customer, in one aliased query
+async function openThreadCounts(plain: PlainClient, customerIds: string[]): Promise<Result<Map<string, number>>> {
+  const counts = new Map<string, number>();
+  if (customerIds.length === 0) return { data: counts };
+
+  const variables = customerIds.map((_, i) => `$c${i}: ThreadsFilter`).join(", ");
+  const fields = customerIds.map((_, i) => `c${i}: threads(filters: $c${i}, first: 1) { totalCount }`);
+  const result = await plain.rawRequest({
+    query: `query CustomerOpenThreads(${variables}) {\n  ${fields.join("\n  ")}\n}`,
+    variables: Object.fromEntries(
+      customerIds.map((id, i) => [`c${i}`, { customerIds: [id], statuses: [ThreadStatus.Todo, ThreadStatus.Snoozed] }])
+    ),
+  });
+  if (result.error) return { error: result.error };
+
+  customerIds.forEach((id, i) => counts.set(id, (result.data as any)?.[`c${i}`]?.totalCount ?? 0));
+  return { data: counts };
 }
 
 // Tool: search_customers
-server.tool(
+tool(
   "search_customers",
-  "Search for customers by email",
+  "Search customers by name, partial email or email domain, by exact email or external ID, or by company. Matches include each customer's open thread count and are ranked closest first within each page, so a closer match can still be on a later page",
   {
-    email: z.string().describe("Email address to search for"),
+    query: z
+      .string()
+      .min(2)
+      .optional()
+      .describe('Free text matched against names, emails and external IDs, e.g. "jane", "jane@" or "example.com"'),
+    email: z.string().optional().describe("Exact email address"),
+    external_id: z.string().optional().describe("Exact external ID from your own systems"),
+    company: z
+      .string()
+      .optional()
+      .describe(
+        'Company ID, or company domain name such as "example.com". Combined with query, it filters each page after fetching, so pages can be short or empty while has_more is true'
+      ),
+    limit: z
+      .number()
+      .min(1)
+      .max(100)
+      .optional()
+      .default(25)
+      .describe("Number of customers to return per page"),
+    after: paginationArgs.after,
   },
-  async ({ email }) => {
-    const result = await plain.getCustomerByEmail({ email });
+  pageSchema("customers", customerMatchSchema),
+  { readOnlyHint: true },
+  async ({ query, email, external_id, company, limit, after }, { plain }) => {
+    const lookups = [query, email, external_id].filter((value) => value !== undefined);
+    if (lookups.length === 0 && !company) {
+      return errorResult({ message: "Pass query, email, external_id or company", code: "invalid_argument" });
+    }
+    if (lookups.length > 1) {
+      return errorResult({ message: "Pass only one of query, email and external_id", code: "invalid_argument" });
+    }
+
+    let page: Result<Page<any>>;
+    if (email !== undefined || external_id !== undefined) {
+      const result = email !== undefined
+        ? await plain.getCustomerByEmail({ email })
+        : await plain.getCustomerByExternalId({ externalId: external_id! });
+      if (result.error) {
+        return errorResult(result.error);
+      }
+      // No match is an empty list rather than an error
+      page = { data: { items: result.data ? [result.data] : [], next_cursor: null, has_more: false } };
+    } else if (query !== undefined) {
+      const search = `
+        query SearchCustomers($searchQuery: CustomersSearchQuery!, $first: Int, $after: String) {
+          searchCustomers(searchQuery: $searchQuery, first: $first, after: $after) {
+            edges {
+              node {
+                customer { ${CUSTOMER_FIELDS} }
+              }
+            }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      `;
+      page = await fetchPages(async (cursor) => {
+        const result = await plain.rawRequest({ query: search, variables: { searchQuery: { term: query }, first: limit, after: cursor } });
+        if (result.error) return { error: result.error };
+        const found = connectionPage((result.data as any)?.searchCustomers);
+        return { items: found.items.map((hit: any) => hit.customer).filter(Boolean), pageInfo: found.pageInfo };
+      }, { after });
+    } else {
+      const list = `
+        query CompanyCustomers($filters: CustomersFilter, $first: Int, $after: String) {
+          customers(filters: $filters, first: $first, after: $after) {
+            edges {
+              node { ${CUSTOMER_FIELDS} }
+            }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      `;
+      const identifier = company!.includes(".") ? { companyDomainName: company } : { companyId: company };
+      page = await fetchPages(async (cursor) => {
+        const result = await plain.rawRequest({ query: list, variables: { filters: { companyIdentifiers: [identifier] }, first: limit, after: cursor } });
+        if (result.error) return { error: result.error };
+        return connectionPage((result.data as any)?.customers);
+      }, { after });
+    }
 
-    if (result.error) {
-      return {
-        content: [{ type: "text", text: `Error: ${result.error.message}` }],
-        isError: true,
-      };
+    if (page.error) {
+      return errorResult(page.error);
     }
 
-    if (!result.data) {
-      return {
-        content: [{ type: "text", text: "No customer found with that email" }],
-      };
+    // Plain's search can't filter by company, so narrow the page here
+    const matches = page.data.items.filter((customer) => !company || lookups.length === 0 || companyMatches(customer, company));
+    const counts = await openThreadCounts(plain, matches.map((customer) => customer.id));
+    if (counts.error) {
+      return errorResult(counts.error);
     }
 
-    const customer = result.data;
-    const response = {
-      id: customer.id,
-      fullName: customer.fullName,
-      shortName: customer.shortName,
-      email: customer.email?.email,
-      externalId: customer.externalId,
-      createdAt: customer.createdAt.iso8601,
-      updatedAt: customer.updatedAt.iso8601,
-    };
+    const customers = matches.map((customer) => ({ ...toCustomer(customer), openThreadCount: counts.data.get(customer.id) ?? 0 }));
+    if (query) {
+      customers.sort((a, b) => matchRank(a, query) - matchRank(b, query));
+    }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return pageResult("customers", customers, page.data);
   }
 );
 
+toolset("threads");
+
+// Open threads read per page, and in total, for the assignee, label and tier breakdowns
+const QUEUE_STATS_PAGE_SIZE = 100;
+const QUEUE_STATS_MAX_THREADS = 500;
+
+const PRIORITY_LEVELS = [0, 1, 2, 3];
+
+// Status details an open thread can have, by status
+const OPEN_STATUS_DETAILS: [ThreadStatus, string[]][] = [
+  [ThreadStatus.Todo, Object.values(TodoStatusDetail)],
+  [ThreadStatus.Snoozed, Object.values(SnoozeStatusDetail)],
+];
+
+// One query for every bucket with a server-side filter: totals, open threads by priority and by
+// status detail, and the todo thread whose status changed longest ago
+function queueCountsQuery(details: [ThreadStatus, string][]): string {
+  const fields = [
+    "todo: threads(filters: $todo, first: 1) { totalCount }",
+    "snoozed: threads(filters: $snoozed, first: 1) { totalCount }",
+    "done: threads(filters: $done, first: 1) { totalCount }",
+    ...PRIORITY_LEVELS.map((level) => `p${level}: threads(filters: $p${level}, first: 1) { totalCount }`),
+    ...details.map((_, i) => `d${i}: threads(filters: $d${i}, first: 1) { totalCount }`),
+    "oldest: threads(filters: $todo, sortBy: $oldestFirst, first: 1) { edges { node { id title statusChangedAt { iso8601 } } } }",
+  ];
+  const variables = ["$todo", "$snoozed", "$done", ...PRIORITY_LEVELS.map((level) => `$p${level}`), ...details.map((_, i) => `$d${i}`)];
+  return `query QueueCounts(${variables.map((name) => `${name}: ThreadsFilter`).join(", ")}, $oldestFirst: ThreadsSort) {\n  ${fields.join("\n  ")}\n}`;
+}
+
+const QUEUE_THREADS_QUERY = `
+  query QueueThreads($filters: ThreadsFilter, $first: Int, $after: String) {
+    threads(filters: $filters, first: $first, after: $after) {
+      edges {
+        node {
+          id
+          assignedTo {
+            ... on User { __typename id fullName }
+            ... on MachineUser { __typename id fullName }
+          }
+          labels { labelType { id name } }
+          tier { id name }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+const groupCountSchema = z.object({
+  // Null for the unassigned or untiered group
+  id: z.string().nullable(),
+  name: z.string(),
+  count: z.number(),
+});
+
+type GroupCount = z.infer<typeof groupCountSchema>;
+
+// Largest group first
+function groupCounts(groups: Map<string | null, GroupCount>): GroupCount[] {
+  return [...groups.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+function countGroup(groups: Map<string | null, GroupCount>, id: string | null, name: string): void {
+  const group = groups.get(id);
+  if (group) group.count++;
+  else groups.set(id, { id, name, count: 1 });
+}
+
 // Tool: get_queue_stats
-server.tool(
+tool(
   "get_queue_stats",
-  "Get a quick overview of the support queue with counts by status",
-  {},
-  async () => {
-    // Get counts for each status
-    const todoResult = await plain.getThreads({
-      filters: { statuses: [ThreadStatus.Todo] },
-      first: 100,
+  `Get an overview of the support queue: exact todo, snoozed and done counts, exact open thread counts by priority and status detail, open threads by assignee, label and tier, and the longest-waiting todo thread. The assignee, label and tier breakdowns read up to ${QUEUE_STATS_MAX_THREADS} open threads and set truncated when there are more. Scope it to a team with its members' user IDs, or to labels.`,
+  {
+    label_type_ids: z.array(z.string()).optional().describe("Only count threads with any of these labels"),
+    assigned_to_user: z
+      .array(z.string())
+      .optional()
+      .describe("Only count threads assigned to these users, e.g. the members of a team"),
+  },
+  z.object({
+    todo: z.number(),
+    snoozed: z.number(),
+    done: z.number(),
+    // Counts over open (todo and snoozed) threads
+    byPriority: z.record(z.string(), z.number()),
+    byStatusDetail: z.record(z.string(), z.number()),
+    byAssignee: z.array(groupCountSchema),
+    byLabel: z.array(groupCountSchema),
+    byTier: z.array(groupCountSchema),
+    // True when there were more open threads than the assignee, label and tier breakdowns read
+    truncated: z.boolean(),
+    oldestWaiting: z
+      .object({ threadId: z.string(), title: z.string(), since: z.string(), waitingSeconds: z.number() })
+      .nullable(),
+    summary: z.string(),
+  }),
+  { readOnlyHint: true },
+  async ({ label_type_ids, assigned_to_user }, { plain }) => {
+    const scope = {
+      ...(label_type_ids && { labelTypeIds: label_type_ids }),
+      ...(assigned_to_user && { assignedToUser: assigned_to_user }),
+    };
+
+    const open = [ThreadStatus.Todo, ThreadStatus.Snoozed];
+    const details = OPEN_STATUS_DETAILS.flatMap(([status, names]) => names.map((detail): [ThreadStatus, string] => [status, detail]));
+    const counts = await plain.rawRequest({
+      query: queueCountsQuery(details),
+      variables: {
+        todo: { ...scope, statuses: [ThreadStatus.Todo] },
+        snoozed: { ...scope, statuses: [ThreadStatus.Snoozed] },
+        done: { ...scope, statuses: [ThreadStatus.Done] },
+        ...Object.fromEntries(PRIORITY_LEVELS.map((level) => [`p${level}`, { ...scope, statuses: open, priorities: [level] }])),
+        ...Object.fromEntries(details.map(([status, detail], i) => [`d${i}`, { ...scope, statuses: [status], statusDetails: [detail] }])),
+        oldestFirst: { field: ThreadsSortField.StatusChangedAt, direction: SortDirection.Asc },
+      },
     });
-    const snoozedResult = await plain.getThreads({
-      filters: { statuses: [ThreadStatus.Snoozed] },
-      first: 100,
+    if (counts.error) {
+      return errorResult(counts.error);
+    }
+    const totals = counts.data as any;
+    const todo: number = totals?.todo?.totalCount ?? 0;
+    const snoozed: number = totals?.snoozed?.totalCount ?? 0;
+    const done: number = totals?.done?.totalCount ?? 0;
+
+    const byPriority: Record<string, number> = {};
+    for (const level of PRIORITY_LEVELS) {
+      const count: number = totals?.[`p${level}`]?.totalCount ?? 0;
+      if (count > 0) byPriority[priorityName(level)] = count;
+    }
+
+    // Threads with no status detail are counted under their status
+    const byStatusDetail: Record<string, number> = {};
+    const unexplained: Record<string, number> = { [ThreadStatus.Todo]: todo, [ThreadStatus.Snoozed]: snoozed };
+    details.forEach(([status, detail], i) => {
+      const count: number = totals?.[`d${i}`]?.totalCount ?? 0;
+      if (count === 0) return;
+      byStatusDetail[detail] = (byStatusDetail[detail] ?? 0) + count;
+      unexplained[status]! -= count;
     });
+    for (const status of open) {
+      if (unexplained[status]! > 0) byStatusDetail[status] = unexplained[status]!;
+    }
+
+    const filters = { ...scope, statuses: open };
+    const threads: any[] = [];
+    let after: string | undefined;
+    let hasMore = false;
+    do {
+      const result = await plain.rawRequest({
+        query: QUEUE_THREADS_QUERY,
+        variables: { filters, first: QUEUE_STATS_PAGE_SIZE, after },
+      });
+      if (result.error) {
+        return errorResult(result.error);
+      }
+      const page = connectionPage((result.data as any)?.threads);
+      threads.push(...page.items);
+      hasMore = page.pageInfo?.hasNextPage ?? false;
+      after = hasMore ? (page.pageInfo?.endCursor ?? undefined) : undefined;
+    } while (after && threads.length < QUEUE_STATS_MAX_THREADS);
+
+    const assignees = new Map<string | null, GroupCount>();
+    const labels = new Map<string | null, GroupCount>();
+    const tiers = new Map<string | null, GroupCount>();
+    for (const thread of threads) {
+      countGroup(assignees, thread.assignedTo?.id ?? null, thread.assignedTo?.fullName ?? "Unassigned");
+      for (const label of thread.labels ?? []) {
+        if (label.labelType) countGroup(labels, label.labelType.id, label.labelType.name);
+      }
+      countGroup(tiers, thread.tier?.id ?? null, thread.tier?.name ?? "No tier");
+    }
 
-    const todoCount = todoResult.error ? 0 : todoResult.data.threads.length;
-    const snoozedCount = snoozedResult.error ? 0 : snoozedResult.data.threads.length;
-
-    const stats = {
-      todo: todoCount,
-      snoozed: snoozedCount,
-      summary: `${todoCount} threads need attention (Todo), ${snoozedCount} snoozed`,
-    };
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(stats, null, 2),
-        },
-      ],
-    };
+    const oldest = connectionPage(totals?.oldest).items[0];
+    const oldestWaiting = oldest
+      ? {
+          threadId: oldest.id,
+          title: oldest.title,
+          since: oldest.statusChangedAt.iso8601,
+          waitingSeconds: Math.max(0, Math.round((Date.now() - Date.parse(oldest.statusChangedAt.iso8601)) / 1000)),
+        }
+      : null;
+
+    const waiting = oldestWaiting ? `; oldest waiting since ${oldestWaiting.since}` : "";
+    return jsonResult({
+      todo,
+      snoozed,
+      done,
+      byPriority,
+      byStatusDetail,
+      byAssignee: groupCounts(assignees),
+      byLabel: groupCounts(labels),
+      byTier: groupCounts(tiers),
+      truncated: hasMore,
+      oldestWaiting,
+      summary: `${todo} threads need attention (Todo), ${snoozed} snoozed, ${done} done${waiting}`,
+    });
   }
 );
 
 // Tool: reply_to_thread
-server.tool(
+tool(
   "reply_to_thread",
   "Reply to a support thread. The reply will be sent to the customer via the original channel (email, chat, etc.)",
   {
@@ -3173,7 +4903,8 @@ server.tool(
       .optional()
       .describe("Optional markdown-formatted content (will be used for rich display if supported)"),
   },
-  async ({ thread_id, text, markdown }) => {
+  confirmationSchema,
+  async ({ thread_id, text, markdown }, { plain }) => {
     const result = await plain.replyToThread({
       threadId: thread_id,
       textContent: text,
@@ -3181,85 +4912,57 @@ server.tool(
     });
 
     if (result.error) {
-      return {
-        content: [{ type: "text", text: `Error: ${result.error.message}` }],
-        isError: true,
-      };
+      return errorResult(result.error);
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Reply sent successfully to thread ${thread_id}`,
-        },
-      ],
-    };
+    return confirmationResult(`Reply sent successfully to thread ${thread_id}`);
   }
 );
 
 // Tool: mark_thread_done
-server.tool(
+tool(
   "mark_thread_done",
   "Mark a support thread as done/resolved",
   {
     thread_id: z.string().describe("The thread ID to mark as done"),
   },
-  async ({ thread_id }) => {
+  confirmationSchema,
+  async ({ thread_id }, { plain }) => {
     const result = await plain.markThreadAsDone({
       threadId: thread_id,
     });
 
     if (result.error) {
-      return {
-        content: [{ type: "text", text: `Error: ${result.error.message}` }],
-        isError: true,
-      };
+      return errorResult(result.error);
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Thread ${thread_id} marked as done`,
-        },
-      ],
-    };
+    return confirmationResult(`Thread ${thread_id} marked as done`);
   }
 );
 
 // Tool: mark_thread_todo
-server.tool(
+tool(
   "mark_thread_todo",
   "Mark a support thread as todo (re-open it)",
   {
     thread_id: z.string().describe("The thread ID to mark as todo"),
   },
-  async ({ thread_id }) => {
+  confirmationSchema,
+  async ({ thread_id }, { plain }) => {
     const result = await plain.markThreadAsTodo({
       threadId: thread_id,
     });
 
     if (result.error) {
-      return {
-        content: [{ type: "text", text: `Error: ${result.error.message}` }],
-        isError: true,
-      };
+      return errorResult(result.error);
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Thread ${thread_id} marked as todo`,
-        },
-      ],
-    };
+    return confirmationResult(`Thread ${thread_id} marked as todo`);
   }
 );
 
 // Tool: change_thread_status_to_todo
-server.tool(
+tool(
   "change_thread_status_to_todo",
   "Change thread status to Todo with optional status detail. Use this instead of mark_thread_todo when you need to set a specific status detail.",
   {
@@ -3277,33 +4980,24 @@ server.tool(
         "Status detail: CREATED (Needs first response), IN_PROGRESS (Investigating), NEW_REPLY (Needs next response), THREAD_LINK_UPDATED (Close the loop), THREAD_DISCUSSION_RESOLVED (Discussion resolved)"
       ),
   },
-  async ({ thread_id, status_detail }) => {
+  confirmationSchema,
+  async ({ thread_id, status_detail }, { plain }) => {
     const result = await plain.markThreadAsTodo({
       threadId: thread_id,
       statusDetail: status_detail as TodoStatusDetail | undefined,
     });
 
     if (result.error) {
-      return {
-        content: [{ type: "text", text: `Error: ${result.error.message}` }],
-        isError: true,
-      };
+      return errorResult(result.error);
     }
 
     const statusMsg = status_detail ? ` with status detail: ${status_detail}` : "";
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Thread ${thread_id} changed to Todo${statusMsg}`,
-        },
-      ],
-    };
+    return confirmationResult(`Thread ${thread_id} changed to Todo${statusMsg}`);
   }
 );
 
 // Tool: snooze_thread
-server.tool(
+tool(
   "snooze_thread",
   "Snooze a support thread. Use WAITING_FOR_CUSTOMER (no duration) to snooze until customer replies, or WAITING_FOR_DURATION with duration_seconds for time-based snooze.",
   {
@@ -3320,7 +5014,8 @@ server.tool(
         "WAITING_FOR_CUSTOMER: snooze until customer replies (no duration). WAITING_FOR_DURATION: snooze for specified duration."
       ),
   },
-  async ({ thread_id, duration_seconds, status_detail }) => {
+  confirmationSchema,
+  async ({ thread_id, duration_seconds, status_detail }, { plain }) => {
     // WAITING_FOR_CUSTOMER cannot have duration, WAITING_FOR_DURATION requires it
     const snoozeInput: {
       threadId: string;
@@ -3333,10 +5028,11 @@ server.tool(
 
     if (status_detail === "WAITING_FOR_DURATION") {
       if (!duration_seconds) {
-        return {
-          content: [{ type: "text", text: "Error: duration_seconds is required when using WAITING_FOR_DURATION" }],
-          isError: true,
-        };
+        return errorResult({
+          message: "duration_seconds is required when using WAITING_FOR_DURATION",
+          code: "invalid_argument",
+          fields: [{ field: "duration_seconds", message: "Required for WAITING_FOR_DURATION", type: "required" }],
+        });
       }
       snoozeInput.durationSeconds = duration_seconds;
     }
@@ -3344,36 +5040,18 @@ server.tool(
     const result = await plain.snoozeThread(snoozeInput);
 
     if (result.error) {
-      const details = (result.error as any).errorDetails;
-      let errorMsg = `Error: ${result.error.message}`;
-      if (details?.fields && details.fields.length > 0) {
-        const fieldErrors = details.fields
-          .map((f: { field: string; message: string }) => `${f.field}: ${f.message}`)
-          .join(", ");
-        errorMsg += ` (${fieldErrors})`;
-      }
-      return {
-        content: [{ type: "text", text: errorMsg }],
-        isError: true,
-      };
+      return errorResult(result.error);
     }
 
     const statusMsg = status_detail === "WAITING_FOR_CUSTOMER"
       ? "until customer replies"
       : `for ${Math.round((duration_seconds || 0) / 3600)} hour(s)`;
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Thread ${thread_id} snoozed ${statusMsg}`,
-        },
-      ],
-    };
+    return confirmationResult(`Thread ${thread_id} snoozed ${statusMsg}`);
   }
 );
 
 // Tool: create_note
-server.tool(
+tool(
   "create_note",
   "Create an internal note on a thread (not visible to customer)",
   {
@@ -3385,7 +5063,8 @@ server.tool(
       .optional()
       .describe("Optional markdown-formatted content for rich display"),
   },
-  async ({ thread_id, customer_id, text, markdown }) => {
+  confirmationSchema,
+  async ({ thread_id, customer_id, text, markdown }, { plain }) => {
     const result = await plain.createNote({
       threadId: thread_id,
       customerId: customer_id,
@@ -3394,31 +5073,581 @@ server.tool(
     });
 
     if (result.error) {
-      return {
-        content: [{ type: "text", text: `Error: ${result.error.message}` }],
-        isError: true,
-      };
+      return errorResult(result.error);
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Note created successfully on thread ${thread_id}`,
-        },
-      ],
-    };
+    return confirmationResult(`Note created successfully on thread ${thread_id}`);
   }
 );
 
+// =============================================================================
+// RESOURCES
+// =============================================================================
+
+// Resource templates render the result of a query tool, so a resource and the
+// matching tool call always return the same data. Resources read from the
+// default workspace.
+interface ResourceDefinition {
+  name: string;
+  // A template without {variables} is registered as a single fixed resource
+  uriTemplate: string;
+  title: string;
+  description: string;
+  // Query tool whose result is the resource's contents
+  tool: ReadableTool;
+  toolArgs: (variables: Record<string, string>) => Record<string, unknown>;
+  // Concrete resources listed for the template, and the tool that lists them
+  list?: (ctx: ToolContext) => Promise<Resource[]>;
+  listTool?: ReadableTool;
+}
+
+const resources: ResourceDefinition[] = [];
+
+function resource(def: ResourceDefinition): void {
+  resources.push(def);
+}
+
+// Structured results of the query tools that resources and prompts read
+interface ReadableToolResults {
+  list_threads: { threads: Thread[] };
+  list_label_types: { labelTypes: z.infer<typeof entitySchema>[] };
+  list_snippets: { snippets: z.infer<typeof entitySchema>[] };
+  get_thread: z.infer<typeof threadDetailSchema>;
+  get_customer: Customer;
+  get_help_center_article_by_slug: Article;
+}
+
+type ReadableTool = keyof ReadableToolResults;
+
+// Mistakes in what the client asked for; any other failure, such as Plain being down or rate limiting, is ours
+const INVALID_PARAMS_CODES = new Set(["not_found", "invalid_argument", "bad_request"]);
+
+// Run a query tool's handler with its arguments parsed (and defaulted) by the tool's own schema.
+// Failures become JSON-RPC errors, since resources and prompts have no isError result.
+async function readTool<Name extends ReadableTool>(name: Name, args: Record<string, unknown>, ctx: ToolContext): Promise<ReadableToolResults[Name]> {
+  const def = tools.find((candidate) => candidate.name === name)!;
+  const parsed = z.object(def.schema).safeParse(args);
+  if (!parsed.success) {
+    throw new McpError(ErrorCode.InvalidParams, z.prettifyError(parsed.error));
+  }
+
+  const result = await def.handler(parsed.data, ctx);
+  if (result.isError) {
+    const text = result.content.map((item) => (item.type === "text" ? item.text : "")).join("\n");
+    const error = result._meta?.error as ToolError | undefined;
+    throw new McpError(error && INVALID_PARAMS_CODES.has(error.code) ? ErrorCode.InvalidParams : ErrorCode.InternalError, text);
+  }
+  return result.structuredContent as ReadableToolResults[Name];
+}
+
+// Resource: thread
+resource({
+  name: "thread",
+  uriTemplate: "plain://thread/{id}",
+  title: "Plain thread",
+  description: "A support thread with its customer and timeline, as returned by get_thread. Lists the current todo queue.",
+  tool: "get_thread",
+  toolArgs: ({ id }) => ({ thread_id: id }),
+  listTool: "list_threads",
+  list: async (ctx) => {
+    const { threads } = await readTool("list_threads", { status: "todo", limit: 100, fetch_all: true }, ctx);
+    return threads.map((thread) => ({
+      uri: `plain://thread/${thread.id}`,
+      name: thread.title,
+      description: `Todo thread from ${thread.customer?.name ?? "unknown customer"}`,
+      mimeType: "application/json",
+    }));
+  },
+});
+
+// Resource: todo_queue
+resource({
+  name: "todo_queue",
+  uriTemplate: QUEUE_URI,
+  title: "Todo queue",
+  description: "Every thread in the todo queue, as returned by list_threads",
+  tool: "list_threads",
+  toolArgs: () => ({ status: "todo", limit: 100, fetch_all: true }),
+});
+
+// Resource: customer
+resource({
+  name: "customer",
+  uriTemplate: "plain://customer/{id}",
+  title: "Plain customer",
+  description: "A customer, as returned by get_customer",
+  tool: "get_customer",
+  toolArgs: ({ id }) => ({ customer_id: id }),
+});
+
+// Resource: help_center_article
+resource({
+  name: "help_center_article",
+  uriTemplate: "plain://help-center/{hcId}/article/{slug}",
+  title: "Help center article",
+  description: "A help center article, as returned by get_help_center_article_by_slug",
+  tool: "get_help_center_article_by_slug",
+  toolArgs: ({ hcId, slug }) => ({ help_center_id: hcId, slug }),
+});
+
+// =============================================================================
+// PROMPTS
+// =============================================================================
+
+// Prompts embed live data from the query tools, read from the default workspace,
+// followed by the instructions for the workflow.
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  // Prompt arguments are always strings
+  args: Record<string, z.ZodType<string> | z.ZodOptional<z.ZodType<string>>>;
+  // Query tools the messages read; the prompt is only offered when all are registered
+  tools: ReadableTool[];
+  messages: (args: Record<string, string | undefined>, ctx: ToolContext) => Promise<PromptMessage[]>;
+}
+
+const prompts: PromptDefinition[] = [];
+
+function prompt(def: PromptDefinition): void {
+  prompts.push(def);
+}
+
+function textMessage(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } };
+}
+
+// Data that has a resource URI is embedded as that resource
+function resourceMessage(uri: string, data: unknown): PromptMessage {
+  return { role: "user", content: { type: "resource", resource: { uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) } } };
+}
+
+function dataMessage(label: string, data: unknown): PromptMessage {
+  return textMessage(`${label}:\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``);
+}
+
+// Prompt: triage_queue
+prompt({
+  name: "triage_queue",
+  title: "Triage the todo queue",
+  description: "Review the todo queue and suggest a priority, labels and next step for each thread",
+  args: {
+    limit: z.string().optional().describe("Maximum number of todo threads to include (default 50)"),
+  },
+  tools: ["list_threads", "list_label_types"],
+  messages: async ({ limit }, ctx) => {
+    const { threads } = await readTool("list_threads", { status: "todo", limit: Math.max(1, Math.min(Math.floor(Number(limit)) || 50, 100)) }, ctx);
+    const { labelTypes } = await readTool("list_label_types", { limit: 100, fetch_all: true }, ctx);
+    return [
+      dataMessage("Todo threads", threads),
+      dataMessage("Available label types", labelTypes.map((label) => ({ id: label.id, name: label.name }))),
+      textMessage(
+        [
+          "Triage these todo threads. For each one, give:",
+          "- a priority (0 = urgent, 1 = high, 2 = normal, 3 = low) and why",
+          "- labels from the available label types that fit",
+          "- the next step: reply, assign, snooze or mark done",
+          "",
+          "List the most urgent threads first. Don't change anything in Plain until I confirm.",
+        ].join("\n")
+      ),
+    ];
+  },
+});
+
+// Prompt: draft_reply
+prompt({
+  name: "draft_reply",
+  title: "Draft a reply",
+  description: "Draft a reply to a thread in the team's tone, reusing snippets where they fit",
+  args: {
+    thread_id: z.string().describe("The thread to reply to"),
+    instructions: z.string().optional().describe("Anything the reply must say or avoid"),
+  },
+  tools: ["get_thread", "list_snippets"],
+  messages: async ({ thread_id, instructions }, ctx) => {
+    const thread = await readTool("get_thread", { thread_id }, ctx);
+    const { snippets } = await readTool("list_snippets", { limit: 100, fetch_all: true }, ctx);
+    return [
+      resourceMessage(`plain://thread/${thread_id}`, thread),
+      dataMessage("Snippets (our saved replies, which show our tone)", snippets),
+      textMessage(
+        [
+          `Draft a reply to thread ${thread_id} from ${thread.customer?.name ?? "the customer"}.`,
+          "Match the tone of our snippets: friendly, plain and brief. Reuse a snippet's wording when it answers the question.",
+          "Answer what the customer last asked, and don't promise anything the timeline doesn't support.",
+          ...(instructions ? [`Also: ${instructions}`] : []),
+          "",
+          "Show me the draft. Only send it with reply_to_thread once I approve it.",
+        ].join("\n")
+      ),
+    ];
+  },
+});
+
+// Prompt: summarize_customer
+prompt({
+  name: "summarize_customer",
+  title: "Summarize a customer",
+  description: "Summarize who a customer is and where they stand",
+  args: {
+    customer_id: z.string().describe("The customer to summarize"),
+  },
+  tools: ["get_customer"],
+  messages: async ({ customer_id }, ctx) => {
+    const customer = await readTool("get_customer", { customer_id }, ctx);
+    return [
+      resourceMessage(`plain://customer/${customer_id}`, customer),
+      textMessage(
+        [
+          `Summarize customer ${customer?.fullName ?? customer_id} for a support agent picking up their next conversation.`,
+          "Cover who they are, their company, how long they've been a customer, and anything notable such as a spam flag.",
+          "Keep it to a few short bullet points.",
+        ].join("\n")
+      ),
+    ];
+  },
+});
+
+// Prompt: write_article_from_thread
+prompt({
+  name: "write_article_from_thread",
+  title: "Write a help center article from a thread",
+  description: "Turn a resolved thread into a help center article draft",
+  args: {
+    thread_id: z.string().describe("The thread to write up"),
+    help_center_id: z.string().optional().describe("Help center to save the draft in"),
+  },
+  tools: ["get_thread"],
+  messages: async ({ thread_id, help_center_id }, ctx) => {
+    const thread = await readTool("get_thread", { thread_id }, ctx);
+    return [
+      resourceMessage(`plain://thread/${thread_id}`, thread),
+      textMessage(
+        [
+          `Write a help center article that answers the question in thread ${thread_id}, so other customers can solve it themselves.`,
+          "Leave out the customer's name and anything else specific to them.",
+          "Give it a clear title, a one-sentence description and step-by-step HTML content.",
+          help_center_id
+            ? `Once I approve it, save it as a DRAFT with upsert_help_center_article in help center ${help_center_id}.`
+            : "Once I approve it, ask which help center to save it in, then save it as a DRAFT with upsert_help_center_article.",
+        ].join("\n")
+      ),
+    ];
+  },
+});
+
+export interface ServerOptions {
+  // Only register query tools; calls to anything else fail as unknown tools
+  readOnly?: boolean;
+  // Destructive tools only run with a confirmation_token from a dry_run
+  requireConfirmation?: boolean;
+  // Every mutating call is recorded here
+  auditLog?: AuditLog;
+  // Webhook events received by the local listener
+  events?: EventBuffer;
+  // Only register tools in these toolsets; all toolsets when unset
+  toolsets?: string[];
+  // Text format for read tools called without a `format` argument; json when unset
+  format?: ResponseFormat;
+  // Bounds of the adaptive poll for resource subscriptions when there are no webhook events
+  pollIntervalMs?: { min: number; max: number };
+}
+
+// Parse a comma-separated PLAIN_TOOLSETS value; unset or "all" enables every toolset
+export function parseToolsets(value: string | undefined): string[] | undefined {
+  const names = (value ?? "").split(",").map((name) => name.trim().toLowerCase()).filter(Boolean);
+  if (names.length === 0 || names.includes("all")) return undefined;
+
+  const known = toolsets.map((set) => set.name);
+  const unknown = names.filter((name) => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown toolset(s) in PLAIN_TOOLSETS: ${unknown.join(", ")} (available: ${known.join(", ")})`);
+  }
+  return names;
+}
+
+// Build an MCP server with every tool bound to the given workspace(s). Each tool
+// gets an optional `workspace` argument selecting which Plain client it runs against.
+export function createServer(target: PlainClient | Workspaces, options: ServerOptions = {}): McpServer {
+  const workspaces = target instanceof PlainClient ? singleWorkspace(target) : target;
+  const names = Object.keys(workspaces.clients) as [string, ...string[]];
+
+  const server = new McpServer(
+    {
+      name: "plain-mcp",
+      version: "2.0.0",
+    },
+    { capabilities: { resources: { subscribe: true } } }
+  );
+
+  const workspaceArg = z
+    .enum(names)
+    .optional()
+    .describe(`Plain workspace to run against (configured: ${names.join(", ")}; default: ${workspaces.defaultName})`);
+
+  const defaultFormat = options.format ?? "json";
+  const formatArg = z
+    .enum(RESPONSE_FORMATS)
+    .optional()
+    .describe(
+      `Text format: json, markdown (tables and conversation transcripts) or compact (one line per entity). structuredContent is unaffected. Default: ${defaultFormat}`
+    );
+
+  const auditLog = options.auditLog ?? null;
+  const events = options.events ?? null;
+  const confirmations = new Map<string, PendingConfirmation>();
+
+  async function dryRun(def: ToolDefinition, previewHandler: PreviewHandler, args: any, ctx: ToolContext): Promise<CallToolResult> {
+    const result = await previewHandler(args, ctx);
+    if (result.error) {
+      return errorResult(result.error);
+    }
+
+    // Unused tokens are otherwise only dropped when presented, so clear out expired ones here
+    const now = Date.now();
+    for (const [unused, pending] of confirmations) {
+      if (pending.expiresAt < now) confirmations.delete(unused);
+    }
+
+    const token = crypto.randomUUID();
+    const expiresAt = now + CONFIRMATION_TTL_MS;
+    confirmations.set(token, { key: confirmationKey(def.name, ctx.workspace, args), expiresAt });
+
+    const response = {
+      dryRun: true,
+      tool: def.name,
+      wouldDelete: result.data,
+      confirmationToken: token,
+      confirmationExpiresAt: new Date(expiresAt).toISOString(),
+    };
+    return jsonResult(response);
+  }
+
+  // Returns the error when the call may not go ahead; tokens are single-use
+  function checkConfirmation(def: ToolDefinition, args: any, ctx: ToolContext): ErrorSource | null {
+    const token: string | undefined = args.confirmation_token;
+    if (!token) {
+      return options.requireConfirmation
+        ? {
+            message: `${def.name} requires confirmation: call it with dry_run: true first, then pass the returned confirmation_token`,
+            code: "confirmation_required",
+          }
+        : null;
+    }
+
+    const pending = confirmations.get(token);
+    confirmations.delete(token);
+    const field = { field: "confirmation_token", message: "Run a new dry_run to get a fresh token" };
+    if (!pending || pending.expiresAt < Date.now()) {
+      return { message: "confirmation_token is invalid or has expired; run a new dry_run", code: "invalid_confirmation", fields: [field] };
+    }
+    if (pending.key !== confirmationKey(def.name, ctx.workspace, args)) {
+      return { message: "confirmation_token was issued for a different call; run a new dry_run", code: "invalid_confirmation", fields: [field] };
+    }
+    return null;
+  }
+
+  // Thrown errors and field hints go through the same error model as returned ones
+  async function run(def: ToolDefinition, args: any, ctx: ToolContext, argNames: string[]): Promise<CallToolResult> {
+    let result: CallToolResult;
+    try {
+      result = await def.handler(args, ctx);
+    } catch (error: any) {
+      result = errorResult({ message: error.message, code: "internal_error" });
+    }
+    return withArgumentHint(result, argNames);
+  }
+
+  const enabledToolsets = new Set(options.toolsets ?? toolsets.map((set) => set.name));
+  // Mutations are never registered in read-only mode, so the SDK rejects calls to them
+  const registered = tools.filter(
+    (def) => (!options.readOnly || isReadOnly(def)) && (def.toolset === null || enabledToolsets.has(def.toolset))
+  );
+  const registeredTools: ReadonlySet<string> = new Set(registered.map((def) => def.name));
+
+  function contextFor(workspace: string): ToolContext {
+    const plain = workspaces.clients[workspace]!;
+    return { plain, workspace, workspaces, auditLog, events, customers: customerCache(plain), registeredTools };
+  }
+
+  for (const def of registered) {
+    const previewHandler = previews.get(def.name);
+    const inputSchema = {
+      ...def.schema,
+      ...(previewHandler && previewArgs),
+      ...(isReadOnly(def) && { format: formatArg }),
+      workspace: workspaceArg,
+    };
+    // An output schema is a single object, so tools with a dry run accept either shape's fields
+    const outputSchema = previewHandler ? def.output.partial().extend(dryRunSchema.partial().shape) : def.output;
+    const argNames = Object.keys(inputSchema);
+    server.registerTool(
+      def.name,
+      {
+        description: def.description,
+        inputSchema,
+        outputSchema,
+        annotations: def.annotations,
+      },
+      async (args: any): Promise<CallToolResult> => {
+        const workspace: string = args.workspace ?? workspaces.defaultName;
+        const ctx = contextFor(workspace);
+
+        if (previewHandler) {
+          if (args.dry_run) {
+            return withArgumentHint(await dryRun(def, previewHandler, args, ctx), argNames);
+          }
+          const refusal = checkConfirmation(def, args, ctx);
+          if (refusal) {
+            return withArgumentHint(errorResult(refusal), argNames);
+          }
+        }
+
+        const result = await run(def, args, ctx, argNames);
+        if (isReadOnly(def)) {
+          return formatResult(result, args.format ?? defaultFormat);
+        }
+        if (auditLog) {
+          await auditLog.record({ tool: def.name, workspace, args, result });
+        }
+        return result;
+      }
+    );
+  }
+
+  // Resources and prompts only read tools this server registered, so toolsets and read-only mode apply to them too
+  const readable = (names: (string | undefined)[]) => names.every((name) => !name || registeredTools.has(name));
+
+  for (const def of resources) {
+    if (!readable([def.tool, def.listTool])) continue;
+    const list = def.list;
+    const metadata = { title: def.title, description: def.description, mimeType: "application/json" };
+    const read = async (uri: URL, variables: Record<string, string | string[]>) => {
+      const args = def.toolArgs(Object.fromEntries(Object.entries(variables).map(([key, value]) => [key, String(value)])));
+      const data = await readTool(def.tool, args, contextFor(workspaces.defaultName));
+      return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }] };
+    };
+    if (!def.uriTemplate.includes("{")) {
+      server.registerResource(def.name, def.uriTemplate, metadata, (uri) => read(uri, {}));
+      continue;
+    }
+    server.registerResource(
+      def.name,
+      new ResourceTemplate(def.uriTemplate, {
+        list: list && (async () => ({ resources: await list(contextFor(workspaces.defaultName)) })),
+      }),
+      metadata,
+      read
+    );
+  }
+
+  // Subscriptions watch the default workspace, like resource reads
+  const watcher = createChangeWatcher({
+    plain: workspaces.clients[workspaces.defaultName]!,
+    events: options.events ?? null,
+    onUpdated: (uri) => server.server.sendResourceUpdated({ uri }),
+    pollIntervalMs: options.pollIntervalMs,
+  });
+  server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    if (!watcher.subscribe(params.uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Only plain://thread/{id} and ${QUEUE_URI} can be subscribed to`);
+    }
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    watcher.unsubscribe(params.uri);
+    return {};
+  });
+  server.server.onclose = () => watcher.close();
+
+  for (const def of prompts) {
+    if (!readable(def.tools)) continue;
+    server.registerPrompt(def.name, { title: def.title, description: def.description, argsSchema: def.args }, async (args: any) => ({
+      description: def.description,
+      messages: await def.messages(args, contextFor(workspaces.defaultName)),
+    }));
+  }
+
+  return server;
+}
+
+function envFlag(value: string | undefined): boolean {
+  return ["1", "true", "yes"].includes((value || "").toLowerCase());
+}
+
 // Start server
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("Plain MCP server running on stdio");
+  let workspaces: Workspaces;
+  let enabledToolsets: string[] | undefined;
+  let format: ResponseFormat | undefined;
+  try {
+    workspaces = loadWorkspaces(process.env);
+    // PLAIN_TOOLSETS=threads,customers registers only those groups of tools
+    enabledToolsets = parseToolsets(process.env.PLAIN_TOOLSETS);
+    // PLAIN_RESPONSE_FORMAT=markdown|compact changes the default text of read tools
+    format = parseResponseFormat(process.env.PLAIN_RESPONSE_FORMAT);
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  // PLAIN_READ_ONLY=true hides every tool that can change data in Plain
+  // PLAIN_REQUIRE_DELETE_CONFIRMATION=true makes delete_* tools insist on a dry run first
+  const options: ServerOptions = {
+    readOnly: envFlag(process.env.PLAIN_READ_ONLY),
+    requireConfirmation: envFlag(process.env.PLAIN_REQUIRE_DELETE_CONFIRMATION),
+    // PLAIN_AUDIT_LOG=/path/to/audit.jsonl records every mutating tool call
+    auditLog: process.env.PLAIN_AUDIT_LOG ? createAuditLog(process.env.PLAIN_AUDIT_LOG) : undefined,
+    toolsets: enabledToolsets,
+    format,
+  };
+
+  // PLAIN_WEBHOOK_SECRET starts a listener for Plain webhooks on PLAIN_WEBHOOK_PORT (default 3001)
+  if (process.env.PLAIN_WEBHOOK_SECRET) {
+    options.events = createEventBuffer();
+    try {
+      const listener = await startWebhookListener(
+        {
+          host: process.env.PLAIN_WEBHOOK_HOST || "127.0.0.1",
+          port: Number(process.env.PLAIN_WEBHOOK_PORT) || 3001,
+          secret: process.env.PLAIN_WEBHOOK_SECRET,
+        },
+        options.events
+      );
+      console.error(`Plain webhook listener on ${listener.url}/webhooks`);
+    } catch (error: any) {
+      console.error(`Could not start the webhook listener: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  // PLAIN_MCP_TRANSPORT=http serves Streamable HTTP (/mcp) and legacy SSE (/sse) instead of stdio
+  const transport = process.env.PLAIN_MCP_TRANSPORT || "stdio";
+  if (transport === "http") {
+    const http = await startHttpServer(
+      {
+        host: process.env.PLAIN_MCP_HOST || "127.0.0.1",
+        port: Number(process.env.PLAIN_MCP_PORT) || 3000,
+        authToken: process.env.PLAIN_MCP_AUTH_TOKEN,
+      },
+      () => createServer(workspaces, options)
+    );
+    console.error(`Plain MCP server listening on ${http.url}/mcp (SSE: ${http.url}/sse)`);
+    return;
+  }
+  if (transport !== "stdio") {
+    console.error(`Unknown PLAIN_MCP_TRANSPORT "${transport}" (expected "stdio" or "http")`);
+    process.exit(1);
+  }
+
+  await createServer(workspaces, options).connect(new StdioServerTransport());
+  console.error(`Plain MCP server running on stdio${options.readOnly ? " (read-only)" : ""}`);
 }
 
-main().catch((error) => {
-  console.error("Fatal error:", error);
-  process.exit(1);
-});
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
+}
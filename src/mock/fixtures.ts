@@ -0,0 +1,340 @@
+/**
+ * Seed data for the mock Plain API. Records are stored flat (ids instead of
+ * nested objects) and expanded into GraphQL shapes by the resolvers.
+ */
+
+export interface MockTimelineEntry {
+  id: string;
+  customerId: string;
+  threadId: string | null;
+  timestamp: string;
+  actor: { type: "user" | "customer" | "system" | "machineUser"; id: string };
+  entry: Record<string, any>;
+}
+
+export interface MockState {
+  workspace: { id: string; name: string; publicName: string; createdAt: string };
+  users: { id: string; fullName: string; publicName: string; email: string; status: string; createdAt: string }[];
+  customers: {
+    id: string;
+    fullName: string;
+    shortName: string | null;
+    email: string;
+    externalId: string | null;
+    companyId: string | null;
+    customerGroupIds: string[];
+    tenantIds: string[];
+    markedAsSpamAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }[];
+  companies: {
+    id: string;
+    name: string;
+    domainName: string | null;
+    externalId: string | null;
+    tierId: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }[];
+  tenants: { id: string; identifier: string; name: string; externalId: string | null; createdAt: string; updatedAt: string }[];
+  threads: {
+    id: string;
+    ref: string;
+    customerId: string;
+    title: string;
+    description: string | null;
+    previewText: string | null;
+    status: "TODO" | "SNOOZED" | "DONE";
+    statusDetail: string | null;
+    priority: number;
+    labelTypeIds: string[];
+    assignedToUserId: string | null;
+    tierId: string | null;
+    tenantId: string | null;
+    threadFields: { key: string; stringValue: string }[];
+    createdAt: string;
+    updatedAt: string;
+  }[];
+  timelineEntries: MockTimelineEntry[];
+  labelTypes: { id: string; name: string; icon: string | null; isArchived: boolean; createdAt: string }[];
+  helpCenters: {
+    id: string;
+    publicName: string;
+    internalName: string;
+    type: string;
+    description: string | null;
+    subdomain: string;
+    customDomainName: string | null;
+    indexHash: string;
+    createdAt: string;
+    updatedAt: string;
+  }[];
+  articles: {
+    id: string;
+    helpCenterId: string;
+    groupId: string | null;
+    title: string;
+    slug: string;
+    status: string;
+    description: string;
+    contentHtml: string;
+    createdAt: string;
+    updatedAt: string;
+  }[];
+  articleGroups: { id: string; helpCenterId: string; parentId: string | null; name: string; slug: string; createdAt: string }[];
+  knowledgeSources: { id: string; name: string; url: string }[];
+  snippets: { id: string; name: string; text: string; createdAt: string }[];
+  webhookTargets: { id: string; url: string; isEnabled: boolean; eventTypes: string[]; createdAt: string }[];
+  autoresponders: { id: string; name: string; isEnabled: boolean; textContent: string; createdAt: string }[];
+  tiers: { id: string; name: string; color: string | null; createdAt: string }[];
+  customerGroups: { id: string; name: string; key: string; color: string | null; createdAt: string }[];
+  threadFieldSchemas: { id: string; key: string; label: string; type: string; isRequired: boolean }[];
+  events: { id: string; kind: "customer" | "thread"; targetId: string; title: string }[];
+  // Monotonic counter used to mint ids for created records
+  nextId: number;
+}
+
+export function createFixtures(): MockState {
+  return {
+    workspace: {
+      id: "w_mock",
+      name: "Mock Workspace",
+      publicName: "Mock Support",
+      createdAt: "2024-01-01T00:00:00.000Z",
+    },
+    users: [
+      { id: "u_alice", fullName: "Alice Agent", publicName: "Alice", email: "alice@mock.dev", status: "ONLINE", createdAt: "2024-01-02T00:00:00.000Z" },
+      { id: "u_bob", fullName: "Bob Builder", publicName: "Bob", email: "bob@mock.dev", status: "OFFLINE", createdAt: "2024-01-03T00:00:00.000Z" },
+    ],
+    customers: [
+      {
+        id: "c_jane",
+        fullName: "Jane Doe",
+        shortName: "Jane",
+        email: "jane@example.com",
+        externalId: "ext_jane",
+        companyId: "co_example",
+        customerGroupIds: ["cg_vip"],
+        tenantIds: ["te_eu"],
+        markedAsSpamAt: null,
+        createdAt: "2024-02-01T09:00:00.000Z",
+        updatedAt: "2024-05-01T09:00:00.000Z",
+      },
+      {
+        id: "c_sam",
+        fullName: "Sam Smith",
+        shortName: null,
+        email: "sam@widgets.io",
+        externalId: null,
+        companyId: null,
+        customerGroupIds: [],
+        tenantIds: [],
+        markedAsSpamAt: null,
+        createdAt: "2024-03-01T09:00:00.000Z",
+        updatedAt: "2024-03-01T09:00:00.000Z",
+      },
+    ],
+    companies: [
+      { id: "co_example", name: "Example Inc", domainName: "example.com", externalId: null, tierId: "tier_gold", createdAt: "2024-01-10T00:00:00.000Z", updatedAt: "2024-01-10T00:00:00.000Z" },
+    ],
+    tenants: [
+      { id: "te_eu", identifier: "eu-tenant", name: "EU Tenant", externalId: null, createdAt: "2024-01-11T00:00:00.000Z", updatedAt: "2024-01-11T00:00:00.000Z" },
+    ],
+    threads: [
+      {
+        id: "th_login",
+        ref: "T-1",
+        customerId: "c_jane",
+        title: "Cannot log in",
+        description: "Password reset email never arrives",
+        previewText: "I still can't log in",
+        status: "TODO",
+        statusDetail: "NEW_REPLY",
+        priority: 1,
+        labelTypeIds: ["lt_bug"],
+        assignedToUserId: "u_alice",
+        tierId: "tier_gold",
+        tenantId: "te_eu",
+        threadFields: [],
+        createdAt: "2024-06-01T10:00:00.000Z",
+        updatedAt: "2024-06-01T12:00:00.000Z",
+      },
+      {
+        id: "th_invoice",
+        ref: "T-2",
+        customerId: "c_sam",
+        title: "Question about invoice 4471",
+        description: null,
+        previewText: "Why was I charged twice?",
+        status: "TODO",
+        statusDetail: "CREATED",
+        priority: 2,
+        labelTypeIds: ["lt_billing"],
+        assignedToUserId: null,
+        tierId: null,
+        tenantId: null,
+        threadFields: [],
+        createdAt: "2024-06-02T08:00:00.000Z",
+        updatedAt: "2024-06-02T08:00:00.000Z",
+      },
+      {
+        id: "th_export",
+        ref: "T-3",
+        customerId: "c_jane",
+        title: "CSV export request",
+        description: null,
+        previewText: "Can you export my data?",
+        status: "SNOOZED",
+        statusDetail: "WAITING_FOR_CUSTOMER",
+        priority: 3,
+        labelTypeIds: [],
+        assignedToUserId: "u_bob",
+        tierId: null,
+        tenantId: null,
+        threadFields: [],
+        createdAt: "2024-05-20T08:00:00.000Z",
+        updatedAt: "2024-05-21T08:00:00.000Z",
+      },
+      {
+        id: "th_done",
+        ref: "T-4",
+        customerId: "c_sam",
+        title: "Thanks!",
+        description: null,
+        previewText: "All sorted",
+        status: "DONE",
+        statusDetail: "DONE_MANUALLY_SET",
+        priority: 2,
+        labelTypeIds: [],
+        assignedToUserId: null,
+        tierId: null,
+        tenantId: null,
+        threadFields: [],
+        createdAt: "2024-04-01T08:00:00.000Z",
+        updatedAt: "2024-04-02T08:00:00.000Z",
+      },
+    ],
+    timelineEntries: [
+      {
+        id: "te_1",
+        customerId: "c_jane",
+        threadId: "th_login",
+        timestamp: "2024-06-01T10:00:00.000Z",
+        actor: { type: "customer", id: "c_jane" },
+        entry: {
+          __typename: "EmailEntry",
+          emailId: "em_1",
+          subject: "Cannot log in",
+          textContent: "The password reset email never arrives.",
+          from: { email: "jane@example.com", name: "Jane Doe" },
+          to: { email: "support@mock.dev", name: "Mock Support" },
+        },
+      },
+      {
+        id: "te_2",
+        customerId: "c_jane",
+        threadId: "th_login",
+        timestamp: "2024-06-01T11:00:00.000Z",
+        actor: { type: "user", id: "u_alice" },
+        entry: { __typename: "ChatEntry", chatId: "ch_1", text: "Could you check your spam folder?" },
+      },
+      {
+        id: "te_3",
+        customerId: "c_jane",
+        threadId: "th_login",
+        timestamp: "2024-06-01T11:05:00.000Z",
+        actor: { type: "user", id: "u_alice" },
+        entry: { __typename: "NoteEntry", noteId: "no_1", text: "Possibly the SES bounce issue" },
+      },
+      {
+        id: "te_4",
+        customerId: "c_jane",
+        threadId: "th_export",
+        timestamp: "2024-05-20T08:00:00.000Z",
+        actor: { type: "system", id: "sys_1" },
+        entry: {
+          __typename: "CustomEntry",
+          title: "Export requested",
+          components: [{ __typename: "ComponentText", text: "Export queued for jane@example.com" }],
+        },
+      },
+      {
+        id: "te_5",
+        customerId: "c_sam",
+        threadId: "th_invoice",
+        timestamp: "2024-06-02T08:00:00.000Z",
+        actor: { type: "customer", id: "c_sam" },
+        entry: { __typename: "ChatEntry", chatId: "ch_2", text: "Why was I charged twice for invoice 4471?" },
+      },
+    ],
+    labelTypes: [
+      { id: "lt_bug", name: "Bug", icon: "🐛", isArchived: false, createdAt: "2024-01-05T00:00:00.000Z" },
+      { id: "lt_billing", name: "Billing", icon: "💳", isArchived: false, createdAt: "2024-01-05T00:00:00.000Z" },
+    ],
+    helpCenters: [
+      {
+        id: "hc_main",
+        publicName: "Mock Help",
+        internalName: "Main help center",
+        type: "STANDALONE",
+        description: "Answers to common questions",
+        subdomain: "mock-help",
+        customDomainName: null,
+        indexHash: "hash_1",
+        createdAt: "2024-01-06T00:00:00.000Z",
+        updatedAt: "2024-01-06T00:00:00.000Z",
+      },
+    ],
+    articles: [
+      {
+        id: "art_reset",
+        helpCenterId: "hc_main",
+        groupId: "grp_account",
+        title: "Resetting your password",
+        slug: "reset-password",
+        status: "PUBLISHED",
+        description: "How to reset a forgotten password",
+        contentHtml: "<p>Click <b>Forgot password</b> on the login page.</p>",
+        createdAt: "2024-01-07T00:00:00.000Z",
+        updatedAt: "2024-01-08T00:00:00.000Z",
+      },
+      {
+        id: "art_billing",
+        helpCenterId: "hc_main",
+        groupId: null,
+        title: "Understanding your invoice",
+        slug: "invoices",
+        status: "DRAFT",
+        description: "Line items explained",
+        contentHtml: "<p>Each invoice lists seats and usage.</p>",
+        createdAt: "2024-01-09T00:00:00.000Z",
+        updatedAt: "2024-01-09T00:00:00.000Z",
+      },
+    ],
+    articleGroups: [
+      { id: "grp_account", helpCenterId: "hc_main", parentId: null, name: "Account", slug: "account", createdAt: "2024-01-07T00:00:00.000Z" },
+    ],
+    knowledgeSources: [],
+    snippets: [
+      { id: "sn_thanks", name: "thanks", text: "Thanks for reaching out!", createdAt: "2024-01-12T00:00:00.000Z" },
+    ],
+    webhookTargets: [
+      { id: "wh_main", url: "https://hooks.mock.dev/plain", isEnabled: true, eventTypes: ["thread.created"], createdAt: "2024-01-13T00:00:00.000Z" },
+    ],
+    autoresponders: [
+      { id: "ar_ooo", name: "Out of office", isEnabled: false, textContent: "We're away", createdAt: "2024-01-14T00:00:00.000Z" },
+    ],
+    tiers: [
+      { id: "tier_gold", name: "Gold", color: "#FFD700", createdAt: "2024-01-15T00:00:00.000Z" },
+    ],
+    customerGroups: [
+      { id: "cg_vip", name: "VIP", key: "vip", color: "#FF0000", createdAt: "2024-01-16T00:00:00.000Z" },
+    ],
+    threadFieldSchemas: [
+      { id: "tfs_product", key: "product", label: "Product", type: "STRING", isRequired: false },
+    ],
+    events: [],
+    nextId: 1,
+  };
+}
@@ -0,0 +1,952 @@
+/**
+ * Root field resolvers for the mock Plain API. Each resolver receives the
+ * field's arguments and the fixture state, and returns data in the shape the
+ * real API would (before selection-set projection).
+ */
+
+import type { MockState, MockTimelineEntry } from "./fixtures.ts";
+
+type Resolver = (args: Record<string, any>, state: MockState) => any;
+
+// =============================================================================
+// SHAPE HELPERS
+// =============================================================================
+
+function dt(iso: string | null | undefined) {
+  if (!iso) return null;
+  return { __typename: "DateTime", iso8601: iso, unixTimestamp: String(Date.parse(iso)) };
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function mintId(state: MockState, prefix: string): string {
+  return `${prefix}_new${state.nextId++}`;
+}
+
+export function encodeCursor(id: string): string {
+  return Buffer.from(`cursor:${id}`).toString("base64");
+}
+
+// Relay-style connection over an in-memory list, honoring first/after and last/before
+export function connection<T extends { id: string }>(items: T[], args: Record<string, any> = {}) {
+  let start = 0;
+  let end = items.length;
+  if (args.after) {
+    const index = items.findIndex((item) => encodeCursor(item.id) === args.after);
+    start = index + 1;
+  }
+  if (args.before) {
+    const index = items.findIndex((item) => encodeCursor(item.id) === args.before);
+    if (index >= 0) end = index;
+  }
+  if (typeof args.first === "number") {
+    end = Math.min(end, start + args.first);
+  } else if (typeof args.last === "number") {
+    start = Math.max(start, end - args.last);
+  }
+
+  const page = items.slice(start, end);
+  return {
+    edges: page.map((node) => ({ cursor: encodeCursor(node.id), node })),
+    pageInfo: {
+      hasNextPage: end < items.length,
+      hasPreviousPage: start > 0,
+      startCursor: page[0] ? encodeCursor(page[0].id) : null,
+      endCursor: page.length > 0 ? encodeCursor(page[page.length - 1]!.id) : null,
+    },
+    totalCount: items.length,
+  };
+}
+
+function ok(payload: Record<string, any> = {}) {
+  return { ...payload, error: null };
+}
+
+function fail(message: string, code = "not_found", fields: { field: string; message: string; type: string }[] = []) {
+  return { error: { __typename: "MutationError", message, type: "VALIDATION", code, fields } };
+}
+
+function removeById<T extends { id: string }>(list: T[], id: string): boolean {
+  const index = list.findIndex((item) => item.id === id);
+  if (index < 0) return false;
+  list.splice(index, 1);
+  return true;
+}
+
+// =============================================================================
+// ENTITY VIEWS
+// =============================================================================
+
+const STATUS_DETAIL_TYPENAMES: Record<string, string> = {
+  CREATED: "ThreadStatusDetailCreated",
+  IN_PROGRESS: "ThreadStatusDetailInProgress",
+  NEW_REPLY: "ThreadStatusDetailNewReply",
+  THREAD_LINK_UPDATED: "ThreadStatusDetailThreadLinkUpdated",
+  THREAD_DISCUSSION_RESOLVED: "ThreadStatusDetailThreadDiscussionResolved",
+  WAITING_FOR_CUSTOMER: "ThreadStatusDetailWaitingForCustomer",
+  WAITING_FOR_DURATION: "ThreadStatusDetailWaitingForDuration",
+  DONE_MANUALLY_SET: "ThreadStatusDetailDoneManuallySet",
+  DONE_AUTOMATICALLY_SET: "ThreadStatusDetailDoneAutomaticallySet",
+  IGNORED: "ThreadStatusDetailIgnored",
+};
+
+function userView(state: MockState, id: string | null) {
+  const user = state.users.find((u) => u.id === id);
+  if (!user) return null;
+  return {
+    __typename: "User",
+    ...user,
+    slackIdentities: [],
+    createdAt: dt(user.createdAt),
+    updatedAt: dt(user.createdAt),
+  };
+}
+
+function tenantView(state: MockState, id: string | null) {
+  const tenant = state.tenants.find((t) => t.id === id);
+  if (!tenant) return null;
+  return { __typename: "Tenant", ...tenant, url: null, tier: null, createdAt: dt(tenant.createdAt), updatedAt: dt(tenant.updatedAt) };
+}
+
+function companyView(state: MockState, id: string | null) {
+  const company = state.companies.find((c) => c.id === id);
+  if (!company) return null;
+  return {
+    __typename: "Company",
+    ...company,
+    tier: company.tierId ? findWithDates(state.tiers, company.tierId) : null,
+    createdAt: dt(company.createdAt),
+    updatedAt: dt(company.updatedAt),
+  };
+}
+
+function customerView(state: MockState, id: string | null) {
+  const customer = state.customers.find((c) => c.id === id);
+  if (!customer) return null;
+  return {
+    __typename: "Customer",
+    id: customer.id,
+    fullName: customer.fullName,
+    shortName: customer.shortName,
+    externalId: customer.externalId,
+    email: { email: customer.email, isVerified: true, verifiedAt: null },
+    company: companyView(state, customer.companyId),
+    markedAsSpamAt: dt(customer.markedAsSpamAt),
+    createdAt: dt(customer.createdAt),
+    updatedAt: dt(customer.updatedAt),
+  };
+}
+
+function labelTypeView(state: MockState, id: string) {
+  const labelType = state.labelTypes.find((l) => l.id === id);
+  if (!labelType) return null;
+  return { __typename: "LabelType", ...labelType, createdAt: dt(labelType.createdAt), updatedAt: dt(labelType.createdAt) };
+}
+
+function threadView(state: MockState, id: string | null) {
+  const thread = state.threads.find((t) => t.id === id);
+  if (!thread) return null;
+  const statusDetail = thread.statusDetail
+    ? {
+        __typename: STATUS_DETAIL_TYPENAMES[thread.statusDetail],
+        createdAt: dt(thread.createdAt),
+        statusChangedAt: dt(thread.updatedAt),
+      }
+    : null;
+  return {
+    __typename: "Thread",
+    id: thread.id,
+    ref: thread.ref,
+    externalId: null,
+    customer: customerView(state, thread.customerId),
+    status: thread.status,
+    statusDetail,
+    statusChangedAt: dt(thread.updatedAt),
+    title: thread.title,
+    description: thread.description,
+    previewText: thread.previewText,
+    priority: thread.priority,
+    tenant: tenantView(state, thread.tenantId),
+    labels: thread.labelTypeIds.map((labelTypeId) => ({
+      __typename: "Label",
+      id: `lbl_${thread.id}_${labelTypeId}`,
+      labelType: labelTypeView(state, labelTypeId),
+      createdAt: dt(thread.createdAt),
+      updatedAt: dt(thread.createdAt),
+    })),
+    timelineEntries: (args: Record<string, any>) =>
+      connection(
+        state.timelineEntries
+          .filter((e) => e.threadId === thread.id)
+          .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+          .map((e) => timelineEntryView(state, e)),
+        args
+      ),
+    threadFields: thread.threadFields.map((f) => ({
+      __typename: "ThreadField",
+      id: `tf_${thread.id}_${f.key}`,
+      key: f.key,
+      type: "STRING",
+      threadId: thread.id,
+      stringValue: f.stringValue,
+      booleanValue: null,
+      isAiGenerated: false,
+    })),
+    assignedAt: thread.assignedToUserId ? dt(thread.updatedAt) : null,
+    assignedTo: userView(state, thread.assignedToUserId),
+    tier: thread.tierId ? findWithDates(state.tiers, thread.tierId) : null,
+    createdAt: dt(thread.createdAt),
+    createdBy: { __typename: "CustomerActor", customerId: thread.customerId },
+    updatedAt: dt(thread.updatedAt),
+    updatedBy: { __typename: "CustomerActor", customerId: thread.customerId },
+  };
+}
+
+function actorView(state: MockState, actor: MockTimelineEntry["actor"]) {
+  switch (actor.type) {
+    case "user":
+      return { __typename: "UserActor", userId: actor.id, user: userView(state, actor.id) };
+    case "customer":
+      return { __typename: "CustomerActor", customerId: actor.id, customer: customerView(state, actor.id) };
+    case "machineUser":
+      return { __typename: "MachineUserActor", machineUserId: actor.id, machineUser: { fullName: "Mock Bot" } };
+    default:
+      return { __typename: "SystemActor", systemId: actor.id };
+  }
+}
+
+function timelineEntryView(state: MockState, entry: MockTimelineEntry) {
+  return {
+    __typename: "TimelineEntry",
+    id: entry.id,
+    customerId: entry.customerId,
+    threadId: entry.threadId,
+    timestamp: dt(entry.timestamp),
+    actor: actorView(state, entry.actor),
+    entry: entry.entry,
+  };
+}
+
+function articleGroupView(state: MockState, id: string | null) {
+  const group = state.articleGroups.find((g) => g.id === id);
+  if (!group) return null;
+  return {
+    __typename: "HelpCenterArticleGroup",
+    ...group,
+    createdAt: dt(group.createdAt),
+    articles: (args: Record<string, any>) =>
+      connection(
+        state.articles.filter((a) => a.groupId === group.id).map((a) => articleView(state, a.id)!),
+        args
+      ),
+  };
+}
+
+function articleView(state: MockState, id: string | null) {
+  const article = state.articles.find((a) => a.id === id);
+  if (!article) return null;
+  return {
+    __typename: "HelpCenterArticle",
+    ...article,
+    createdAt: dt(article.createdAt),
+    updatedAt: dt(article.updatedAt),
+    articleGroup: article.groupId ? articleGroupView(state, article.groupId) : null,
+  };
+}
+
+function helpCenterView(state: MockState, id: string | null) {
+  const helpCenter = state.helpCenters.find((hc) => hc.id === id);
+  if (!helpCenter) return null;
+  return {
+    __typename: "HelpCenter",
+    ...helpCenter,
+    domainSettings: { domainName: helpCenter.subdomain, customDomainName: helpCenter.customDomainName },
+    createdAt: dt(helpCenter.createdAt),
+    updatedAt: dt(helpCenter.updatedAt),
+    articles: (args: Record<string, any>) =>
+      connection(
+        state.articles.filter((a) => a.helpCenterId === helpCenter.id).map((a) => articleView(state, a.id)!),
+        args
+      ),
+    articleGroups: (args: Record<string, any>) =>
+      connection(
+        state.articleGroups.filter((g) => g.helpCenterId === helpCenter.id).map((g) => articleGroupView(state, g.id)!),
+        args
+      ),
+  };
+}
+
+function withDates<T extends { createdAt: string }>(record: T) {
+  return { ...record, createdAt: dt(record.createdAt) };
+}
+
+function threadMatchesFilters(state: MockState, t: MockState["threads"][number], filters: Record<string, any>): boolean {
+  if (filters.threadIds && !filters.threadIds.includes(t.id)) return false;
+  if (filters.statuses && !filters.statuses.includes(t.status)) return false;
+  if (filters.statusDetails && !filters.statusDetails.includes(t.statusDetail)) return false;
+  if (filters.priorities && !filters.priorities.includes(t.priority)) return false;
+  if (filters.isAssigned !== undefined && filters.isAssigned !== (t.assignedToUserId !== null)) return false;
+  if (filters.assignedToUser && !filters.assignedToUser.includes(t.assignedToUserId)) return false;
+  if (filters.customerIds && !filters.customerIds.includes(t.customerId)) return false;
+  if (filters.labelTypeIds && !t.labelTypeIds.some((id) => filters.labelTypeIds.includes(id))) return false;
+  if (filters.tenantIdentifiers && !filters.tenantIdentifiers.some((identifier: any) => identifier.tenantId === t.tenantId)) return false;
+  if (filters.companyIdentifiers) {
+    const customer = state.customers.find((c) => c.id === t.customerId);
+    if (!customer || !customerMatchesFilters(state, customer, { companyIdentifiers: filters.companyIdentifiers })) return false;
+  }
+  return true;
+}
+
+function customerMatchesFilters(state: MockState, c: MockState["customers"][number], filters: Record<string, any>): boolean {
+  if (filters.companyIdentifiers) {
+    const company = state.companies.find((co) => co.id === c.companyId);
+    const matches = filters.companyIdentifiers.some(
+      (identifier: any) => company && (identifier.companyId === company.id || identifier.companyDomainName === company.domainName)
+    );
+    if (!matches) return false;
+  }
+  if (filters.customerGroupIds && !c.customerGroupIds.some((id) => filters.customerGroupIds.includes(id))) return false;
+  if (filters.tenantIdentifiers) {
+    const tenants = state.tenants.filter((t) => c.tenantIds.includes(t.id));
+    const matches = filters.tenantIdentifiers.some((identifier: any) =>
+      tenants.some((t) => identifier.tenantId === t.id || (identifier.externalId && identifier.externalId === t.externalId))
+    );
+    if (!matches) return false;
+  }
+  if (filters.isMarkedAsSpam !== undefined && filters.isMarkedAsSpam !== (c.markedAsSpamAt !== null)) return false;
+  return true;
+}
+
+// Searchable text of a fixture timeline entry
+function entryText(entry: Record<string, any>): string {
+  const components = (entry.components ?? []).map((c: any) => c.text ?? "");
+  return [entry.text, entry.subject, entry.textContent, entry.title, ...components].filter(Boolean).join("\n");
+}
+
+// Single-record lookups return null for unknown ids, like the real API
+function findWithDates<T extends { id: string; createdAt: string }>(list: T[], id: string) {
+  const record = list.find((item) => item.id === id);
+  return record ? withDates(record) : null;
+}
+
+function addTimelineEntry(state: MockState, threadId: string, actor: MockTimelineEntry["actor"], entry: Record<string, any>) {
+  const thread = state.threads.find((t) => t.id === threadId);
+  if (!thread) return;
+  const timestamp = now();
+  state.timelineEntries.push({
+    id: mintId(state, "te"),
+    customerId: thread.customerId,
+    threadId,
+    timestamp,
+    actor,
+    entry,
+  });
+  thread.updatedAt = timestamp;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+const query: Record<string, Resolver> = {
+  workspace: (_args, state) => withDates(state.workspace),
+
+  users: (args, state) => connection(state.users.map((u) => userView(state, u.id)!), args),
+
+  helpCenters: (args, state) => connection(state.helpCenters.map((hc) => helpCenterView(state, hc.id)!), args),
+  helpCenter: ({ id }, state) => helpCenterView(state, id),
+  helpCenterArticle: ({ id }, state) => articleView(state, id),
+  helpCenterArticleBySlug: ({ helpCenterId, slug }, state) =>
+    articleView(state, state.articles.find((a) => a.helpCenterId === helpCenterId && a.slug === slug)?.id ?? null),
+  helpCenterArticleGroup: ({ id }, state) => articleGroupView(state, id),
+  helpCenterIndex: ({ id }, state) => {
+    const helpCenter = state.helpCenters.find((hc) => hc.id === id);
+    if (!helpCenter) return null;
+    return {
+      hash: helpCenter.indexHash,
+      items: [
+        ...state.articleGroups.filter((g) => g.helpCenterId === id).map((g) => ({ type: "ARTICLE_GROUP", id: g.id })),
+        ...state.articles.filter((a) => a.helpCenterId === id).map((a) => ({ type: "ARTICLE", id: a.id })),
+      ],
+    };
+  },
+
+  customer: ({ customerId }, state) => customerView(state, customerId),
+  customerByExternalId: ({ externalId }, state) =>
+    customerView(state, state.customers.find((c) => c.externalId === externalId)?.id ?? null),
+  customers: ({ filters = {}, sortBy, ...args }, state) => {
+    const customers = state.customers.filter((c) => customerMatchesFilters(state, c, filters));
+    if (sortBy?.field === "FULL_NAME") {
+      customers.sort((a, b) => a.fullName.localeCompare(b.fullName) * (sortBy.direction === "DESC" ? -1 : 1));
+    }
+    return connection(customers.map((c) => customerView(state, c.id)!), args);
+  },
+  searchCustomers: ({ searchQuery, ...args }, state) => {
+    const term = String(searchQuery?.term ?? "").toLowerCase();
+    const hits = state.customers.filter((c) =>
+      [c.fullName, c.shortName, c.email, c.externalId].some((text) => text?.toLowerCase().includes(term))
+    );
+    return connection(hits.map((c) => ({ __typename: "CustomerSearchResult", id: c.id, customer: customerView(state, c.id) })), args);
+  },
+  customerByEmail: ({ email }, state) =>
+    customerView(state, state.customers.find((c) => c.email === email)?.id ?? null),
+
+  threads: ({ filters = {}, sortBy, ...args }, state) => {
+    const threads = state.threads.filter((t) => threadMatchesFilters(state, t, filters));
+    // statusChangedAt is the thread's updatedAt here
+    if (sortBy?.field === "STATUS_CHANGED_AT") {
+      threads.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt) * (sortBy.direction === "DESC" ? -1 : 1));
+    }
+    return connection(threads.map((t) => threadView(state, t.id)!), args);
+  },
+  searchThreads: ({ searchQuery, filters = {}, ...args }, state) => {
+    const term = String(searchQuery?.term ?? "").toLowerCase();
+    const hits = state.threads.filter((t) => {
+      if (!threadMatchesFilters(state, t, filters)) return false;
+      const entries = state.timelineEntries.filter((e) => e.threadId === t.id).map((e) => entryText(e.entry));
+      return [t.title, t.description, t.previewText, ...entries].some((text) => text?.toLowerCase().includes(term));
+    });
+    return connection(hits.map((t) => ({ __typename: "ThreadSearchResult", id: t.id, thread: threadView(state, t.id) })), args);
+  },
+  thread: ({ threadId }, state) => threadView(state, threadId),
+
+  timelineEntries: ({ customerId, ...args }, state) => {
+    const entries = state.timelineEntries
+      .filter((e) => e.customerId === customerId)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map((e) => timelineEntryView(state, e));
+    return connection(entries, args);
+  },
+
+  company: ({ companyId }, state) => companyView(state, companyId),
+  companies: (args, state) => connection(state.companies.map((c) => companyView(state, c.id)!), args),
+  searchCompanies: ({ searchQuery, ...args }, state) => {
+    const term = String(searchQuery?.term ?? "").toLowerCase();
+    const hits = state.companies.filter((c) => [c.name, c.domainName].some((text) => text?.toLowerCase().includes(term)));
+    return connection(hits.map((c) => ({ __typename: "CompanySearchResult", id: c.id, company: companyView(state, c.id) })), args);
+  },
+  tenant: ({ tenantId }, state) => tenantView(state, tenantId),
+  tenants: (args, state) => connection(state.tenants.map((t) => tenantView(state, t.id)!), args),
+  knowledgeSource: ({ knowledgeSourceId }, state) => {
+    const knowledgeSource = state.knowledgeSources.find((k) => k.id === knowledgeSourceId);
+    return knowledgeSource ? { __typename: "KnowledgeSourceUrl", ...knowledgeSource } : null;
+  },
+
+  labelTypes: (args, state) => connection(state.labelTypes.map((l) => labelTypeView(state, l.id)!), args),
+  snippets: (args, state) => connection(state.snippets.map(withDates), args),
+  snippet: ({ snippetId }, state) => findWithDates(state.snippets, snippetId),
+  webhookTarget: ({ webhookTargetId }, state) => findWithDates(state.webhookTargets, webhookTargetId),
+  webhookTargets: (args, state) =>
+    connection(
+      state.webhookTargets.map((w) => ({
+        ...withDates(w),
+        eventSubscriptions: w.eventTypes.map((eventType) => ({ eventType })),
+      })),
+      args
+    ),
+  autoresponders: (args, state) => connection(state.autoresponders.map(withDates), args),
+  autoresponder: ({ autoresponderId }, state) => findWithDates(state.autoresponders, autoresponderId),
+  tiers: (args, state) => connection(state.tiers.map(withDates), args),
+  tier: ({ tierId }, state) => findWithDates(state.tiers, tierId),
+  customerGroups: (args, state) => connection(state.customerGroups.map(withDates), args),
+  threadFieldSchemas: (args, state) => connection(state.threadFieldSchemas, args),
+};
+
+// =============================================================================
+// MUTATIONS
+// =============================================================================
+
+const mutation: Record<string, Resolver> = {
+  // Help centers
+  createHelpCenter: ({ input }, state) => {
+    const id = mintId(state, "hc");
+    state.helpCenters.push({
+      id,
+      publicName: input.publicName,
+      internalName: input.internalName,
+      type: input.type,
+      description: input.description ?? null,
+      subdomain: input.subdomain,
+      customDomainName: null,
+      indexHash: "hash_1",
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return ok({ helpCenter: helpCenterView(state, id) });
+  },
+  updateHelpCenter: ({ input }, state) => {
+    const helpCenter = state.helpCenters.find((hc) => hc.id === input.helpCenterId);
+    if (!helpCenter) return fail("Help center not found");
+    if (input.publicName) helpCenter.publicName = input.publicName;
+    if (input.internalName) helpCenter.internalName = input.internalName;
+    if (input.description) helpCenter.description = input.description;
+    helpCenter.updatedAt = now();
+    return ok({ helpCenter: helpCenterView(state, helpCenter.id) });
+  },
+  deleteHelpCenter: ({ input }, state) =>
+    removeById(state.helpCenters, input.helpCenterId) ? ok() : fail("Help center not found"),
+  updateHelpCenterCustomDomainName: ({ input }, state) => {
+    const helpCenter = state.helpCenters.find((hc) => hc.id === input.helpCenterId);
+    if (!helpCenter) return fail("Help center not found");
+    helpCenter.customDomainName = input.customDomainName;
+    return ok({ helpCenter: helpCenterView(state, helpCenter.id) });
+  },
+  verifyHelpCenterCustomDomainName: ({ input }, state) => {
+    const helpCenter = state.helpCenters.find((hc) => hc.id === input.helpCenterId);
+    if (!helpCenter) return fail("Help center not found");
+    if (!helpCenter.customDomainName) return fail("No custom domain configured", "custom_domain_not_set");
+    return ok({ helpCenter: helpCenterView(state, helpCenter.id) });
+  },
+  updateHelpCenterIndex: ({ input }, state) => {
+    const helpCenter = state.helpCenters.find((hc) => hc.id === input.helpCenterId);
+    if (!helpCenter) return fail("Help center not found");
+    if (input.hash !== helpCenter.indexHash) return fail("Index hash is stale", "stale_hash");
+    helpCenter.indexHash = mintId(state, "hash");
+    return ok({ helpCenterIndex: { hash: helpCenter.indexHash } });
+  },
+
+  // Help center articles
+  upsertHelpCenterArticle: ({ input }, state) => {
+    if (!input.description) {
+      return fail("Input validation failed", "input_validation", [
+        { field: "description", message: "Description is required", type: "REQUIRED" },
+      ]);
+    }
+    let article = state.articles.find((a) => a.id === input.helpCenterArticleId);
+    if (input.helpCenterArticleId && !article) return fail("Article not found");
+    if (!article) {
+      article = {
+        id: mintId(state, "art"),
+        helpCenterId: input.helpCenterId,
+        groupId: null,
+        title: input.title,
+        slug: "",
+        status: "DRAFT",
+        description: input.description,
+        contentHtml: "",
+        createdAt: now(),
+        updatedAt: now(),
+      };
+      state.articles.push(article);
+    }
+    article.title = input.title;
+    article.slug = input.slug || input.title.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    article.status = input.status;
+    article.description = input.description;
+    article.contentHtml = input.contentHtml;
+    article.groupId = input.helpCenterArticleGroupId ?? article.groupId;
+    article.updatedAt = now();
+    return ok({ helpCenterArticle: articleView(state, article.id) });
+  },
+  deleteHelpCenterArticle: ({ input }, state) =>
+    removeById(state.articles, input.helpCenterArticleId) ? ok() : fail("Article not found"),
+  generateHelpCenterArticle: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    const id = mintId(state, "art");
+    state.articles.push({
+      id,
+      helpCenterId: input.helpCenterId,
+      groupId: null,
+      title: thread.title,
+      slug: thread.title.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+      status: "DRAFT",
+      description: thread.previewText || thread.title,
+      contentHtml: `<p>${thread.previewText || ""}</p>`,
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return ok({ helpCenterArticles: [articleView(state, id)] });
+  },
+
+  // Help center article groups
+  createHelpCenterArticleGroup: ({ input }, state) => {
+    const id = mintId(state, "grp");
+    state.articleGroups.push({
+      id,
+      helpCenterId: input.helpCenterId,
+      parentId: input.parentId ?? null,
+      name: input.name,
+      slug: input.slug || input.name.toLowerCase(),
+      createdAt: now(),
+    });
+    return ok({ articleGroup: articleGroupView(state, id) });
+  },
+  updateHelpCenterArticleGroup: ({ input }, state) => {
+    const group = state.articleGroups.find((g) => g.id === input.groupId);
+    if (!group) return fail("Article group not found");
+    if (input.name) group.name = input.name;
+    return ok({ articleGroup: articleGroupView(state, group.id) });
+  },
+  deleteHelpCenterArticleGroup: ({ input }, state) =>
+    removeById(state.articleGroups, input.groupId) ? ok() : fail("Article group not found"),
+
+  // Knowledge sources
+  createKnowledgeSource: ({ input }, state) => {
+    const knowledgeSource = { id: mintId(state, "ks"), name: input.name, url: input.url };
+    state.knowledgeSources.push(knowledgeSource);
+    return ok({ knowledgeSource });
+  },
+  deleteKnowledgeSource: ({ input }, state) =>
+    removeById(state.knowledgeSources, input.knowledgeSourceId) ? ok() : fail("Knowledge source not found"),
+
+  // Customers
+  upsertCustomer: ({ input }, state) => {
+    const email = input.identifier?.emailAddress;
+    const fields = { ...input, ...input.onCreate, ...input.onUpdate };
+    let customer = state.customers.find((c) => c.email === email);
+    let result = "UPDATED";
+    if (!customer) {
+      result = "CREATED";
+      customer = {
+        id: mintId(state, "c"),
+        fullName: fields.fullName || email,
+        shortName: null,
+        email,
+        externalId: null,
+        companyId: null,
+        customerGroupIds: [],
+        tenantIds: [],
+        markedAsSpamAt: null,
+        createdAt: now(),
+        updatedAt: now(),
+      };
+      state.customers.push(customer);
+    }
+    if (fields.fullName) customer.fullName = fields.fullName;
+    if (fields.shortName) customer.shortName = fields.shortName;
+    if (fields.externalId) customer.externalId = fields.externalId;
+    customer.updatedAt = now();
+    return ok({ result, customer: customerView(state, customer.id) });
+  },
+  deleteCustomer: ({ input }, state) =>
+    removeById(state.customers, input.customerId) ? ok() : fail("Customer not found"),
+  markCustomerAsSpam: ({ input }, state) => {
+    const customer = state.customers.find((c) => c.id === input.customerId);
+    if (!customer) return fail("Customer not found");
+    customer.markedAsSpamAt = now();
+    return ok({ customer: customerView(state, customer.id) });
+  },
+  unmarkCustomerAsSpam: ({ input }, state) => {
+    const customer = state.customers.find((c) => c.id === input.customerId);
+    if (!customer) return fail("Customer not found");
+    customer.markedAsSpamAt = null;
+    return ok({ customer: customerView(state, customer.id) });
+  },
+  createCustomerEvent: ({ input }, state) => {
+    if (!state.customers.some((c) => c.id === input.customerId)) return fail("Customer not found");
+    const event = { id: mintId(state, "ev"), kind: "customer" as const, targetId: input.customerId, title: input.title };
+    state.events.push(event);
+    return ok({ customerEvent: { id: event.id } });
+  },
+
+  // Customer groups
+  createCustomerGroup: ({ input }, state) => {
+    const group = { id: mintId(state, "cg"), name: input.name, key: input.key, color: input.color ?? null, createdAt: now() };
+    state.customerGroups.push(group);
+    return ok({ customerGroup: withDates(group) });
+  },
+  addCustomerToCustomerGroups: ({ input }, state) => {
+    const customer = state.customers.find((c) => c.id === input.customerId);
+    if (!customer) return fail("Customer not found");
+    for (const id of input.customerGroupIds) {
+      if (!customer.customerGroupIds.includes(id)) customer.customerGroupIds.push(id);
+    }
+    return ok();
+  },
+  removeCustomerFromCustomerGroups: ({ input }, state) => {
+    const customer = state.customers.find((c) => c.id === input.customerId);
+    if (!customer) return fail("Customer not found");
+    customer.customerGroupIds = customer.customerGroupIds.filter((id) => !input.customerGroupIds.includes(id));
+    return ok();
+  },
+  addCustomerToTenants: ({ input }, state) => {
+    const customer = state.customers.find((c) => c.id === input.customerIdentifier.customerId);
+    if (!customer) return fail("Customer not found");
+    for (const { tenantId } of input.tenantIdentifiers) {
+      if (!state.tenants.some((t) => t.id === tenantId)) return fail("Tenant not found");
+      if (!customer.tenantIds.includes(tenantId)) customer.tenantIds.push(tenantId);
+    }
+    return ok();
+  },
+  removeCustomerFromTenants: ({ input }, state) => {
+    const customer = state.customers.find((c) => c.id === input.customerIdentifier.customerId);
+    if (!customer) return fail("Customer not found");
+    const tenantIds = input.tenantIdentifiers.map((identifier: any) => identifier.tenantId);
+    customer.tenantIds = customer.tenantIds.filter((id) => !tenantIds.includes(id));
+    return ok();
+  },
+
+  // Threads
+  createThread: ({ input }, state) => {
+    if (!state.customers.some((c) => c.id === input.customerId)) {
+      return fail("Customer not found", "not_found", [{ field: "customerId", message: "Customer not found", type: "NOT_FOUND" }]);
+    }
+    const id = mintId(state, "th");
+    state.threads.push({
+      id,
+      ref: `T-${state.threads.length + 1}`,
+      customerId: input.customerId,
+      title: input.title,
+      description: input.description ?? null,
+      previewText: null,
+      status: "TODO",
+      statusDetail: "CREATED",
+      priority: input.priority ?? 2,
+      labelTypeIds: input.labelTypeIds ?? [],
+      assignedToUserId: null,
+      tierId: null,
+      tenantId: null,
+      threadFields: [],
+      createdAt: now(),
+      updatedAt: now(),
+    });
+    return ok({ thread: threadView(state, id) });
+  },
+  assignThread: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    if (!state.users.some((u) => u.id === input.userId)) return fail("User not found");
+    thread.assignedToUserId = input.userId;
+    thread.updatedAt = now();
+    return ok({ thread: threadView(state, thread.id) });
+  },
+  unassignThread: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    thread.assignedToUserId = null;
+    thread.updatedAt = now();
+    return ok({ thread: threadView(state, thread.id) });
+  },
+  changeThreadPriority: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    thread.priority = input.priority;
+    thread.updatedAt = now();
+    return ok({ thread: threadView(state, thread.id) });
+  },
+  updateThreadTitle: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    thread.title = input.title;
+    thread.updatedAt = now();
+    return ok({ thread: threadView(state, thread.id) });
+  },
+  deleteThread: ({ input }, state) => {
+    if (!removeById(state.threads, input.threadId)) return fail("Thread not found");
+    state.timelineEntries = state.timelineEntries.filter((e) => e.threadId !== input.threadId);
+    return ok();
+  },
+  createThreadEvent: ({ input }, state) => {
+    if (!state.threads.some((t) => t.id === input.threadId)) return fail("Thread not found");
+    const event = { id: mintId(state, "ev"), kind: "thread" as const, targetId: input.threadId, title: input.title };
+    state.events.push(event);
+    addTimelineEntry(state, input.threadId, { type: "machineUser", id: "mu_mock" }, {
+      __typename: "CustomEntry",
+      title: input.title,
+      components: (input.components || [])
+        .filter((c: any) => c.componentText)
+        .map((c: any) => ({ __typename: "ComponentText", text: c.componentText.text })),
+    });
+    return ok({ threadEvent: { id: event.id } });
+  },
+  markThreadAsDone: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    thread.status = "DONE";
+    thread.statusDetail = "DONE_MANUALLY_SET";
+    thread.updatedAt = now();
+    return ok({ thread: threadView(state, thread.id) });
+  },
+  markThreadAsTodo: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    thread.status = "TODO";
+    thread.statusDetail = input.statusDetail ?? "IN_PROGRESS";
+    thread.updatedAt = now();
+    return ok({ thread: threadView(state, thread.id) });
+  },
+  snoozeThread: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    if (input.statusDetail === "WAITING_FOR_CUSTOMER" && input.durationSeconds) {
+      return fail("Input validation failed", "input_validation", [
+        { field: "durationSeconds", message: "Cannot be set when waiting for customer", type: "VALIDATION" },
+      ]);
+    }
+    thread.status = "SNOOZED";
+    thread.statusDetail = input.statusDetail;
+    thread.updatedAt = now();
+    return ok({ thread: threadView(state, thread.id) });
+  },
+  replyToThread: ({ input }, state) => {
+    if (!state.threads.some((t) => t.id === input.threadId)) return fail("Thread not found");
+    addTimelineEntry(state, input.threadId, { type: "machineUser", id: "mu_mock" }, {
+      __typename: "ChatEntry",
+      chatId: mintId(state, "ch"),
+      text: input.textContent,
+    });
+    return ok();
+  },
+  createNote: ({ input }, state) => {
+    if (!state.threads.some((t) => t.id === input.threadId)) return fail("Thread not found");
+    const note = { __typename: "Note", id: mintId(state, "no"), text: input.text, markdown: input.markdown ?? null };
+    addTimelineEntry(state, input.threadId, { type: "machineUser", id: "mu_mock" }, {
+      __typename: "NoteEntry",
+      noteId: note.id,
+      text: note.text,
+    });
+    return ok({ note });
+  },
+  deleteNote: ({ input }, state) => {
+    const index = state.timelineEntries.findIndex((e) => e.entry.noteId === input.noteId);
+    if (index < 0) return fail("Note not found");
+    state.timelineEntries.splice(index, 1);
+    return ok();
+  },
+  upsertThreadField: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    if (!state.threadFieldSchemas.some((s) => s.key === input.key)) {
+      return fail("Unknown thread field", "not_found", [{ field: "key", message: "No schema with this key", type: "NOT_FOUND" }]);
+    }
+    thread.threadFields = [...thread.threadFields.filter((f) => f.key !== input.key), { key: input.key, stringValue: input.stringValue }];
+    return ok({ threadField: { key: input.key, value: input.stringValue } });
+  },
+
+  // Labels
+  createLabelType: ({ input }, state) => {
+    const id = mintId(state, "lt");
+    state.labelTypes.push({ id, name: input.name, icon: input.icon ?? null, isArchived: false, createdAt: now() });
+    return ok({ labelType: labelTypeView(state, id) });
+  },
+  addLabels: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    for (const id of input.labelTypeIds) {
+      if (!thread.labelTypeIds.includes(id)) thread.labelTypeIds.push(id);
+    }
+    return ok({ labels: threadView(state, thread.id)!.labels });
+  },
+  removeLabels: ({ input }, state) => {
+    const thread = state.threads.find((t) => t.id === input.threadId);
+    if (!thread) return fail("Thread not found");
+    thread.labelTypeIds = thread.labelTypeIds.filter((id) => !input.labelTypeIds.includes(id));
+    return ok();
+  },
+
+  // Companies & tenants
+  upsertCompany: ({ input }, state) => {
+    let company = state.companies.find((c) => c.name === input.name);
+    if (!company) {
+      company = { id: mintId(state, "co"), name: input.name, domainName: null, externalId: null, tierId: null, createdAt: now(), updatedAt: now() };
+      state.companies.push(company);
+    }
+    if (input.domainName) company.domainName = input.domainName;
+    if (input.externalId) company.externalId = input.externalId;
+    company.updatedAt = now();
+    return ok({ company: companyView(state, company.id) });
+  },
+  deleteCompany: ({ input }, state) =>
+    removeById(state.companies, input.companyId) ? ok() : fail("Company not found"),
+  upsertTenant: ({ input }, state) => {
+    let tenant = state.tenants.find((t) => t.identifier === input.identifier);
+    if (!tenant) {
+      tenant = { id: mintId(state, "te"), identifier: input.identifier, name: input.name, externalId: null, createdAt: now(), updatedAt: now() };
+      state.tenants.push(tenant);
+    }
+    tenant.name = input.name;
+    if (input.externalId) tenant.externalId = input.externalId;
+    tenant.updatedAt = now();
+    return ok({ tenant: withDates(tenant) });
+  },
+  deleteTenant: ({ input }, state) =>
+    removeById(state.tenants, input.tenantId) ? ok() : fail("Tenant not found"),
+
+  // Snippets
+  createSnippet: ({ input }, state) => {
+    const snippet = { id: mintId(state, "sn"), name: input.name, text: input.text, createdAt: now() };
+    state.snippets.push(snippet);
+    return ok({ snippet: withDates(snippet) });
+  },
+  updateSnippet: ({ input }, state) => {
+    const snippet = state.snippets.find((s) => s.id === input.snippetId);
+    if (!snippet) return fail("Snippet not found");
+    if (input.name) snippet.name = input.name;
+    if (input.text) snippet.text = input.text;
+    return ok({ snippet: withDates(snippet) });
+  },
+  deleteSnippet: ({ input }, state) =>
+    removeById(state.snippets, input.snippetId) ? ok() : fail("Snippet not found"),
+
+  // Webhooks
+  createWebhookTarget: ({ input }, state) => {
+    const webhookTarget = {
+      id: mintId(state, "wh"),
+      url: input.url,
+      isEnabled: input.isEnabled,
+      eventTypes: input.eventSubscriptions.map((s: any) => s.eventType),
+      createdAt: now(),
+    };
+    state.webhookTargets.push(webhookTarget);
+    return ok({ webhookTarget: withDates(webhookTarget) });
+  },
+  updateWebhookTarget: ({ input }, state) => {
+    const webhookTarget = state.webhookTargets.find((w) => w.id === input.webhookTargetId);
+    if (!webhookTarget) return fail("Webhook target not found");
+    if (input.url) webhookTarget.url = input.url;
+    if (input.eventSubscriptions) webhookTarget.eventTypes = input.eventSubscriptions.map((s: any) => s.eventType);
+    if (input.isEnabled !== undefined) webhookTarget.isEnabled = input.isEnabled;
+    return ok({ webhookTarget: withDates(webhookTarget) });
+  },
+  deleteWebhookTarget: ({ input }, state) =>
+    removeById(state.webhookTargets, input.webhookTargetId) ? ok() : fail("Webhook target not found"),
+
+  // Messaging
+  sendNewEmail: ({ input }, state) => {
+    const created = mutation.createThread!({ input: { customerId: input.customerId, title: input.subject } }, state);
+    if (created.error) return created;
+    addTimelineEntry(state, created.thread.id, { type: "machineUser", id: "mu_mock" }, {
+      __typename: "EmailEntry",
+      emailId: mintId(state, "em"),
+      subject: input.subject,
+      textContent: input.textContent,
+      from: { email: "support@mock.dev", name: "Mock Support" },
+      to: { email: state.customers.find((c) => c.id === input.customerId)!.email, name: null },
+    });
+    return ok({ thread: created.thread });
+  },
+  sendChat: ({ input }, state) => {
+    if (!state.customers.some((c) => c.id === input.customerId)) return fail("Customer not found");
+    const thread = state.threads.find((t) => t.customerId === input.customerId && t.status !== "DONE");
+    if (!thread) return fail("No open thread for customer", "thread_not_found");
+    addTimelineEntry(state, thread.id, { type: "machineUser", id: "mu_mock" }, {
+      __typename: "ChatEntry",
+      chatId: mintId(state, "ch"),
+      text: input.text,
+    });
+    return ok({ thread: threadView(state, thread.id) });
+  },
+
+  // Autoresponders
+  createAutoresponder: ({ input }, state) => {
+    const autoresponder = { id: mintId(state, "ar"), name: input.name, isEnabled: input.isEnabled, textContent: input.textContent, createdAt: now() };
+    state.autoresponders.push(autoresponder);
+    return ok({ autoresponder: withDates(autoresponder) });
+  },
+  deleteAutoresponder: ({ input }, state) =>
+    removeById(state.autoresponders, input.autoresponderId) ? ok() : fail("Autoresponder not found"),
+
+  // Tiers
+  createTier: ({ input }, state) => {
+    const tier = { id: mintId(state, "tier"), name: input.name, color: input.color ?? null, createdAt: now() };
+    state.tiers.push(tier);
+    return ok({ tier: withDates(tier) });
+  },
+  deleteTier: ({ input }, state) =>
+    removeById(state.tiers, input.tierId) ? ok() : fail("Tier not found"),
+};
+
+export const resolvers: Record<"query" | "mutation", Record<string, Resolver>> = { query, mutation };
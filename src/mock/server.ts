@@ -0,0 +1,234 @@
+#!/usr/bin/env bun
+/**
+ * Offline stand-in for the Plain GraphQL API.
+ *
+ * Parses incoming documents with `graphql`, resolves each root field against an
+ * in-memory fixture state and projects the result through the selection set,
+ * so aliases, fragments and inline fragments behave like the real API.
+ *
+ * Run standalone with: bun run src/mock/server.ts
+ * then start plain-mcp with PLAIN_API_URL pointing at the printed URL.
+ */
+
+import {
+  parse,
+  Kind,
+  valueFromASTUntyped,
+  type FieldNode,
+  type FragmentDefinitionNode,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+} from "graphql";
+import { createFixtures, type MockState } from "./fixtures.ts";
+import { resolvers } from "./resolvers.ts";
+
+export interface MockFailure {
+  // Respond with this HTTP status instead of executing the operation
+  status?: number;
+  // Extra response headers, e.g. Retry-After on a 429
+  headers?: Record<string, string>;
+  message: string;
+  code?: string;
+  fields?: { field: string; message: string; type?: string }[];
+}
+
+export interface MockCall {
+  operation: "query" | "mutation";
+  operationName?: string;
+  field: string;
+  args: Record<string, any>;
+}
+
+export interface MockPlain {
+  url: string;
+  state: MockState;
+  calls: MockCall[];
+  // Make the next call to a root field fail (mutation error, or HTTP error if status is set)
+  failNext(field: string, failure: MockFailure): void;
+  // Restore the seed fixtures and clear recorded calls
+  reset(): void;
+  stop(): void;
+}
+
+// Interfaces and unions: fragments on these apply to any concrete __typename
+const ABSTRACT_TYPES = new Set([
+  "Actor",
+  "ThreadAssignee",
+  "ThreadStatusDetail",
+  "Entry",
+  "CustomEntryComponent",
+]);
+
+interface ExecutionContext {
+  variables: Record<string, any>;
+  fragments: Record<string, FragmentDefinitionNode>;
+}
+
+function typeMatches(value: any, typeCondition?: string): boolean {
+  if (!typeCondition || !value.__typename) return true;
+  return value.__typename === typeCondition || ABSTRACT_TYPES.has(typeCondition);
+}
+
+function fieldArgs(field: FieldNode, variables: Record<string, any>): Record<string, any> {
+  const args: Record<string, any> = {};
+  for (const arg of field.arguments || []) {
+    args[arg.name.value] = valueFromASTUntyped(arg.value, variables);
+  }
+  return args;
+}
+
+// The same field can be selected by several fragments; merge their projections
+function merge(target: any, source: any): any {
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return target.map((item, i) => merge(item, source[i]));
+  }
+  if (target && source && typeof target === "object" && typeof source === "object") {
+    for (const [key, value] of Object.entries(source)) {
+      target[key] = key in target ? merge(target[key], value) : value;
+    }
+    return target;
+  }
+  return source ?? target;
+}
+
+function project(value: any, selectionSet: SelectionSetNode | undefined, ctx: ExecutionContext): any {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.map((item) => project(item, selectionSet, ctx));
+  if (!selectionSet || typeof value !== "object") return value;
+
+  const out: Record<string, any> = {};
+  collect(value, selectionSet, out, ctx);
+  return out;
+}
+
+function collect(value: any, selectionSet: SelectionSetNode, out: Record<string, any>, ctx: ExecutionContext): void {
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      const name = selection.name.value;
+      const key = selection.alias?.value ?? name;
+      let fieldValue = name === "__typename" ? value.__typename ?? null : value[name];
+      if (typeof fieldValue === "function") {
+        fieldValue = fieldValue(fieldArgs(selection, ctx.variables));
+      }
+      const projected = project(fieldValue, selection.selectionSet, ctx);
+      out[key] = key in out ? merge(out[key], projected) : projected;
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      if (typeMatches(value, selection.typeCondition?.name.value)) {
+        collect(value, selection.selectionSet, out, ctx);
+      }
+    } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      const fragment = ctx.fragments[selection.name.value];
+      if (fragment && typeMatches(value, fragment.typeCondition.name.value)) {
+        collect(value, fragment.selectionSet, out, ctx);
+      }
+    }
+  }
+}
+
+function mutationError(failure: MockFailure) {
+  return {
+    __typename: "MutationError",
+    message: failure.message,
+    type: "VALIDATION",
+    code: failure.code || "input_validation",
+    fields: (failure.fields || []).map((f) => ({ type: "VALIDATION", ...f })),
+  };
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "apigw-requestid": `mock-${crypto.randomUUID()}`, ...headers },
+  });
+}
+
+export function startMockPlain(options: { port?: number; apiKey?: string } = {}): MockPlain {
+  let state = createFixtures();
+  const calls: MockCall[] = [];
+  const failures = new Map<string, MockFailure[]>();
+
+  async function handle(req: Request): Promise<Response> {
+    const token = req.headers.get("authorization")?.replace(/^Bearer\s*/, "");
+    if (!token || (options.apiKey && token !== options.apiKey)) {
+      return json(401, { errors: [{ message: "Authentication failed" }] });
+    }
+
+    let body: { query?: string; variables?: Record<string, any> | null; operationName?: string };
+    try {
+      body = (await req.json()) as typeof body;
+    } catch {
+      return json(400, { errors: [{ message: "Invalid JSON body" }] });
+    }
+
+    let document;
+    try {
+      document = parse(body.query || "");
+    } catch (error: any) {
+      return json(400, { errors: [{ message: error.message }] });
+    }
+
+    const fragments: Record<string, FragmentDefinitionNode> = {};
+    let operation: OperationDefinitionNode | undefined;
+    for (const def of document.definitions) {
+      if (def.kind === Kind.FRAGMENT_DEFINITION) fragments[def.name.value] = def;
+      if (def.kind === Kind.OPERATION_DEFINITION && !operation) operation = def;
+    }
+    if (!operation || operation.operation === "subscription") {
+      return json(400, { errors: [{ message: "Only queries and mutations are supported" }] });
+    }
+
+    const ctx: ExecutionContext = { variables: body.variables || {}, fragments };
+    const data: Record<string, any> = {};
+
+    for (const selection of operation.selectionSet.selections) {
+      if (selection.kind !== Kind.FIELD) continue;
+      const field = selection.name.value;
+      const key = selection.alias?.value ?? field;
+      const args = fieldArgs(selection, ctx.variables);
+      calls.push({ operation: operation.operation, operationName: operation.name?.value, field, args });
+
+      const failure = failures.get(field)?.shift();
+      if (failure?.status) {
+        return json(failure.status, { errors: [{ message: failure.message }] }, failure.headers);
+      }
+      if (failure) {
+        data[key] = project({ error: mutationError(failure) }, selection.selectionSet, ctx);
+        continue;
+      }
+
+      const resolver = resolvers[operation.operation][field];
+      if (!resolver) {
+        return json(400, { errors: [{ message: `Mock has no resolver for ${operation.operation} field "${field}"` }] });
+      }
+      data[key] = project(resolver(args, state), selection.selectionSet, ctx);
+    }
+
+    return json(200, { data });
+  }
+
+  const server = Bun.serve({ hostname: "127.0.0.1", port: options.port ?? 0, fetch: handle });
+
+  return {
+    url: `http://127.0.0.1:${server.port}/graphql/v1`,
+    get state() {
+      return state;
+    },
+    calls,
+    failNext(field, failure) {
+      failures.set(field, [...(failures.get(field) || []), failure]);
+    },
+    reset() {
+      state = createFixtures();
+      calls.length = 0;
+      failures.clear();
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+}
+
+if (import.meta.main) {
+  const mock = startMockPlain({ port: Number(process.env.PORT) || 4010 });
+  console.error(`Mock Plain API listening on ${mock.url}`);
+}
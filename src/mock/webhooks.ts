@@ -0,0 +1,107 @@
+/**
+ * Recorded Plain webhook deliveries for the webhook listener tests. They must
+ * pass the SDK's schema validation, so IDs keep Plain's ULID format rather than
+ * the mock fixtures' short IDs. Tests refresh the delivery attempt timestamp
+ * and sign each body before posting it.
+ */
+
+import type {
+  CustomerCreatedPublicEventPayload,
+  ThreadCreatedPublicEventPayload,
+  WebhooksSchemaDefinition,
+} from "@team-plain/typescript-sdk";
+
+const customerActor = { actorType: "customer", customerId: "c_01HM2Q8W4N7ZJ3X5V9K2T6R8PB" } as const;
+const userActor = { actorType: "user", userId: "u_01HKZ7D1A3M9Q5W8E2R4T6Y0PC" } as const;
+const systemActor = { actorType: "system", system: "workflow" } as const;
+
+const jane: CustomerCreatedPublicEventPayload["customer"] = {
+  id: "c_01HM2Q8W4N7ZJ3X5V9K2T6R8PB",
+  email: { email: "jane@example.com", isVerified: true, verifiedAt: "2024-01-10T09:00:00.000Z" },
+  externalId: "ext-jane",
+  fullName: "Jane Doe",
+  shortName: "Jane",
+  markedAsSpamAt: null,
+  markedAsSpamBy: null,
+  customerGroupMemberships: [],
+  createdAt: "2024-01-10T09:00:00.000Z",
+  createdBy: systemActor,
+  updatedAt: "2024-01-10T09:00:00.000Z",
+  updatedBy: systemActor,
+};
+
+const loginThread: ThreadCreatedPublicEventPayload["thread"] = {
+  id: "th_01HR3C9K7F2M5N8P1Q4S6V9XZD",
+  customer: jane,
+  title: "Cannot log in",
+  previewText: "I keep getting an invalid password error",
+  priority: 1,
+  externalId: null,
+  status: "TODO",
+  statusChangedAt: "2024-03-01T10:00:00.000Z",
+  statusChangedBy: customerActor,
+  statusDetail: { type: "CREATED", createdAt: "2024-03-01T10:00:00.000Z" },
+  assignee: null,
+  assignedAt: null,
+  labels: [],
+  firstInboundMessageInfo: { timestamp: "2024-03-01T10:00:00.000Z", messageSource: "EMAIL" },
+  firstOutboundMessageInfo: null,
+  lastInboundMessageInfo: { timestamp: "2024-03-01T10:00:00.000Z", messageSource: "EMAIL" },
+  lastOutboundMessageInfo: null,
+  supportEmailAddresses: ["help@mock.dev"],
+  createdAt: "2024-03-01T10:00:00.000Z",
+  createdBy: customerActor,
+  updatedAt: "2024-03-01T10:00:00.000Z",
+  updatedBy: customerActor,
+};
+
+function metadata(attemptId: string) {
+  return {
+    webhookTargetId: "whTarget_01HQ0A2B4C6D8E0F2G4H6J8K0M",
+    webhookTargetVersion: "2025-08-06",
+    webhookDeliveryAttemptId: attemptId,
+    webhookDeliveryAttemptNumber: 1,
+    webhookDeliveryAttemptTimestamp: "2024-03-01T11:00:01.000Z",
+  } as const;
+}
+
+export const threadCreatedDelivery: WebhooksSchemaDefinition = {
+  id: "pEv_01HR3C9K8A0B2C4D6E8F0G2H4J",
+  type: "thread.thread_created",
+  timestamp: "2024-03-01T10:00:00.000Z",
+  workspaceId: "w_01HKZ6Y0B2N8P4Q6R8S0T2V4WE",
+  payload: { eventType: "thread.thread_created", thread: loginThread },
+  webhookMetadata: metadata("whAttempt_01HR3C9KA1B3C5D7E9F1G3H5J7"),
+};
+
+export const threadStatusTransitionedDelivery: WebhooksSchemaDefinition = {
+  id: "pEv_01HR3GE5T0V2W4X6Y8Z0A2B4C6",
+  type: "thread.thread_status_transitioned",
+  timestamp: "2024-03-01T11:00:00.000Z",
+  workspaceId: "w_01HKZ6Y0B2N8P4Q6R8S0T2V4WE",
+  payload: {
+    eventType: "thread.thread_status_transitioned",
+    previousThread: loginThread,
+    thread: {
+      ...loginThread,
+      status: "DONE",
+      statusChangedAt: "2024-03-01T11:00:00.000Z",
+      statusChangedBy: userActor,
+      statusDetail: { type: "DONE_MANUALLY_SET" },
+      assignee: { id: "u_01HKZ7D1A3M9Q5W8E2R4T6Y0PC" },
+      assignedAt: "2024-03-01T10:30:00.000Z",
+      updatedAt: "2024-03-01T11:00:00.000Z",
+      updatedBy: userActor,
+    },
+  },
+  webhookMetadata: metadata("whAttempt_01HR3GE5V1W3X5Y7Z9A1B3C5D7"),
+};
+
+export const customerCreatedDelivery: WebhooksSchemaDefinition = {
+  id: "pEv_01HM2Q8W5B7C9D1E3F5G7H9J1K",
+  type: "customer.customer_created",
+  timestamp: "2024-01-10T09:00:00.000Z",
+  workspaceId: "w_01HKZ6Y0B2N8P4Q6R8S0T2V4WE",
+  payload: { eventType: "customer.customer_created", customer: jane },
+  webhookMetadata: metadata("whAttempt_01HM2Q8W6C8D0E2F4G6H8J0K2M"),
+};
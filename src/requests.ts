@@ -0,0 +1,242 @@
+/**
+ * Request policy shared by every call to the Plain API: a per-API-key
+ * concurrency limit, exponential backoff with jitter, and rate-limit headers.
+ *
+ * The SDK sends requests with the global fetch and hides HTTP details from its
+ * callers. It swallows a 429 or 503 as `{ data: undefined }`, for example. So
+ * the policy runs as a fetch hook, and it only handles URLs registered through
+ * createPlainClient(). Retries are limited to queries and to mutations that are
+ * safe to repeat.
+ */
+
+import { PlainClient } from "@team-plain/typescript-sdk";
+
+export interface RequestPolicy {
+  // In-flight requests allowed per API key; extra requests queue
+  maxConcurrent: number;
+  // Retries after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest single wait; a Retry-After beyond this fails instead of blocking the tool
+  maxDelayMs: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  maxConcurrent: 4,
+  maxRetries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 15_000,
+};
+
+// Matches the SDK's default endpoint
+const DEFAULT_API_URL = "https://core-api.uk.plain.com/graphql/v1";
+
+// Mutations that leave the same end state when repeated, so a retry after an ambiguous failure is harmless
+const IDEMPOTENT_MUTATIONS = new Set([
+  "upsertCustomer",
+  "upsertCompany",
+  "upsertTenant",
+  "upsertHelpCenterArticle",
+  "upsertThreadField",
+  "markThreadAsDone",
+  "markThreadAsTodo",
+  "snoozeThread",
+  "assignThread",
+  "unassignThread",
+  "changeThreadPriority",
+  "updateThreadTitle",
+  "markCustomerAsSpam",
+  "unmarkCustomerAsSpam",
+  "updateHelpCenter",
+  "updateHelpCenterArticleGroup",
+  "updateHelpCenterCustomDomainName",
+  "verifyHelpCenterCustomDomainName",
+  "updateSnippet",
+  "updateWebhookTarget",
+]);
+
+// Thrown from the fetch hook for failures the SDK would otherwise swallow
+export class PlainRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "PlainRequestError";
+  }
+}
+
+type Fetch = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+interface KeyState {
+  active: number;
+  waiting: (() => void)[];
+  // Set from rate-limit headers; new requests for this key wait until then
+  pausedUntil: number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// A request may be retried when it's a query, or a mutation on the idempotent list
+export function isRetrySafe(body: unknown): boolean {
+  if (typeof body !== "string") return false;
+  let query: unknown;
+  try {
+    query = JSON.parse(body).query;
+  } catch {
+    return false;
+  }
+  if (typeof query !== "string") return false;
+
+  const mutation = query.match(/^\s*mutation\b[^{]*\{\s*(\w+)/);
+  if (mutation) return IDEMPOTENT_MUTATIONS.has(mutation[1]!);
+  return !/^\s*subscription\b/.test(query);
+}
+
+// Retry-After is either seconds or an HTTP date
+function retryAfterMs(headers: Headers): number | null {
+  const value = headers.get("retry-after");
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// X-RateLimit-Reset is either epoch seconds or seconds from now
+function rateLimitResetMs(headers: Headers): number | null {
+  if (headers.get("x-ratelimit-remaining") !== "0") return null;
+  const reset = Number(headers.get("x-ratelimit-reset"));
+  if (!reset) return null;
+  return Math.max(0, reset > 1e9 ? reset * 1000 - Date.now() : reset * 1000);
+}
+
+function backoffMs(policy: RequestPolicy, attempt: number): number {
+  const exponential = policy.baseDelayMs * 2 ** attempt;
+  return Math.min(policy.maxDelayMs, exponential / 2 + Math.random() * (exponential / 2));
+}
+
+// A 500 may also be a bug that repeats, so it's only retried when the request is safe to send again
+function isRetryableStatus(status: number, retrySafe: boolean): boolean {
+  return status === 429 || status === 502 || status === 503 || status === 504 || (status === 500 && retrySafe);
+}
+
+// Wrap a fetch implementation with the policy. Exposed for tests; tools get it through createPlainClient().
+export function withRequestPolicy(baseFetch: Fetch, getPolicy: () => RequestPolicy): Fetch {
+  const keys = new Map<string, KeyState>();
+
+  async function acquire(state: KeyState): Promise<void> {
+    while (state.active >= getPolicy().maxConcurrent) {
+      await new Promise<void>((resolve) => state.waiting.push(resolve));
+    }
+    state.active++;
+    const pause = state.pausedUntil - Date.now();
+    if (pause > 0) await sleep(pause);
+  }
+
+  function release(state: KeyState): void {
+    state.active--;
+    state.waiting.shift()?.();
+  }
+
+  return async (input, init) => {
+    const policy = getPolicy();
+    const key = new Headers(init?.headers).get("authorization") || "";
+    let state = keys.get(key);
+    if (!state) {
+      state = { active: 0, waiting: [], pausedUntil: 0 };
+      keys.set(key, state);
+    }
+    const retrySafe = isRetrySafe(init?.body);
+
+    for (let attempt = 0; ; attempt++) {
+      await acquire(state);
+      let response: Response | undefined;
+      let failure: unknown;
+      try {
+        response = await baseFetch(input, init);
+      } catch (error) {
+        failure = error;
+      } finally {
+        release(state);
+      }
+
+      const canRetry = retrySafe && attempt < policy.maxRetries;
+
+      if (response) {
+        const reset = rateLimitResetMs(response.headers);
+        if (reset !== null) {
+          state.pausedUntil = Math.max(state.pausedUntil, Date.now() + Math.min(reset, policy.maxDelayMs));
+        }
+        if (!isRetryableStatus(response.status, retrySafe)) {
+          return response;
+        }
+
+        const waitMs = Math.max(retryAfterMs(response.headers) ?? 0, backoffMs(policy, attempt));
+        if (!canRetry || waitMs > policy.maxDelayMs) {
+          // The SDK reads a 500's body into an error with Plain's message and request ID
+          if (response.status === 500) return response;
+          const reason =
+            response.status === 429
+              ? `Rate limited by the Plain API (retry after ${Math.ceil(waitMs / 1000)}s)`
+              : `Plain API unavailable (HTTP ${response.status})`;
+          throw new PlainRequestError(`${reason}; gave up after ${attempt + 1} attempt(s)`, response.status);
+        }
+        await response.body?.cancel();
+        await sleep(waitMs);
+        continue;
+      }
+
+      if (!canRetry) {
+        const message = failure instanceof Error ? failure.message : String(failure);
+        throw new PlainRequestError(`Could not reach the Plain API: ${message}`);
+      }
+      await sleep(backoffMs(policy, attempt));
+    }
+  };
+}
+
+let policy: RequestPolicy = DEFAULT_REQUEST_POLICY;
+const policyUrls = new Set<string>();
+let installed = false;
+
+export function setRequestPolicy(overrides: Partial<RequestPolicy>): void {
+  policy = { ...DEFAULT_REQUEST_POLICY, ...overrides };
+}
+
+function installFetchHook(): void {
+  if (installed) return;
+  installed = true;
+  const originalFetch: Fetch = globalThis.fetch.bind(globalThis);
+  const policyFetch = withRequestPolicy(originalFetch, () => policy);
+  const hooked: Fetch = (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    return policyUrls.has(url) ? policyFetch(input, init) : originalFetch(input, init);
+  };
+  globalThis.fetch = Object.assign(hooked, globalThis.fetch);
+}
+
+// The SDK reports a throwing fetch as "Unknown error"; put the real reason back
+function surfaceRequestErrors(plain: PlainClient): PlainClient {
+  return new Proxy(plain, {
+    get(target, property) {
+      const value = Reflect.get(target, property, target);
+      if (typeof value !== "function") return value;
+      return async (...args: unknown[]) => {
+        const result = await value.apply(target, args);
+        const cause = result?.error?.err;
+        if (result?.error?.type === "unknown" && cause instanceof PlainRequestError) {
+          return { ...result, error: { ...result.error, message: cause.message } };
+        }
+        return result;
+      };
+    },
+  });
+}
+
+// A PlainClient whose requests go through the shared request policy
+export function createPlainClient(options: { apiKey: string; apiUrl?: string }): PlainClient {
+  installFetchHook();
+  policyUrls.add(options.apiUrl || DEFAULT_API_URL);
+  return surfaceRequestErrors(new PlainClient(options));
+}
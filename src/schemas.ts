@@ -0,0 +1,726 @@
+/**
+ * Output schemas for tool results, and the normalizers that build them.
+ *
+ * Threads, customers, help center articles and timeline entries have one shape
+ * wherever a tool returns them. Other Plain objects are passed through as the
+ * API returns them, so their schemas only require an ID.
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { customerSummary, type CustomerSummary } from "./customers.ts";
+
+// A Plain object returned as-is
+export const entitySchema = z.looseObject({ id: z.string() });
+
+// Mutations that return nothing but a confirmation
+export const confirmationSchema = z.object({ message: z.string() });
+
+export const customerSummarySchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+  email: z.string().nullable(),
+});
+
+export const userSummarySchema = z.object({
+  id: z.string(),
+  name: z.string().nullable(),
+});
+
+export const threadSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  status: z.string(),
+  // e.g. CREATED, NEW_REPLY or WAITING_FOR_CUSTOMER
+  statusDetail: z.string().nullable(),
+  // 0 = urgent, 1 = high, 2 = normal, 3 = low
+  priority: z.number(),
+  customer: customerSummarySchema.nullable(),
+  // Only set when a user is assigned
+  assignee: userSummarySchema.nullable(),
+  labels: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// A custom or event entry's components, with rows and containers flattened in reading order
+const componentSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({ type: z.literal("badge"), label: z.string(), color: z.string().nullable() }),
+  z.object({ type: z.literal("link_button"), label: z.string(), url: z.string() }),
+  z.object({ type: z.literal("copy_button"), value: z.string(), label: z.string().nullable() }),
+]);
+
+const attachmentSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  sizeBytes: z.number().nullable(),
+});
+
+// What a timeline entry says, by kind; `content` is the same in words
+const timelineDetailsSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("message"),
+    channel: z.enum(["chat", "email", "note", "slack", "ms_teams", "discord", "help_center_ai"]),
+    subject: z.string().nullable(),
+    from: z.string().nullable(),
+    to: z.array(z.string()),
+    // The message in Slack, Teams or Discord
+    link: z.string().nullable(),
+  }),
+  z.object({ kind: z.literal("event"), title: z.string(), components: z.array(componentSchema) }),
+  z.object({
+    kind: z.literal("status_change"),
+    previousStatus: z.string(),
+    nextStatus: z.string(),
+    previousStatusDetail: z.string().nullable(),
+    nextStatusDetail: z.string().nullable(),
+  }),
+  z.object({ kind: z.literal("assignment_change"), previousAssignees: z.array(z.string()), nextAssignees: z.array(z.string()) }),
+  z.object({ kind: z.literal("labels_change"), added: z.array(z.string()), removed: z.array(z.string()) }),
+  z.object({ kind: z.literal("priority_change"), previousPriority: z.number(), nextPriority: z.number() }),
+  z.object({
+    kind: z.literal("link_change"),
+    // e.g. linear or jira
+    sourceType: z.string(),
+    title: z.string().nullable(),
+    url: z.string().nullable(),
+    previousStatus: z.string().nullable(),
+    status: z.string().nullable(),
+  }),
+  z.object({ kind: z.literal("sla_change"), sla: z.string().nullable(), previousStatus: z.string(), nextStatus: z.string() }),
+  z.object({ kind: z.literal("discussion"), channel: z.string(), link: z.string(), resolved: z.boolean() }),
+]);
+
+export const timelineEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  actor: z.string(),
+  // The entry's GraphQL type, e.g. EmailEntry or NoteEntry
+  type: z.string(),
+  content: z.string(),
+  attachments: z.array(attachmentSchema),
+  // Null for entry types this server doesn't know
+  details: timelineDetailsSchema.nullable(),
+});
+
+export const threadDetailSchema = threadSchema.extend({
+  timeline: z.array(timelineEntrySchema),
+  // True when older entries were left out because of max_entries
+  timelineTruncated: z.boolean(),
+});
+
+export const customerSchema = z.object({
+  id: z.string(),
+  fullName: z.string(),
+  shortName: z.string().nullable(),
+  email: z.string().nullable(),
+  externalId: z.string().nullable(),
+  company: z.object({ id: z.string(), name: z.string() }).nullable(),
+  markedAsSpamAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const companySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  domainName: z.string().nullable(),
+  externalId: z.string().nullable(),
+  tier: z.object({ id: z.string(), name: z.string() }).nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const tenantSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  externalId: z.string().nullable(),
+  url: z.string().nullable(),
+  tier: z.object({ id: z.string(), name: z.string() }).nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const articleSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  slug: z.string(),
+  status: z.string(),
+  description: z.string().nullable(),
+  // Left out of lists
+  contentHtml: z.string().optional(),
+  articleGroup: z.object({ id: z.string(), name: z.string() }).nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Selection for articleSchema; add contentHtml where the full article is returned
+export const ARTICLE_FIELDS = `
+  id
+  title
+  slug
+  status
+  description
+  articleGroup { id name }
+  createdAt { iso8601 }
+  updatedAt { iso8601 }
+`;
+
+// Selection for customerSchema
+export const CUSTOMER_FIELDS = `
+  id
+  fullName
+  shortName
+  externalId
+  email { email }
+  company { id name domainName }
+  markedAsSpamAt { iso8601 }
+  createdAt { iso8601 }
+  updatedAt { iso8601 }
+`;
+
+// Selection for companySchema
+export const COMPANY_FIELDS = `
+  id
+  name
+  domainName
+  externalId
+  tier { id name }
+  createdAt { iso8601 }
+  updatedAt { iso8601 }
+`;
+
+// Selection for tenantSchema
+export const TENANT_FIELDS = `
+  id
+  name
+  externalId
+  url
+  tier { id name }
+  createdAt { iso8601 }
+  updatedAt { iso8601 }
+`;
+
+// Selection for threadSchema, including the customer's name and email
+export const THREAD_FIELDS = `
+  id
+  title
+  description
+  status
+  statusDetail { __typename }
+  priority
+  customer { id fullName email { email } }
+  labels { labelType { name } }
+  assignedTo {
+    ... on User { __typename id fullName }
+  }
+  createdAt { iso8601 }
+  updatedAt { iso8601 }
+`;
+
+// Components that can appear anywhere, including inside rows and containers
+const LEAF_COMPONENT_FIELDS = `
+  ... on ComponentText { __typename componentText: text }
+  ... on ComponentPlainText { __typename plainText }
+  ... on ComponentBadge { __typename badgeLabel badgeColor }
+  ... on ComponentLinkButton { __typename linkButtonLabel linkButtonUrl }
+  ... on ComponentCopyButton { __typename copyButtonValue copyButtonTooltipLabel }
+`;
+
+const ROW_COMPONENT_FIELDS = `
+  ... on ComponentRow {
+    __typename
+    rowMainContent { ${LEAF_COMPONENT_FIELDS} }
+    rowAsideContent { ${LEAF_COMPONENT_FIELDS} }
+  }
+`;
+
+const COMPONENT_FIELDS = `
+  ${LEAF_COMPONENT_FIELDS}
+  ${ROW_COMPONENT_FIELDS}
+  ... on ComponentContainer {
+    __typename
+    containerContent { ${LEAF_COMPONENT_FIELDS} ${ROW_COMPONENT_FIELDS} }
+  }
+`;
+
+const ASSIGNEE_FIELDS = `
+  ... on User { __typename fullName }
+  ... on MachineUser { __typename fullName }
+  ... on System { __typename }
+`;
+
+// Selection for timelineEntrySchema, on a TimelineEntry node. Fields that
+// differ in type between entry types are aliased so the fragments don't conflict.
+export const TIMELINE_ENTRY_FIELDS = `
+  id
+  timestamp { iso8601 }
+  actor {
+    ... on UserActor {
+      __typename
+      user { fullName email }
+    }
+    ... on CustomerActor {
+      __typename
+      customer { fullName email { email } }
+    }
+    ... on SystemActor {
+      __typename
+    }
+    ... on MachineUserActor {
+      __typename
+      machineUser { fullName }
+    }
+    ... on DeletedCustomerActor {
+      __typename
+    }
+  }
+  entry {
+    ... on ChatEntry {
+      __typename
+      chatId
+      chatText: text
+      attachments { id fileName fileMimeType fileSize { bytes } }
+    }
+    ... on EmailEntry {
+      __typename
+      emailId
+      subject
+      textContent
+      from { email name }
+      to { email name }
+      attachments { id fileName fileMimeType fileSize { bytes } }
+    }
+    ... on NoteEntry {
+      __typename
+      noteId
+      noteText: text
+      attachments { id fileName fileMimeType fileSize { bytes } }
+    }
+    ... on SlackMessageEntry {
+      __typename
+      slackText: text
+      slackWebMessageLink
+      attachments { id fileName fileMimeType fileSize { bytes } }
+    }
+    ... on SlackReplyEntry {
+      __typename
+      slackReplyText: text
+      slackWebMessageLink
+      attachments { id fileName fileMimeType fileSize { bytes } }
+    }
+    ... on MSTeamsMessageEntry {
+      __typename
+      msTeamsText: text
+      msTeamsMessageLink
+      attachments { id fileName fileMimeType fileSize { bytes } }
+    }
+    ... on DiscordMessageEntry {
+      __typename
+      discordMarkdown: markdownContent
+      discordMessageLink
+      attachments { id fileName fileMimeType fileSize { bytes } }
+    }
+    ... on HelpCenterAiConversationMessageEntry {
+      __typename
+      aiMarkdown: markdown
+    }
+    ... on CustomEntry {
+      __typename
+      title
+      customComponents: components { ${COMPONENT_FIELDS} }
+      attachments { id fileName fileMimeType fileSize { bytes } }
+    }
+    ... on ThreadEventEntry {
+      __typename
+      title
+      eventComponents: components { ${COMPONENT_FIELDS} }
+    }
+    ... on CustomerEventEntry {
+      __typename
+      title
+      eventComponents: components { ${COMPONENT_FIELDS} }
+    }
+    ... on ThreadStatusTransitionedEntry {
+      __typename
+      previousStatus
+      nextStatus
+      previousStatusDetail { __typename }
+      nextStatusDetail { __typename }
+    }
+    ... on ThreadAssignmentTransitionedEntry {
+      __typename
+      previousAssignee { ${ASSIGNEE_FIELDS} }
+      nextAssignee { ${ASSIGNEE_FIELDS} }
+    }
+    ... on ThreadAdditionalAssigneesTransitionedEntry {
+      __typename
+      previousAssignees { ${ASSIGNEE_FIELDS} }
+      nextAssignees { ${ASSIGNEE_FIELDS} }
+    }
+    ... on ThreadLabelsChangedEntry {
+      __typename
+      previousLabels { labelType { name } }
+      nextLabels { labelType { name } }
+    }
+    ... on ThreadPriorityChangedEntry {
+      __typename
+      previousPriority
+      nextPriority
+    }
+    ... on ThreadLinkUpdatedEntry {
+      __typename
+      previousThreadLink { status }
+      threadLink { sourceType title url status }
+    }
+    ... on LinearIssueThreadLinkStateTransitionedEntry {
+      __typename
+      linearIssueId
+      previousLinearStateId
+      nextLinearStateId
+    }
+    ... on ServiceLevelAgreementStatusTransitionedEntry {
+      __typename
+      slaPreviousStatus: previousStatus
+      slaNextStatus: nextStatus
+      serviceLevelAgreement { __typename }
+    }
+    ... on ThreadDiscussionEntry {
+      __typename
+      slackChannelName
+      slackMessageLink
+    }
+    ... on ThreadDiscussionResolvedEntry {
+      __typename
+      slackChannelName
+      slackMessageLink
+    }
+  }
+`;
+
+export type Thread = z.infer<typeof threadSchema>;
+export type TimelineEntry = z.infer<typeof timelineEntrySchema>;
+type TimelineDetails = z.infer<typeof timelineDetailsSchema>;
+type Component = z.infer<typeof componentSchema>;
+export type Customer = z.infer<typeof customerSchema>;
+export type Company = z.infer<typeof companySchema>;
+export type Tenant = z.infer<typeof tenantSchema>;
+export type Article = z.infer<typeof articleSchema>;
+
+// List tools respond with { <key>: [...], next_cursor, has_more }
+export function pageSchema(key: string, item: z.ZodType) {
+  return z.object({
+    [key]: z.array(item),
+    next_cursor: z.string().nullable(),
+    has_more: z.boolean(),
+  });
+}
+
+// Structured results carry the same data as their text
+export function jsonResult(data: Record<string, unknown>): CallToolResult {
+  return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }], structuredContent: data };
+}
+
+// The message is the text; extra fields such as a created ID are structured only
+export function confirmationResult(message: string, data: Record<string, unknown> = {}): CallToolResult {
+  return { content: [{ type: "text", text: message }], structuredContent: { message, ...data } };
+}
+
+// "ThreadStatusDetailNewReply" → "NEW_REPLY"
+export function statusDetailName(typename: string | undefined): string | null {
+  if (!typename) return null;
+  return typename
+    .replace(/^ThreadStatusDetail/, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toUpperCase();
+}
+
+// A thread from the SDK's ThreadParts or a raw query. ThreadParts only has the
+// customer's ID, so pass the looked-up summary when there is one.
+export function toThread(thread: any, customer?: CustomerSummary | null): Thread {
+  return {
+    id: thread.id,
+    title: thread.title || "(no title)",
+    description: thread.description ?? null,
+    status: thread.status,
+    statusDetail: statusDetailName(thread.statusDetail?.__typename),
+    priority: thread.priority,
+    customer: customer ?? (thread.customer?.id ? customerSummary(thread.customer) : null),
+    assignee:
+      thread.assignedTo?.__typename === "User" ? { id: thread.assignedTo.id, name: thread.assignedTo.fullName ?? null } : null,
+    labels: thread.labels?.map((l: any) => l.labelType?.name).filter(Boolean) || [],
+    createdAt: thread.createdAt.iso8601,
+    updatedAt: thread.updatedAt.iso8601,
+  };
+}
+
+// A customer from the SDK's CustomerParts or selected with CUSTOMER_FIELDS
+export function toCustomer(customer: any): Customer {
+  return {
+    id: customer.id,
+    fullName: customer.fullName,
+    shortName: customer.shortName ?? null,
+    email: customer.email?.email ?? null,
+    externalId: customer.externalId ?? null,
+    company: customer.company ? { id: customer.company.id, name: customer.company.name } : null,
+    markedAsSpamAt: customer.markedAsSpamAt?.iso8601 ?? null,
+    createdAt: customer.createdAt.iso8601,
+    updatedAt: customer.updatedAt.iso8601,
+  };
+}
+
+// A company selected with COMPANY_FIELDS
+export function toCompany(company: any): Company {
+  return {
+    id: company.id,
+    name: company.name,
+    domainName: company.domainName ?? null,
+    externalId: company.externalId ?? null,
+    tier: company.tier ? { id: company.tier.id, name: company.tier.name } : null,
+    createdAt: company.createdAt.iso8601,
+    updatedAt: company.updatedAt.iso8601,
+  };
+}
+
+// A tenant selected with TENANT_FIELDS
+export function toTenant(tenant: any): Tenant {
+  return {
+    id: tenant.id,
+    name: tenant.name,
+    externalId: tenant.externalId ?? null,
+    url: tenant.url ?? null,
+    tier: tenant.tier ? { id: tenant.tier.id, name: tenant.tier.name } : null,
+    createdAt: tenant.createdAt.iso8601,
+    updatedAt: tenant.updatedAt.iso8601,
+  };
+}
+
+// An article selected with ARTICLE_FIELDS
+export function toArticle(article: any): Article {
+  return {
+    id: article.id,
+    title: article.title,
+    slug: article.slug,
+    status: article.status,
+    description: article.description ?? null,
+    ...(article.contentHtml !== undefined && { contentHtml: article.contentHtml }),
+    articleGroup: article.articleGroup ? { id: article.articleGroup.id, name: article.articleGroup.name } : null,
+    createdAt: article.createdAt.iso8601,
+    updatedAt: article.updatedAt.iso8601,
+  };
+}
+
+const PRIORITY_NAMES = ["urgent", "high", "normal", "low"];
+
+function actorName(actor: any): string {
+  if (!actor) return "Unknown";
+  switch (actor.__typename) {
+    case "UserActor":
+      return actor.user?.fullName || actor.user?.email || "Support Agent";
+    case "CustomerActor":
+      return actor.customer?.fullName || actor.customer?.email?.email || "Customer";
+    case "SystemActor":
+      // Plain's SystemActor only carries a systemId, nothing to name it by
+      return "System";
+    case "MachineUserActor":
+      return actor.machineUser?.fullName || "Bot";
+    case "DeletedCustomerActor":
+      return "Deleted customer";
+    default:
+      return "Unknown";
+  }
+}
+
+function assigneeName(assignee: any): string {
+  return assignee?.__typename === "System" ? "System" : assignee?.fullName || "Unknown";
+}
+
+export function priorityName(priority: number): string {
+  return PRIORITY_NAMES[priority] ?? String(priority);
+}
+
+function component(c: any): Component[] {
+  switch (c?.__typename) {
+    case "ComponentText":
+      return [{ type: "text", text: c.componentText }];
+    case "ComponentPlainText":
+      return [{ type: "text", text: c.plainText }];
+    case "ComponentBadge":
+      return [{ type: "badge", label: c.badgeLabel, color: c.badgeColor ?? null }];
+    case "ComponentLinkButton":
+      return [{ type: "link_button", label: c.linkButtonLabel, url: c.linkButtonUrl }];
+    case "ComponentCopyButton":
+      return [{ type: "copy_button", value: c.copyButtonValue, label: c.copyButtonTooltipLabel ?? null }];
+    case "ComponentRow":
+      return [...(c.rowMainContent ?? []), ...(c.rowAsideContent ?? [])].flatMap(component);
+    case "ComponentContainer":
+      return (c.containerContent ?? []).flatMap(component);
+    default:
+      // Dividers and spacers are layout only
+      return [];
+  }
+}
+
+function componentText(c: Component): string {
+  switch (c.type) {
+    case "text":
+      return c.text;
+    case "badge":
+      return `[${c.label}]`;
+    case "link_button":
+      return `${c.label}: ${c.url}`;
+    case "copy_button":
+      return c.label ? `${c.label}: ${c.value}` : c.value;
+  }
+}
+
+function message(
+  channel: Extract<TimelineDetails, { kind: "message" }>["channel"],
+  fields: { subject?: string | null; from?: string | null; to?: string[]; link?: string | null } = {}
+): TimelineDetails {
+  return { kind: "message", channel, subject: fields.subject ?? null, from: fields.from ?? null, to: fields.to ?? [], link: fields.link ?? null };
+}
+
+function participant(p: any): string | null {
+  if (!p?.email) return null;
+  return p.name ? `${p.name} <${p.email}>` : p.email;
+}
+
+// The entry's text and typed details; details are null for types not handled here
+function describeEntry(entry: any): { content: string; details: TimelineDetails | null } {
+  switch (entry?.__typename) {
+    case "ChatEntry":
+      return { content: entry.chatText || "", details: message("chat") };
+    case "EmailEntry":
+      return {
+        content: entry.textContent || entry.subject || "",
+        details: message("email", { subject: entry.subject, from: participant(entry.from), to: [participant(entry.to)].filter((p) => p !== null) }),
+      };
+    case "NoteEntry":
+      return { content: entry.noteText || "", details: message("note") };
+    case "SlackMessageEntry":
+      return { content: entry.slackText || "", details: message("slack", { link: entry.slackWebMessageLink }) };
+    case "SlackReplyEntry":
+      return { content: entry.slackReplyText || "", details: message("slack", { link: entry.slackWebMessageLink }) };
+    case "MSTeamsMessageEntry":
+      return { content: entry.msTeamsText || "", details: message("ms_teams", { link: entry.msTeamsMessageLink }) };
+    case "DiscordMessageEntry":
+      return { content: entry.discordMarkdown || "", details: message("discord", { link: entry.discordMessageLink }) };
+    case "HelpCenterAiConversationMessageEntry":
+      return { content: entry.aiMarkdown || "", details: message("help_center_ai") };
+    case "CustomEntry":
+    case "ThreadEventEntry":
+    case "CustomerEventEntry": {
+      const components = (entry.customComponents ?? entry.eventComponents ?? []).flatMap(component);
+      // The components carry the detail; the title stands in when there are none
+      const content = components.length > 0 ? components.map(componentText).join("\n") : entry.title || "";
+      return { content, details: { kind: "event", title: entry.title || "", components } };
+    }
+    case "ThreadStatusTransitionedEntry": {
+      const previousStatusDetail = statusDetailName(entry.previousStatusDetail?.__typename);
+      const nextStatusDetail = statusDetailName(entry.nextStatusDetail?.__typename);
+      const status = (name: string, detail: string | null) => (detail ? `${name} (${detail})` : name);
+      return {
+        content: `Status changed from ${status(entry.previousStatus, previousStatusDetail)} to ${status(entry.nextStatus, nextStatusDetail)}`,
+        details: { kind: "status_change", previousStatus: entry.previousStatus, nextStatus: entry.nextStatus, previousStatusDetail, nextStatusDetail },
+      };
+    }
+    case "ThreadAssignmentTransitionedEntry":
+    case "ThreadAdditionalAssigneesTransitionedEntry": {
+      const previous = (entry.previousAssignees ?? [entry.previousAssignee].filter(Boolean)).map(assigneeName);
+      const next = (entry.nextAssignees ?? [entry.nextAssignee].filter(Boolean)).map(assigneeName);
+      const role = entry.__typename === "ThreadAssignmentTransitionedEntry" ? "" : "additional assignees ";
+      let content: string;
+      if (next.length === 0) content = `Unassigned ${role}${previous.join(", ")}`;
+      else if (previous.length === 0) content = `Assigned ${role}${next.join(", ")}`;
+      else content = `Reassigned ${role}from ${previous.join(", ")} to ${next.join(", ")}`;
+      return { content, details: { kind: "assignment_change", previousAssignees: previous, nextAssignees: next } };
+    }
+    case "ThreadLabelsChangedEntry": {
+      const previous: string[] = (entry.previousLabels ?? []).map((l: any) => l.labelType?.name).filter(Boolean);
+      const next: string[] = (entry.nextLabels ?? []).map((l: any) => l.labelType?.name).filter(Boolean);
+      const added = next.filter((name) => !previous.includes(name));
+      const removed = previous.filter((name) => !next.includes(name));
+      const changes = [added.length > 0 && `added ${added.join(", ")}`, removed.length > 0 && `removed ${removed.join(", ")}`].filter(Boolean);
+      return { content: `Labels ${changes.join("; ") || "unchanged"}`, details: { kind: "labels_change", added, removed } };
+    }
+    case "ThreadPriorityChangedEntry":
+      return {
+        content: `Priority changed from ${priorityName(entry.previousPriority)} to ${priorityName(entry.nextPriority)}`,
+        details: { kind: "priority_change", previousPriority: entry.previousPriority, nextPriority: entry.nextPriority },
+      };
+    case "ThreadLinkUpdatedEntry": {
+      const link = entry.threadLink ?? {};
+      const previousStatus = entry.previousThreadLink?.status ?? null;
+      return {
+        content: `Linked ${link.sourceType} issue "${link.title}" moved from ${previousStatus} to ${link.status}`,
+        details: {
+          kind: "link_change",
+          sourceType: link.sourceType,
+          title: link.title ?? null,
+          url: link.url ?? null,
+          previousStatus,
+          status: link.status ?? null,
+        },
+      };
+    }
+    case "LinearIssueThreadLinkStateTransitionedEntry":
+      return {
+        content: `Linear issue ${entry.linearIssueId} moved from state ${entry.previousLinearStateId} to ${entry.nextLinearStateId}`,
+        details: {
+          kind: "link_change",
+          sourceType: "linear",
+          title: null,
+          url: null,
+          previousStatus: entry.previousLinearStateId,
+          status: entry.nextLinearStateId,
+        },
+      };
+    case "ServiceLevelAgreementStatusTransitionedEntry": {
+      // "FirstResponseTimeServiceLevelAgreement" → "first response time"
+      const sla =
+        entry.serviceLevelAgreement?.__typename
+          ?.replace(/ServiceLevelAgreement$/, "")
+          .replace(/([a-z])([A-Z])/g, "$1 $2")
+          .toLowerCase() ?? null;
+      return {
+        content: `${sla ? `SLA (${sla})` : "SLA"} changed from ${entry.slaPreviousStatus} to ${entry.slaNextStatus}`,
+        details: { kind: "sla_change", sla, previousStatus: entry.slaPreviousStatus, nextStatus: entry.slaNextStatus },
+      };
+    }
+    case "ThreadDiscussionEntry":
+    case "ThreadDiscussionResolvedEntry": {
+      const resolved = entry.__typename === "ThreadDiscussionResolvedEntry";
+      return {
+        content: `Discussion ${resolved ? "resolved" : "started"} in #${entry.slackChannelName}`,
+        details: { kind: "discussion", channel: entry.slackChannelName, link: entry.slackMessageLink, resolved },
+      };
+    }
+    default:
+      return { content: "", details: null };
+  }
+}
+
+// A timeline entry node selected with TIMELINE_ENTRY_FIELDS
+export function toTimelineEntry(node: any): TimelineEntry {
+  const { content, details } = describeEntry(node.entry);
+  const attachments = (node.entry?.attachments ?? []).map((a: any) => ({
+    id: a.id,
+    fileName: a.fileName,
+    mimeType: a.fileMimeType,
+    sizeBytes: a.fileSize?.bytes ?? null,
+  }));
+  const attachmentLines = attachments.map((a: { fileName: string }) => `[attachment: ${a.fileName}]`);
+  return {
+    id: node.id,
+    timestamp: node.timestamp?.iso8601 ?? "",
+    actor: actorName(node.actor),
+    type: node.entry?.__typename || "Unknown",
+    content: [content, ...attachmentLines].filter(Boolean).join("\n"),
+    attachments,
+    details,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Plumbing shared by the local HTTP servers: the MCP transports in http.ts and
+ * the webhook listener in webhooks.ts.
+ */
+
+import type { IncomingMessage, Server } from "node:http";
+
+// MCP messages and Plain deliveries are a few KB; anything far larger is neither
+const MAX_BODY_BYTES = 1_000_000;
+
+export class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Request body is larger than ${MAX_BODY_BYTES} bytes`);
+  }
+}
+
+// Throws PayloadTooLargeError as soon as the body passes the cap
+export async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new PayloadTooLargeError();
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Start listening and return the server's base URL, with the port it actually got when asked for port 0
+export async function listen(server: Server, host: string, port: number): Promise<string> {
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+
+  const address = server.address();
+  const boundPort = typeof address === "object" && address ? address.port : port;
+  return `http://${host.includes(":") ? `[${host}]` : host}:${boundPort}`;
+}
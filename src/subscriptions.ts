@@ -0,0 +1,207 @@
+/**
+ * Change detection for resource subscriptions on threads and the todo queue.
+ *
+ * With the webhook listener running, changes come from incoming events and
+ * nothing is polled. Without it, subscribed threads and the todo queue are
+ * fetched and compared by updatedAt; the queue only by its first
+ * QUEUE_POLL_MAX_PAGES pages and its total count. The poll interval starts
+ * at its minimum, doubles after every poll that finds nothing up to its
+ * maximum, and drops back to the minimum when something changes.
+ */
+
+import { ThreadStatus, type PlainClient } from "@team-plain/typescript-sdk";
+import type { EventBuffer, WebhookEvent } from "./webhooks.ts";
+
+export const QUEUE_URI = "plain://queue/todo";
+
+export const POLL_INTERVAL_MS = { min: 5_000, max: 60_000 };
+
+// Threads fetched per page
+const POLL_PAGE_SIZE = 100;
+
+// Pages of the todo queue read per poll. Changes further back only show when the queue's size changes
+const QUEUE_POLL_MAX_PAGES = 3;
+
+const QUEUE_VERSION_QUERY = `
+  query QueueVersion($filters: ThreadsFilter, $first: Int, $after: String) {
+    threads(filters: $filters, first: $first, after: $after) {
+      totalCount
+      edges {
+        node {
+          id
+          updatedAt { iso8601 }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+export interface WatcherOptions {
+  plain: PlainClient;
+  // Webhook events replace polling when set
+  events: EventBuffer | null;
+  onUpdated: (uri: string) => Promise<void>;
+  pollIntervalMs?: { min: number; max: number };
+}
+
+export interface ChangeWatcher {
+  // False for URIs that can't be watched
+  subscribe(uri: string): boolean;
+  unsubscribe(uri: string): void;
+  close(): void;
+}
+
+export function threadUri(threadId: string): string {
+  return `plain://thread/${threadId}`;
+}
+
+function threadIdOf(uri: string): string | undefined {
+  return uri.match(/^plain:\/\/thread\/([^/]+)$/)?.[1];
+}
+
+// Thread events for threads that are, or just stopped being, in the todo queue
+function touchesQueue(event: WebhookEvent): boolean {
+  const payload = event.payload as { thread?: { status?: string }; previousThread?: { status?: string } };
+  return payload.thread?.status === "TODO" || payload.previousThread?.status === "TODO";
+}
+
+export function createChangeWatcher(options: WatcherOptions): ChangeWatcher {
+  const { plain, events } = options;
+  const interval = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+  const subscribed = new Set<string>();
+
+  // Last seen updatedAt per subscribed thread (null once it's gone), and of the queue as a whole
+  const threadVersions = new Map<string, string | null>();
+  let queueVersion: string | undefined;
+
+  let delay = interval.min;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let polling = false;
+  let pollAgain = false;
+  let closed = false;
+
+  function notify(uri: string): void {
+    options.onUpdated(uri).catch(() => {
+      // The session may have closed between the change and the notification
+    });
+  }
+
+  const detach = events?.onEvent((event) => {
+    if (event.threadId && subscribed.has(threadUri(event.threadId))) notify(threadUri(event.threadId));
+    if (subscribed.has(QUEUE_URI) && touchesQueue(event)) notify(QUEUE_URI);
+  });
+
+  async function fetchThreads(filters: Record<string, unknown>): Promise<{ id: string; updatedAt: string }[]> {
+    const threads: { id: string; updatedAt: string }[] = [];
+    let after: string | undefined;
+    do {
+      const result = await plain.getThreads({ filters, first: POLL_PAGE_SIZE, after });
+      if (result.error) throw new Error(result.error.message);
+      threads.push(...result.data.threads.map((t) => ({ id: t.id, updatedAt: t.updatedAt.iso8601 })));
+      after = result.data.pageInfo.hasNextPage ? (result.data.pageInfo.endCursor ?? undefined) : undefined;
+    } while (after);
+    return threads;
+  }
+
+  // Total size plus the id@updatedAt of every thread on the first pages of the todo queue
+  async function fetchQueueVersion(): Promise<string> {
+    const threads: string[] = [];
+    let total = 0;
+    let after: string | undefined;
+    for (let pages = 0; pages < QUEUE_POLL_MAX_PAGES; pages++) {
+      const result = await plain.rawRequest({
+        query: QUEUE_VERSION_QUERY,
+        variables: { filters: { statuses: [ThreadStatus.Todo] }, first: POLL_PAGE_SIZE, after },
+      });
+      if (result.error) throw new Error(result.error.message);
+      const connection = (result.data as any)?.threads;
+      total = connection?.totalCount ?? 0;
+      threads.push(...(connection?.edges ?? []).map((e: any) => `${e.node.id}@${e.node.updatedAt.iso8601}`));
+      after = connection?.pageInfo?.hasNextPage ? (connection.pageInfo.endCursor ?? undefined) : undefined;
+      if (!after) break;
+    }
+    return `${total}:${threads.sort().join()}`;
+  }
+
+  // URIs whose data changed since the previous poll; the first poll after subscribing only records a baseline
+  async function poll(): Promise<string[]> {
+    const changed: string[] = [];
+
+    const threadIds = [...subscribed].map(threadIdOf).filter((id): id is string => !!id);
+    if (threadIds.length > 0) {
+      const versions = new Map((await fetchThreads({ threadIds })).map((t) => [t.id, t.updatedAt]));
+      for (const id of threadIds) {
+        const version = versions.get(id) ?? null;
+        if (threadVersions.has(id) && threadVersions.get(id) !== version) changed.push(threadUri(id));
+        threadVersions.set(id, version);
+      }
+    }
+
+    if (subscribed.has(QUEUE_URI)) {
+      const version = await fetchQueueVersion();
+      if (queueVersion !== undefined && queueVersion !== version) changed.push(QUEUE_URI);
+      queueVersion = version;
+    }
+
+    // Unsubscribed while the poll was running
+    return changed.filter((uri) => subscribed.has(uri));
+  }
+
+  function schedule(ms: number): void {
+    clearTimeout(timer);
+    timer = undefined;
+    if (closed || events || subscribed.size === 0) return;
+    timer = setTimeout(tick, ms);
+    // Polling alone shouldn't keep the process running
+    timer.unref?.();
+  }
+
+  async function tick(): Promise<void> {
+    if (polling) {
+      pollAgain = true;
+      return;
+    }
+    polling = true;
+    try {
+      const changed = await poll();
+      changed.forEach(notify);
+      delay = changed.length > 0 ? interval.min : Math.min(delay * 2, interval.max);
+    } catch (error: any) {
+      console.error("Polling Plain for thread changes failed:", error.message);
+      delay = Math.min(delay * 2, interval.max);
+    } finally {
+      polling = false;
+    }
+    schedule(pollAgain ? 0 : delay);
+    pollAgain = false;
+  }
+
+  return {
+    subscribe(uri) {
+      if (uri !== QUEUE_URI && !threadIdOf(uri)) return false;
+      if (!subscribed.has(uri)) {
+        subscribed.add(uri);
+        // Take the new subscription's baseline right away
+        delay = interval.min;
+        schedule(0);
+      }
+      return true;
+    },
+
+    unsubscribe(uri) {
+      subscribed.delete(uri);
+      const threadId = threadIdOf(uri);
+      if (threadId) threadVersions.delete(threadId);
+      if (uri === QUEUE_URI) queueVersion = undefined;
+      if (subscribed.size === 0) schedule(0);
+    },
+
+    close() {
+      closed = true;
+      subscribed.clear();
+      schedule(0);
+      detach?.();
+    },
+  };
+}
@@ -1,32 +1,60 @@
 /**
- * Test script for Plain MCP server
+ * Hermetic test suite for Plain MCP server
  *
- * Run with: PLAIN_API_KEY=your_key bun run src/test.ts
+ * Run with: bun run src/test.ts
  *
- * Or if you have your key in .env:
- *   source .env && bun run src/test.ts
- *
- * Requires PLAIN_API_KEY environment variable to be set.
+ * Starts the mock Plain API (src/mock/server.ts) on a random local port and
+ * drives every registered tool through an in-memory MCP client. No API key or
+ * network access is needed; for tests against the real API see src/test-live.ts.
  */
 
-import { PlainClient, ThreadStatus } from "@team-plain/typescript-sdk";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ErrorCode, McpError, ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { PlainClient } from "@team-plain/typescript-sdk";
+import { createHmac } from "node:crypto";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createAuditLog, redact } from "./audit.ts";
+import { customerCache } from "./customers.ts";
+import type { ToolError } from "./errors.ts";
+import { parseResponseFormat } from "./format.ts";
+import { createPlainClient, isRetrySafe, setRequestPolicy, withRequestPolicy, type RequestPolicy } from "./requests.ts";
+import { startHttpServer } from "./http.ts";
+import { createServer, parseToolsets } from "./index.ts";
+import { startMockPlain } from "./mock/server.ts";
+import { customerCreatedDelivery, threadCreatedDelivery, threadStatusTransitionedDelivery } from "./mock/webhooks.ts";
+import { createEventBuffer, startWebhookListener, toWebhookEvent } from "./webhooks.ts";
+import { loadWorkspaces } from "./workspaces.ts";
 
-const apiKey = process.env.PLAIN_API_KEY;
-if (!apiKey) {
-  console.error("PLAIN_API_KEY environment variable is required");
-  process.exit(1);
-}
+// Short delays keep the retry tests fast
+setRequestPolicy({ baseDelayMs: 5, maxDelayMs: 200 });
 
-const plain = new PlainClient({ apiKey });
+const mock = startMockPlain();
+const plain = createPlainClient({ apiKey: "test-key", apiUrl: mock.url });
+const client = new Client({ name: "plain-mcp-test", version: "1.0.0" });
 
 interface TestResult {
   name: string;
   passed: boolean;
   error?: string;
-  details?: any;
+}
+
+interface ToolCall {
+  text: string;
+  isError: boolean;
+  json: () => any;
+  // structuredContent of a successful call
+  structured: any;
+  // The structured error of a failed call
+  error?: ToolError;
 }
 
 const results: TestResult[] = [];
+const calledTools = new Set<string>();
 
 function assert(condition: boolean, message: string): void {
   if (!condition) {
@@ -34,7 +62,9 @@ function assert(condition: boolean, message: string): void {
   }
 }
 
+// Every test starts from fresh fixtures
 async function test(name: string, fn: () => Promise<void>): Promise<void> {
+  mock.reset();
   try {
     await fn();
     results.push({ name, passed: true });
@@ -45,262 +75,1633 @@ async function test(name: string, fn: () => Promise<void>): Promise<void> {
   }
 }
 
-// Test: list_threads returns threads with customer names
-async function testListThreads(): Promise<void> {
-  const result = await plain.getThreads({
-    filters: { statuses: [ThreadStatus.Todo] },
-    first: 5,
+async function call(name: string, args: Record<string, unknown> = {}): Promise<ToolCall> {
+  calledTools.add(name);
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as { type: string; text: string }[];
+  const text = content[0]?.text ?? "";
+  const error = result._meta?.error as ToolError | undefined;
+  return { text, isError: !!result.isError, json: () => JSON.parse(text), structured: result.structuredContent, error };
+}
+
+async function ok(name: string, args: Record<string, unknown> = {}): Promise<ToolCall> {
+  const result = await call(name, args);
+  assert(!result.isError, `${name} failed: ${result.text}`);
+  return result;
+}
+
+function lastMutationInput(field: string): any {
+  const found = [...mock.calls].reverse().find((c) => c.field === field);
+  assert(!!found, `expected a ${field} call`);
+  return found!.args.input;
+}
+
+// =============================================================================
+// HELP CENTER TESTS
+// =============================================================================
+
+async function testHelpCenters(): Promise<void> {
+  const list = (await ok("list_help_centers")).json().helpCenters;
+  assert(list.length === 1 && list[0].id === "hc_main", "should list the seeded help center");
+  assert(list[0].subdomain === "mock-help", "subdomain should be flattened from domainSettings");
+
+  const hc = (await ok("get_help_center", { help_center_id: "hc_main" })).json();
+  assert(hc.publicName === "Mock Help", "should fetch help center by id");
+
+  const created = (await ok("create_help_center", {
+    public_name: "Docs",
+    internal_name: "Docs internal",
+    subdomain: "docs",
+    description: "Developer docs",
+  })).json();
+  assert(created.publicName === "Docs", "should return the created help center");
+  assert(lastMutationInput("createHelpCenter").type === "STANDALONE", "type should default to STANDALONE");
+
+  await ok("update_help_center", { help_center_id: created.id, public_name: "Developer Docs" });
+  assert(mock.state.helpCenters.find((h) => h.id === created.id)?.publicName === "Developer Docs", "should rename");
+
+  await ok("delete_help_center", { help_center_id: created.id });
+  assert(!mock.state.helpCenters.some((h) => h.id === created.id), "should delete help center");
+}
+
+async function testHelpCenterCustomDomain(): Promise<void> {
+  const unverified = await call("verify_help_center_custom_domain", { help_center_id: "hc_main" });
+  assert(unverified.isError && unverified.text.includes("No custom domain"), "verify should fail without a domain");
+
+  const set = await ok("update_help_center_custom_domain", { help_center_id: "hc_main", custom_domain_name: "help.example.com" });
+  assert(set.text.includes("help.example.com"), "should confirm the new domain");
+
+  await ok("verify_help_center_custom_domain", { help_center_id: "hc_main" });
+
+  const removed = await ok("update_help_center_custom_domain", { help_center_id: "hc_main", custom_domain_name: null });
+  assert(removed.text.includes("(removed)"), "null should remove the domain");
+}
+
+async function testHelpCenterArticles(): Promise<void> {
+  const articles = (await ok("list_help_center_articles", { help_center_id: "hc_main" })).json().articles;
+  assert(articles.length === 2, "should list both seeded articles");
+
+  const article = (await ok("get_help_center_article", { article_id: "art_reset" })).json();
+  assert(article.articleGroup?.name === "Account", "article should include its group");
+  assert(article.contentHtml.includes("Forgot password"), "article should include content");
+
+  const bySlug = (await ok("get_help_center_article_by_slug", { help_center_id: "hc_main", slug: "invoices" })).json();
+  assert(bySlug.id === "art_billing", "should fetch article by slug");
+
+  const upserted = (await ok("upsert_help_center_article", {
+    help_center_id: "hc_main",
+    title: "Two-factor auth",
+    content_html: "<p>Enable 2FA</p>",
+    description: "Securing your account",
+    group_id: "grp_account",
+  })).json();
+  assert(upserted.slug === "two-factor-auth" && upserted.status === "DRAFT", "should create a draft article");
+
+  await ok("delete_help_center_article", { article_id: upserted.id });
+  assert(!mock.state.articles.some((a) => a.id === upserted.id), "should delete the article");
+
+  const generated = (await ok("generate_help_center_article", { thread_id: "th_login", help_center_id: "hc_main" })).json().articles;
+  assert(generated[0]?.title === "Cannot log in", "should generate an article from the thread");
+}
+
+async function testUpsertArticleFieldErrors(): Promise<void> {
+  const result = await call("upsert_help_center_article", {
+    help_center_id: "hc_main",
+    title: "No description",
+    content_html: "<p>x</p>",
+    description: "",
   });
+  assert(result.isError, "empty description should fail");
+  assert(result.text.includes("description"), "field errors should be surfaced");
+}
 
-  assert(!result.error, `API error: ${result.error?.message}`);
-  assert(Array.isArray(result.data.threads), "threads should be an array");
+async function testHelpCenterArticleGroups(): Promise<void> {
+  const groups = (await ok("list_help_center_article_groups", { help_center_id: "hc_main" })).json().articleGroups;
+  assert(groups.length === 1 && groups[0].id === "grp_account", "should list seeded group");
 
-  if (result.data.threads.length > 0) {
-    const thread = result.data.threads[0];
-    assert(typeof thread.id === "string", "thread should have an id");
-    assert(typeof thread.status === "string", "thread should have a status");
+  const group = (await ok("get_help_center_article_group", { group_id: "grp_account" })).json();
+  assert(Array.isArray(group.articles) && group.articles[0]?.id === "art_reset", "articles should be flattened");
 
-    // Check that we can fetch customer details
-    if (thread.customer?.id) {
-      const customerResult = await plain.getCustomerById({
-        customerId: thread.customer.id,
-      });
-      assert(!customerResult.error, `Customer fetch error: ${customerResult.error?.message}`);
-      assert(customerResult.data !== null, "customer data should not be null");
+  const created = (await ok("create_help_center_article_group", { help_center_id: "hc_main", name: "Billing" })).json();
+  assert(created.name === "Billing", "should create group");
 
-      const customer = customerResult.data!;
-      const hasIdentifier = customer.fullName || customer.email?.email;
-      assert(!!hasIdentifier, "customer should have fullName or email");
+  await ok("update_help_center_article_group", { group_id: created.id, name: "Payments" });
+  assert(mock.state.articleGroups.find((g) => g.id === created.id)?.name === "Payments", "should rename group");
 
-      console.log(`  → Customer: ${customer.fullName || customer.email?.email}`);
-    }
+  await ok("delete_help_center_article_group", { group_id: created.id });
+  assert(!mock.state.articleGroups.some((g) => g.id === created.id), "should delete group");
+}
+
+async function testHelpCenterIndex(): Promise<void> {
+  const index = (await ok("get_help_center_index", { help_center_id: "hc_main" })).json();
+  assert(index.hash === "hash_1" && index.items.length === 3, "should return hash and items");
+
+  const updated = await ok("update_help_center_index", {
+    help_center_id: "hc_main",
+    hash: index.hash,
+    index: [{ type: "ARTICLE", id: "art_reset" }],
+  });
+  assert(updated.text.includes("New hash"), "should report the new hash");
+
+  const stale = await call("update_help_center_index", { help_center_id: "hc_main", hash: "hash_1", index: [] });
+  assert(stale.isError && stale.text.includes("stale"), "reusing the old hash should fail");
+}
+
+async function testKnowledgeSources(): Promise<void> {
+  const source = (await ok("create_knowledge_source", { name: "Docs", url: "https://docs.example.com" })).json();
+  assert(source.url === "https://docs.example.com", "should create knowledge source");
+
+  await ok("delete_knowledge_source", { knowledge_source_id: source.id });
+  assert(mock.state.knowledgeSources.length === 0, "should delete knowledge source");
+}
+
+// =============================================================================
+// CUSTOMER TESTS
+// =============================================================================
+
+async function testCustomers(): Promise<void> {
+  const upserted = (await ok("upsert_customer", { email: "new@example.com", full_name: "New Person" })).json();
+  assert(upserted.result === "CREATED" && upserted.customer.fullName === "New Person", "should create customer");
+
+  const customer = (await ok("get_customer", { customer_id: "c_jane" })).json();
+  assert(customer.email === "jane@example.com", "should fetch customer by id");
+
+  const [found] = (await ok("search_customers", { email: "sam@widgets.io" })).json().customers;
+  assert(found.id === "c_sam" && found.fullName === "Sam Smith", "should find customer by email");
+
+  const missing = await ok("search_customers", { email: "nobody@example.com" });
+  assert(missing.json().customers.length === 0, "unknown email should not error");
+
+  await ok("mark_customer_as_spam", { customer_id: "c_sam" });
+  assert(!!mock.state.customers.find((c) => c.id === "c_sam")?.markedAsSpamAt, "should mark as spam");
+  await ok("unmark_customer_as_spam", { customer_id: "c_sam" });
+  assert(!mock.state.customers.find((c) => c.id === "c_sam")?.markedAsSpamAt, "should unmark spam");
+
+  const event = await ok("create_customer_event", {
+    customer_id: "c_jane",
+    title: "Upgraded plan",
+    components: [{ type: "TEXT", text: "Now on Pro" }, { type: "BADGE", text: "Pro" }],
+  });
+  assert(event.text.startsWith("Customer event created: ev_"), "should return event id");
+  const components = lastMutationInput("createCustomerEvent").components;
+  assert(components[1].componentBadge?.text === "Pro", "BADGE components should map to componentBadge");
+
+  await ok("delete_customer", { customer_id: upserted.customer.id });
+  assert(!mock.state.customers.some((c) => c.id === upserted.customer.id), "should delete customer");
+
+  const notFound = await call("delete_customer", { customer_id: "c_missing" });
+  assert(notFound.isError && notFound.text.startsWith("Error: Customer not found"), "should surface mutation errors");
+  assert(notFound.error?.code === "not_found", "should keep the mutation error code");
+}
+
+async function testSearchCustomers(): Promise<void> {
+  const [sam] = (await ok("search_customers", { email: "sam@widgets.io" })).structured.customers;
+  assert(sam.id === "c_sam" && sam.openThreadCount === 1, "exact email should count the customer's open threads");
+
+  const byExternalId = (await ok("search_customers", { external_id: "ext_jane" })).structured.customers;
+  assert(byExternalId.length === 1 && byExternalId[0].openThreadCount === 2, "should find by external ID");
+
+  const partial = (await ok("search_customers", { query: "jane@" })).structured.customers;
+  assert(partial.length === 1 && partial[0].id === "c_jane", "partial email should match");
+  const domain = (await ok("search_customers", { query: "widgets.io" })).structured.customers;
+  assert(domain.length === 1 && domain[0].id === "c_sam", "email domain should match");
+
+  // Found in this order, but a name that merely contains the term ranks below one that starts with it
+  mock.state.customers.push({ ...mock.state.customers[1]!, id: "c_isam", fullName: "Isambard Brunel", shortName: null, email: "isam@brunel.dev" });
+  mock.state.customers.push({ ...mock.state.customers[1]!, id: "c_samantha", fullName: "Samantha Jones", shortName: null, email: "sj@example.com" });
+  const ranked = (await ok("search_customers", { query: "sam" })).structured.customers;
+  assert(ranked.map((c: any) => c.id).join() === "c_sam,c_samantha,c_isam", `ranking: ${ranked.map((c: any) => c.id).join()}`);
+
+  const paged = (await ok("search_customers", { query: "sam", limit: 2 })).structured;
+  assert(paged.customers.length === 2 && paged.has_more && paged.next_cursor, "matches should be paginated");
+
+  const company = (await ok("search_customers", { company: "example.com" })).structured.customers;
+  assert(company.length === 1 && company[0].id === "c_jane", "company domain should list its customers");
+  const byCompanyId = (await ok("search_customers", { query: "sam", company: "co_example" })).structured.customers;
+  assert(byCompanyId.length === 0, "company should narrow a text search");
+
+  const none = await call("search_customers", {});
+  assert(none.isError && none.error?.code === "invalid_argument", "a search needs some criteria");
+  const both = await call("search_customers", { email: "sam@widgets.io", query: "sam" });
+  assert(both.isError, "exact lookups and text search don't combine");
+}
+
+async function testListCustomers(): Promise<void> {
+  const byName = (await ok("list_customers")).structured;
+  assert(byName.customers.map((c: any) => c.id).join() === "c_jane,c_sam" && !byName.has_more, "should list customers by name");
+  const listCall = mock.calls.filter((c) => c.field === "customers").at(-1)!;
+  assert(listCall.args.sortBy.field === "FULL_NAME" && listCall.args.sortBy.direction === "ASC", "name sorting should be Plain's");
+
+  const vip = (await ok("list_customers", { customer_group_ids: ["cg_vip"] })).structured.customers;
+  assert(vip.length === 1 && vip[0].id === "c_jane", "should filter by customer group");
+  const company = (await ok("list_customers", { company: "co_example" })).structured.customers;
+  assert(company.length === 1 && company[0].id === "c_jane", "should filter by company");
+  const tenant = (await ok("list_customers", { tenant_id: "te_eu" })).structured.customers;
+  assert(tenant.length === 1 && tenant[0].id === "c_jane", "should filter by tenant");
+  const tier = (await ok("list_customers", { tier_id: "tier_gold" })).structured.customers;
+  assert(tier.length === 1 && tier[0].id === "c_jane", "should filter by the company's tier");
+  const spam = (await ok("list_customers", { is_marked_as_spam: true })).structured.customers;
+  assert(spam.length === 0, "should filter by spam status");
+
+  const recent = (await ok("list_customers", { created_after: "2024-02-15T00:00:00Z" })).structured.customers;
+  assert(recent.length === 1 && recent[0].id === "c_sam", "should filter by creation date");
+  const active = (await ok("list_customers", { sort_by: "last_activity", sort_direction: "desc", updated_before: "2024-12-31T00:00:00Z" })).structured.customers;
+  assert(active.map((c: any) => c.id).join() === "c_jane,c_sam", "should sort by last activity");
+
+  const first = (await ok("list_customers", { sort_by: "created_at", sort_direction: "desc", limit: 1 })).structured;
+  assert(first.customers[0].id === "c_sam" && first.has_more && first.next_cursor === "offset:1", "local sorting should page by offset");
+  const second = (await ok("list_customers", { sort_by: "created_at", sort_direction: "desc", limit: 1, after: first.next_cursor })).structured;
+  assert(second.customers[0].id === "c_jane" && !second.has_more && second.next_cursor === null, "the offset cursor should continue");
+  assert(second.truncated === false && byName.truncated === undefined, "only local listings say whether every customer was read");
+
+  const stale = await call("list_customers", { sort_by: "created_at", after: "not-a-cursor" });
+  assert(stale.isError && stale.error?.code === "invalid_argument", "a cursor from another listing should be rejected");
+
+  const [sam] = mock.state.customers.filter((c) => c.id === "c_sam");
+  for (let i = 0; i < 1000; i++) {
+    mock.state.customers.push({ ...sam!, id: `c_bulk${i}`, email: `bulk${i}@widgets.io` });
+  }
+  const capped = (await ok("list_customers", { sort_by: "created_at" })).structured;
+  assert(capped.truncated === true, "a local listing past the cap should say it was truncated");
+}
+
+async function testCustomerGroups(): Promise<void> {
+  const groups = (await ok("list_customer_groups")).json().customerGroups;
+  assert(groups[0]?.key === "vip", "should list customer groups");
+
+  const created = (await ok("create_customer_group", { name: "Trial", key: "trial" })).json();
+  assert(created.key === "trial", "should create group");
+
+  await ok("add_customer_to_groups", { customer_id: "c_sam", group_ids: [created.id, "cg_vip"] });
+  assert(mock.state.customers.find((c) => c.id === "c_sam")?.customerGroupIds.length === 2, "should add to groups");
+
+  const removed = await ok("remove_customer_from_groups", { customer_id: "c_sam", group_ids: ["cg_vip"] });
+  assert(removed.text === "Customer removed from 1 group(s)", "should report group count");
+}
+
+// =============================================================================
+// THREAD TESTS
+// =============================================================================
+
+async function testListThreads(): Promise<void> {
+  const todo = (await ok("list_threads")).json().threads;
+  assert(todo.length === 2, "should default to todo threads");
+  const login = todo.find((t: any) => t.id === "th_login");
+  assert(login.customer.name === "Jane Doe" && login.customer.email === "jane@example.com", "should resolve customers");
+  assert(login.labels[0] === "Bug", "should flatten label names");
+  assert(login.assignee?.id === "u_alice", "should include the assignee");
+  assert(!mock.calls.some((c) => c.field === "customer"), "customers should come back with the threads");
+
+  const snoozed = (await ok("list_threads", { status: "snoozed" })).json().threads;
+  assert(snoozed.length === 1 && snoozed[0].id === "th_export", "should filter by status");
+
+  const urgent = (await ok("list_threads", { priorities: [1] })).json().threads;
+  assert(urgent.length === 1 && urgent[0].id === "th_login", "should filter by priority");
+
+  const unassigned = (await ok("list_threads", { is_assigned: false })).json().threads;
+  assert(unassigned.length === 1 && unassigned[0].id === "th_invoice", "should filter by assignment");
+
+  const alice = (await ok("list_threads", { assigned_to_user: ["u_alice"] })).json().threads;
+  assert(alice.length === 1 && alice[0].id === "th_login", "should filter by assignee");
+}
+
+async function testCustomerCache(): Promise<void> {
+  await ok("list_threads");
+  mock.calls.length = 0;
+  const thread = (await ok("get_thread", { thread_id: "th_login" })).json();
+  assert(thread.customer.name === "Jane Doe", "should read the customer from the cache");
+  assert(!mock.calls.some((c) => c.field === "customer"), "cached customers should not be fetched again");
+
+  await ok("upsert_customer", { email: "jane@example.com", full_name: "Jane Smith" });
+  const renamed = (await ok("get_thread", { thread_id: "th_login" })).json();
+  assert(renamed.customer.name === "Jane Smith", "upsert_customer should invalidate the cached customer");
+
+  const customerIds = mock.state.customers.map((c) => c.id);
+  const cache = customerCache(plain);
+  customerIds.forEach((id) => cache.invalidate(id));
+  mock.calls.length = 0;
+  const lookup = await cache.get([...customerIds, "c_missing"]);
+  assert(lookup.data?.size === customerIds.length, "should look up every known customer");
+  assert(new Set(mock.calls.map((c) => c.operationName)).size === 1, "misses should be fetched in one query");
+}
+
+async function testPagination(): Promise<void> {
+  const first = (await ok("list_threads", { limit: 1 })).json();
+  assert(first.threads.length === 1 && first.has_more === true, "first page should report more results");
+  assert(typeof first.next_cursor === "string", "first page should return a cursor");
+
+  const second = (await ok("list_threads", { limit: 1, after: first.next_cursor })).json();
+  assert(second.threads.length === 1 && second.threads[0].id !== first.threads[0].id, "after should return the next page");
+  assert(second.has_more === false && second.next_cursor === null, "last page should have no cursor");
+
+  const all = (await ok("list_threads", { limit: 1, fetch_all: true })).json();
+  assert(all.threads.length === 2 && all.has_more === false, "fetch_all should walk every page");
+  assert(mock.calls.filter((c) => c.field === "threads").length === 4, "fetch_all should request one page at a time");
+
+  await ok("list_tiers", { limit: 1 });
+  assert(mock.calls.at(-1)?.args.first === 1, "list_tiers should pass limit through as page size");
+
+  for (let i = 0; i < 1050; i++) {
+    mock.state.snippets.push({ id: `sn_bulk${i}`, name: `bulk ${i}`, text: "", createdAt: "2024-01-12T00:00:00.000Z" });
   }
+  const capped = (await ok("list_snippets", { limit: 100, fetch_all: true })).json();
+  assert(capped.snippets.length === 1000, "fetch_all should stop at the safety cap");
+  assert(capped.has_more === true && typeof capped.next_cursor === "string", "capped result should be resumable");
 }
 
-// Test: get_thread returns thread with customer details and timeline
 async function testGetThread(): Promise<void> {
-  // First get a thread ID
-  const listResult = await plain.getThreads({
-    filters: { statuses: [ThreadStatus.Todo] },
-    first: 1,
-  });
+  const thread = (await ok("get_thread", { thread_id: "th_login" })).json();
+  assert(thread.customer.name === "Jane Doe" && thread.customer.email === "jane@example.com", "should include customer");
+  assert(thread.timeline.length === 3, "timeline should only include this thread's entries");
+  assert(thread.timeline[0].type === "EmailEntry", "first entry should be the email");
+  assert(thread.timeline[0].actor === "Jane Doe", "customer actor should resolve to name");
+  assert(thread.timeline[1].content === "Could you check your spam folder?", "chat text should be read via alias");
+  assert(thread.timeline[2].content === "Possibly the SES bounce issue", "note text should be read via alias");
+
+  assert(thread.timelineTruncated === false, "a short timeline should not be marked truncated");
 
-  assert(!listResult.error, `List error: ${listResult.error?.message}`);
+  const custom = (await ok("get_thread", { thread_id: "th_export" })).json();
+  assert(custom.timeline[0].content === "Export queued for jane@example.com", "custom entry text components");
+  assert(custom.timeline[0].actor === "System", `system actor: ${custom.timeline[0].actor}`);
 
-  if (listResult.data.threads.length === 0) {
-    console.log("  → Skipping: no threads available");
-    return;
+  const missing = await call("get_thread", { thread_id: "th_missing" });
+  assert(missing.isError && missing.error?.message === "Thread not found", "unknown thread should error");
+}
+
+async function testThreadTimelinePagination(): Promise<void> {
+  // Older chat on the thread, more than two pages of it
+  for (let i = 0; i < 250; i++) {
+    mock.state.timelineEntries.push({
+      id: `te_old${i}`,
+      customerId: "c_jane",
+      threadId: "th_login",
+      timestamp: new Date(Date.UTC(2024, 0, 1, i)).toISOString(),
+      actor: { type: "customer", id: "c_jane" },
+      entry: { __typename: "ChatEntry", chatId: `ch_old${i}`, text: `Message ${i}` },
+    });
   }
 
-  const threadId = listResult.data.threads[0].id;
-  const threadResult = await plain.getThread({ threadId });
+  const full = (await ok("get_thread", { thread_id: "th_login", max_entries: 1000 })).structured;
+  assert(full.timeline.length === 253 && !full.timelineTruncated, `should page back to the first entry, got ${full.timeline.length}`);
+  assert(full.timeline[0].content === "Message 0" && full.timeline[252].type === "NoteEntry", "timeline should be oldest first");
+  const pages = mock.calls.filter((c) => c.field === "thread" && c.operationName === "ThreadTimeline");
+  assert(pages.length === 3 && pages.every((c) => c.args.threadId === "th_login"), "timeline should be fetched per thread");
+
+  const recent = (await ok("get_thread", { thread_id: "th_login", max_entries: 10 })).structured;
+  assert(recent.timeline.length === 10 && recent.timelineTruncated, "max_entries should keep the newest entries and mark truncation");
+  assert(recent.timeline[0].content === "Message 243" && recent.timeline[9].type === "NoteEntry", "kept entries should be the latest");
+
+  const since = (await ok("get_thread", { thread_id: "th_login", since: "2024-06-01T00:00:00Z" })).structured;
+  assert(since.timeline.length === 3 && !since.timelineTruncated, "since should stop at older entries without marking truncation");
+
+  const notes = (await ok("get_thread", { thread_id: "th_login", entry_types: ["NoteEntry"], max_entries: 1 })).structured;
+  assert(notes.timeline.length === 1 && notes.timeline[0].content === "Possibly the SES bounce issue", "entry_types should filter");
+  assert(!notes.timelineTruncated, "filtered-out entries should not count as truncation");
+}
+
+async function testTimelineEntryTypes(): Promise<void> {
+  const at = (minute: number) => new Date(Date.UTC(2024, 5, 3, 9, minute)).toISOString();
+  const entries: Record<string, any>[] = [
+    {
+      __typename: "SlackMessageEntry",
+      text: "Any update on the refund?",
+      slackWebMessageLink: "https://mock.slack.com/archives/C1/p1",
+      attachments: [{ id: "att_1", fileName: "invoice-4471.pdf", fileMimeType: "application/pdf", fileSize: { bytes: 2048 } }],
+    },
+    {
+      __typename: "ThreadStatusTransitionedEntry",
+      previousStatus: "TODO",
+      nextStatus: "DONE",
+      previousStatusDetail: { __typename: "ThreadStatusDetailNewReply" },
+      nextStatusDetail: { __typename: "ThreadStatusDetailDoneManuallySet" },
+    },
+    {
+      __typename: "ThreadAssignmentTransitionedEntry",
+      previousAssignee: { __typename: "User", fullName: "Alice Agent" },
+      nextAssignee: { __typename: "User", fullName: "Bob Builder" },
+    },
+    {
+      __typename: "ThreadLabelsChangedEntry",
+      previousLabels: [{ labelType: { name: "Bug" } }],
+      nextLabels: [{ labelType: { name: "Billing" } }],
+    },
+    { __typename: "ThreadPriorityChangedEntry", previousPriority: 2, nextPriority: 0 },
+    {
+      __typename: "ThreadLinkUpdatedEntry",
+      previousThreadLink: { status: "TODO" },
+      threadLink: { sourceType: "linear", title: "Duplicate charge", url: "https://linear.app/mock/issue/BIL-12", status: "DONE" },
+    },
+    {
+      __typename: "ThreadEventEntry",
+      title: "Refund issued",
+      components: [
+        {
+          __typename: "ComponentRow",
+          rowMainContent: [{ __typename: "ComponentText", text: "Refunded $49.00" }],
+          rowAsideContent: [{ __typename: "ComponentBadge", badgeLabel: "Paid", badgeColor: "GREEN" }],
+        },
+        { __typename: "ComponentDivider" },
+        { __typename: "ComponentLinkButton", linkButtonLabel: "View in Stripe", linkButtonUrl: "https://stripe.mock/re_1" },
+      ],
+    },
+    { __typename: "ThreadDiscussionEntry", slackChannelName: "billing", slackMessageLink: "https://mock.slack.com/archives/C2/p2" },
+  ];
+  entries.forEach((entry, i) =>
+    mock.state.timelineEntries.push({
+      id: `te_kind${i}`,
+      customerId: "c_sam",
+      threadId: "th_invoice",
+      timestamp: at(i),
+      actor: { type: "user", id: "u_alice" },
+      entry,
+    })
+  );
+
+  const thread = (await ok("get_thread", { thread_id: "th_invoice" })).structured;
+  const [chat, slack, status, assignment, labels, priority, link, event, discussion] = thread.timeline;
+  assert(chat.details.kind === "message" && chat.details.channel === "chat", "chat entries should be messages");
+  assert(slack.content === "Any update on the refund?\n[attachment: invoice-4471.pdf]", `slack content: ${slack.content}`);
+  assert(slack.details.channel === "slack" && slack.details.link.endsWith("/p1"), "slack messages should link to Slack");
+  assert(slack.attachments[0].mimeType === "application/pdf" && slack.attachments[0].sizeBytes === 2048, "attachments should be listed");
+  assert(status.content === "Status changed from TODO (NEW_REPLY) to DONE (DONE_MANUALLY_SET)", `status content: ${status.content}`);
+  assert(status.details.kind === "status_change" && status.details.nextStatusDetail === "DONE_MANUALLY_SET", "status details");
+  assert(assignment.content === "Reassigned from Alice Agent to Bob Builder", `assignment content: ${assignment.content}`);
+  assert(labels.content === "Labels added Billing; removed Bug", `labels content: ${labels.content}`);
+  assert(labels.details.added[0] === "Billing" && labels.details.removed[0] === "Bug", "labels details");
+  assert(priority.content === "Priority changed from normal to urgent", `priority content: ${priority.content}`);
+  assert(link.content === 'Linked linear issue "Duplicate charge" moved from TODO to DONE', `link content: ${link.content}`);
+  assert(event.content === "Refunded $49.00\n[Paid]\nView in Stripe: https://stripe.mock/re_1", `event content: ${event.content}`);
+  assert(
+    event.details.kind === "event" && event.details.components.map((c: any) => c.type).join() === "text,badge,link_button",
+    "rows should be flattened and dividers dropped"
+  );
+  assert(discussion.content === "Discussion started in #billing" && !discussion.details.resolved, "discussion entries");
+
+  const compact = (await ok("get_thread", { thread_id: "th_invoice", format: "compact" })).text;
+  assert(compact.includes("content=Priority changed from normal to urgent") && !compact.includes("details="), "compact should keep only the content");
+}
+
+async function testSearchThreads(): Promise<void> {
+  const invoice = (await ok("search_threads", { term: "invoice 4471" })).structured;
+  assert(invoice.threads.length === 1 && invoice.threads[0].id === "th_invoice", "should find the thread mentioning the invoice");
+  assert(invoice.threads[0].customer.name === "Sam Smith", "hits should carry the thread's customer");
+  assert(invoice.threads[0].match.entryId === "te_5", "the match should point at the timeline entry");
+  assert(invoice.threads[0].match.snippet === "Why was I charged twice for invoice 4471?", `snippet: ${invoice.threads[0].match.snippet}`);
+  const search = mock.calls.find((c) => c.field === "searchThreads")!;
+  assert(search.args.searchQuery.term === "invoice 4471" && Object.keys(search.args.filters).length === 0, "should search every status by default");
+  assert(!mock.calls.some((c) => c.operationName === "ThreadTimeline"), "snippets should come from one batched query, not a timeline walk per hit");
+
+  const spam = (await ok("search_threads", { term: "spam folder" })).structured;
+  assert(spam.threads[0].id === "th_login" && spam.threads[0].match.type === "ChatEntry", "should match inside the conversation");
 
-  assert(!threadResult.error, `Thread fetch error: ${threadResult.error?.message}`);
-  assert(threadResult.data !== null, "thread data should not be null");
+  const filtered = (await ok("search_threads", { term: "invoice", statuses: ["done"], label_type_ids: ["lt_billing"] })).structured;
+  assert(filtered.threads.length === 0, "filters should combine with the search term");
+  const filters = mock.calls.filter((c) => c.field === "searchThreads").at(-1)!.args.filters;
+  assert(filters.statuses[0] === "DONE" && filters.labelTypeIds[0] === "lt_billing", "filters should be passed to Plain");
 
-  const thread = threadResult.data as any;
-  assert(typeof thread.id === "string", "thread should have id");
-  assert(typeof thread.status === "string", "thread should have status");
+  const paged = (await ok("search_threads", { term: "in", limit: 1 })).structured;
+  assert(paged.threads.length === 1 && paged.has_more && paged.next_cursor, "hits should be paginated");
+  const next = (await ok("search_threads", { term: "in", limit: 1, after: paged.next_cursor })).structured;
+  assert(next.threads[0].id !== paged.threads[0].id, "the next page should continue after the cursor");
+}
+
+async function testQueueStats(): Promise<void> {
+  const stats = (await ok("get_queue_stats")).structured;
+  assert(stats.todo === 2 && stats.snoozed === 1 && stats.done === 1, "should count todo, snoozed and done threads");
+  assert(stats.byPriority.high === 1 && stats.byPriority.normal === 1 && stats.byPriority.low === 1, "should break down by priority");
+  assert(stats.byStatusDetail.NEW_REPLY === 1 && stats.byStatusDetail.WAITING_FOR_CUSTOMER === 1, "should break down by status detail");
+  assert(stats.byAssignee.some((a: any) => a.id === null && a.name === "Unassigned" && a.count === 1), "should count unassigned threads");
+  assert(stats.byLabel.map((l: any) => l.name).sort().join() === "Billing,Bug", "should break down by label");
+  assert(stats.byTier[0].id === null && stats.byTier[0].count === 2 && stats.byTier[1].name === "Gold", "should break down by tier");
+  assert(stats.oldestWaiting.threadId === "th_login" && stats.oldestWaiting.waitingSeconds > 0, "should find the longest-waiting todo thread");
+  assert(!stats.truncated, "a small queue should be read in full");
+  assert(mock.calls.filter((c) => c.operationName === "QueueCounts").length === 15, "every count should come from one aliased query");
 
-  // Test customer fetch
-  if (thread.customer?.id) {
-    const customerResult = await plain.getCustomerById({
-      customerId: thread.customer.id,
+  // More open threads than one page, and counts that come from totalCount rather than the page
+  for (let i = 0; i < 240; i++) {
+    mock.state.threads.push({
+      ...mock.state.threads[1]!,
+      id: `th_bulk${i}`,
+      ref: `T-${100 + i}`,
+      updatedAt: new Date(Date.UTC(2024, 6, 1, 0, i)).toISOString(),
     });
-    assert(!customerResult.error, `Customer error: ${customerResult.error?.message}`);
+  }
+  const bulk = (await ok("get_queue_stats")).structured;
+  assert(bulk.todo === 242 && bulk.byPriority.normal === 241, `should count past the first page, got ${bulk.todo}`);
+  const pages = mock.calls.filter((c) => c.operationName === "QueueThreads");
+  assert(pages.length === 1 + 3, "should page through open threads");
+  assert(!bulk.truncated && bulk.byTier.find((t: any) => t.id === null).count === 242, "breakdowns under the cap should cover every open thread");
 
-    const customer = customerResult.data;
-    console.log(`  → Thread: ${thread.title || "(no title)"}`);
-    console.log(`  → Customer ID: ${thread.customer.id}`);
-    console.log(`  → Customer Name: ${customer?.fullName || "N/A"}`);
-    console.log(`  → Customer Email: ${customer?.email?.email || "N/A"}`);
+  for (let i = 240; i < 540; i++) {
+    mock.state.threads.push({ ...mock.state.threads[1]!, id: `th_bulk${i}`, ref: `T-${100 + i}` });
   }
+  const capped = (await ok("get_queue_stats")).structured;
+  assert(capped.truncated && capped.byPriority.normal === 541, "past the cap, breakdowns are partial but priority counts stay exact");
+  assert(capped.byTier.reduce((sum: number, t: any) => sum + t.count, 0) === 500, "breakdowns should stop at the cap");
+
+  const billing = (await ok("get_queue_stats", { label_type_ids: ["lt_bug"] })).structured;
+  assert(billing.todo === 1 && billing.snoozed === 0 && billing.byLabel.length === 1, "label filter should scope every count");
+  const team = (await ok("get_queue_stats", { assigned_to_user: ["u_bob"] })).structured;
+  assert(team.todo === 0 && team.snoozed === 1 && team.oldestWaiting === null, "assignee filter should scope to a team");
+}
+
+async function testThreadLifecycle(): Promise<void> {
+  const created = (await ok("create_thread", { customer_id: "c_sam", title: "New issue" })).json();
+  assert(created.status === "TODO", "new thread should be todo");
+  assert(lastMutationInput("createThread").priority === 2, "priority should default to normal");
+
+  const invalid = await call("create_thread", { customer_id: "c_missing", title: "Nope" });
+  assert(invalid.isError, "unknown customer should fail");
+
+  const renamed = await ok("update_thread_title", { thread_id: created.id, title: "Renamed issue" });
+  assert(renamed.text === "Thread title updated to: Renamed issue", "should confirm rename");
+
+  const priority = await ok("change_thread_priority", { thread_id: created.id, priority: 0 });
+  assert(priority.text === "Thread priority changed to urgent", "should name the new priority");
+
+  const assigned = await ok("assign_thread", { thread_id: created.id, user_id: "u_bob" });
+  assert(assigned.text === "Thread assigned to Bob Builder", "should name the assignee");
+
+  await ok("unassign_thread", { thread_id: created.id });
+  assert(mock.state.threads.find((t) => t.id === created.id)?.assignedToUserId === null, "should unassign");
+
+  const event = await ok("create_thread_event", {
+    thread_id: created.id,
+    title: "Deploy",
+    components: [{ type: "TEXT", text: "Fix shipped" }],
+  });
+  assert(event.text.startsWith("Thread event created:"), "should create thread event");
+
+  await ok("delete_thread", { thread_id: created.id });
+  assert(!mock.state.threads.some((t) => t.id === created.id), "should delete thread");
+}
+
+async function testThreadActions(): Promise<void> {
+  await ok("reply_to_thread", { thread_id: "th_invoice", text: "Looking into it" });
+  const reply = mock.state.timelineEntries.at(-1)!;
+  assert(reply.threadId === "th_invoice" && reply.entry.text === "Looking into it", "reply should land on the thread");
+
+  await ok("mark_thread_done", { thread_id: "th_invoice" });
+  assert(mock.state.threads.find((t) => t.id === "th_invoice")?.status === "DONE", "should mark done");
+
+  await ok("mark_thread_todo", { thread_id: "th_invoice" });
+  assert(mock.state.threads.find((t) => t.id === "th_invoice")?.status === "TODO", "should mark todo");
+
+  const detail = await ok("change_thread_status_to_todo", { thread_id: "th_invoice", status_detail: "IN_PROGRESS" });
+  assert(detail.text.includes("IN_PROGRESS"), "should mention the status detail");
+  assert(lastMutationInput("markThreadAsTodo").statusDetail === "IN_PROGRESS", "should send status detail");
 }
 
-// Test: timeline query returns entries
-async function testTimeline(): Promise<void> {
-  // Get a thread with a customer
-  const listResult = await plain.getThreads({
-    filters: { statuses: [ThreadStatus.Todo] },
-    first: 5,
+async function testSnoozeThread(): Promise<void> {
+  const missingDuration = await call("snooze_thread", { thread_id: "th_login", status_detail: "WAITING_FOR_DURATION" });
+  assert(missingDuration.isError && missingDuration.text.includes("duration_seconds is required"), "duration required");
+
+  const timed = await ok("snooze_thread", { thread_id: "th_login", status_detail: "WAITING_FOR_DURATION", duration_seconds: 7200 });
+  assert(timed.text === "Thread th_login snoozed for 2 hour(s)", "should report duration");
+
+  await ok("snooze_thread", { thread_id: "th_invoice", status_detail: "WAITING_FOR_CUSTOMER" });
+  assert(lastMutationInput("snoozeThread").durationSeconds === undefined, "customer snooze should not send a duration");
+
+  mock.failNext("snoozeThread", {
+    message: "Input validation failed",
+    fields: [{ field: "durationSeconds", message: "Too long" }],
   });
+  const failed = await call("snooze_thread", { thread_id: "th_login", status_detail: "WAITING_FOR_DURATION", duration_seconds: 60 });
+  assert(failed.isError && failed.text.includes("durationSeconds: Too long"), "should surface field errors");
+}
+
+async function testLabels(): Promise<void> {
+  const labels = (await ok("list_label_types")).json().labelTypes;
+  assert(labels.length === 2, "should list label types");
+
+  const created = (await ok("create_label_type", { name: "Urgent", icon: "🔥" })).json();
+  assert(created.icon === "🔥", "should create label type");
+
+  await ok("add_labels_to_thread", { thread_id: "th_invoice", label_type_ids: [created.id] });
+  assert(mock.state.threads.find((t) => t.id === "th_invoice")?.labelTypeIds.includes(created.id) === true, "should add label");
+
+  await ok("remove_labels_from_thread", { thread_id: "th_invoice", label_type_ids: [created.id] });
+  assert(!mock.state.threads.find((t) => t.id === "th_invoice")?.labelTypeIds.includes(created.id), "should remove label");
+}
+
+async function testThreadFields(): Promise<void> {
+  const schemas = (await ok("list_thread_field_schemas")).json().threadFieldSchemas;
+  assert(schemas[0]?.key === "product", "should list thread field schemas");
+
+  const set = await ok("upsert_thread_field", { thread_id: "th_login", key: "product", value: "API" });
+  assert(set.text === "Thread field 'product' set to 'API'", "should confirm field value");
+
+  const unknown = await call("upsert_thread_field", { thread_id: "th_login", key: "nope", value: "x" });
+  assert(unknown.isError, "unknown field key should fail");
+}
+
+async function testNotes(): Promise<void> {
+  await ok("create_note", { thread_id: "th_login", customer_id: "c_jane", text: "Escalated to eng" });
+  const note = mock.state.timelineEntries.at(-1)!;
+  assert(note.entry.__typename === "NoteEntry", "should add a note entry");
+
+  await ok("delete_note", { note_id: note.entry.noteId });
+  assert(!mock.state.timelineEntries.some((e) => e.entry.noteId === note.entry.noteId), "should delete the note");
+}
+
+// =============================================================================
+// COMMUNICATION TESTS
+// =============================================================================
+
+async function testMessaging(): Promise<void> {
+  const email = await ok("send_email", { customer_id: "c_sam", subject: "Your refund", text_content: "Refund issued" });
+  assert(email.text.startsWith("Email sent. Thread ID:"), "should confirm email");
+  assert(email.structured.thread.customer.id === "c_sam", "should return the new thread");
+
+  const chat = await ok("send_chat", { customer_id: "c_jane", text: "Any update?" });
+  assert(chat.text === "Chat sent. Thread ID: th_login", "should send chat into the open thread");
+}
+
+// =============================================================================
+// COMPANY & TENANT TESTS
+// =============================================================================
+
+async function testCompaniesAndTenants(): Promise<void> {
+  const company = (await ok("upsert_company", { name: "Widgets", domain: "widgets.io" })).json();
+  assert(company.domainName === "widgets.io", "should upsert company");
+  await ok("delete_company", { company_id: company.id });
+  assert(!mock.state.companies.some((c) => c.id === company.id), "should delete company");
+
+  const tenant = (await ok("upsert_tenant", { identifier: "us-tenant", name: "US Tenant" })).json();
+  assert(tenant.identifier === "us-tenant", "should upsert tenant");
+  await ok("delete_tenant", { tenant_id: tenant.id });
+  assert(!mock.state.tenants.some((t) => t.id === tenant.id), "should delete tenant");
+}
+
+async function testCompanyReads(): Promise<void> {
+  await ok("upsert_company", { name: "Widgets", domain: "widgets.io" });
+  const listed = (await ok("list_companies")).structured.companies;
+  assert(listed.length === 2 && listed[0].name === "Example Inc", "should list companies");
+  assert(listed[0].tier.name === "Gold" && listed[1].tier === null, "companies should carry their tier");
+
+  const company = (await ok("get_company", { company_id: "co_example" })).structured;
+  assert(company.domainName === "example.com" && company.createdAt === "2024-01-10T00:00:00.000Z", "should get a company");
+  const missing = await call("get_company", { company_id: "co_missing" });
+  assert(missing.isError && missing.error?.code === "not_found", "unknown company should be not_found");
+
+  const byDomain = (await ok("search_companies", { term: "widgets" })).structured.companies;
+  assert(byDomain.length === 1 && byDomain[0].domainName === "widgets.io", "should search by domain");
+  const byName = (await ok("search_companies", { term: "example" })).structured.companies;
+  assert(byName.length === 1 && byName[0].id === "co_example", "should search by name");
+
+  const threads = (await ok("list_company_threads", { company_id: "co_example" })).structured.threads;
+  assert(threads.map((t: any) => t.id).sort().join() === "th_export,th_login", "should list threads of the company's customers");
+  const open = (await ok("list_company_threads", { company_id: "co_example", statuses: ["todo"] })).structured.threads;
+  assert(open.length === 1 && open[0].id === "th_login", "should filter company threads by status");
+  const filters = mock.calls.filter((c) => c.field === "threads").at(-1)!.args.filters;
+  assert(filters.companyIdentifiers[0].companyId === "co_example", "the company filter should be Plain's");
+}
+
+async function testTenants(): Promise<void> {
+  const listed = (await ok("list_tenants")).structured.tenants;
+  assert(listed.length === 1 && listed[0].id === "te_eu" && listed[0].updatedAt === "2024-01-11T00:00:00.000Z", "should list tenants");
+  const tenant = (await ok("get_tenant", { tenant_id: "te_eu" })).structured;
+  assert(tenant.name === "EU Tenant" && tenant.tier === null, "should get a tenant");
+  const missing = await call("get_tenant", { tenant_id: "te_missing" });
+  assert(missing.isError && missing.error?.code === "not_found", "unknown tenant should be not_found");
 
-  assert(!listResult.error, `List error: ${listResult.error?.message}`);
+  const added = await ok("add_customer_to_tenants", { customer_id: "c_sam", tenant_ids: ["te_eu"] });
+  assert(added.text === "Customer added to 1 tenant(s)", "should confirm the addition");
+  assert(lastMutationInput("addCustomerToTenants").customerIdentifier.customerId === "c_sam", "should identify the customer by ID");
+  const members = (await ok("list_customers", { tenant_id: "te_eu" })).structured.customers;
+  assert(members.map((c: any) => c.id).join() === "c_jane,c_sam", "the tenant should list its new customer");
+
+  await ok("remove_customer_from_tenants", { customer_id: "c_jane", tenant_ids: ["te_eu"] });
+  assert(mock.state.customers.find((c) => c.id === "c_jane")!.tenantIds.length === 0, "should remove the customer from the tenant");
+  const unknown = await call("add_customer_to_tenants", { customer_id: "c_sam", tenant_ids: ["te_missing"] });
+  assert(unknown.isError, "unknown tenants should fail");
+
+  const threads = (await ok("list_tenant_threads", { tenant_id: "te_eu" })).structured.threads;
+  assert(threads.length === 1 && threads[0].id === "th_login", "should list the tenant's threads");
+  const done = (await ok("list_tenant_threads", { tenant_id: "te_eu", statuses: ["done"] })).structured.threads;
+  assert(done.length === 0, "should filter tenant threads by status");
+}
+
+// =============================================================================
+// WORKSPACE CONFIGURATION TESTS
+// =============================================================================
+
+async function testSnippets(): Promise<void> {
+  const snippets = (await ok("list_snippets")).json().snippets;
+  assert(snippets[0]?.name === "thanks", "should list snippets");
+
+  const created = (await ok("create_snippet", { name: "bye", text: "Goodbye!" })).json();
+  await ok("update_snippet", { snippet_id: created.id, text: "See you!" });
+  assert(mock.state.snippets.find((s) => s.id === created.id)?.text === "See you!", "should update snippet");
+  await ok("delete_snippet", { snippet_id: created.id });
+  assert(!mock.state.snippets.some((s) => s.id === created.id), "should delete snippet");
+}
+
+async function testWebhooks(): Promise<void> {
+  const webhooks = (await ok("list_webhooks")).json().webhooks;
+  assert(webhooks[0]?.eventSubscriptions[0] === "thread.created", "event subscriptions should be flattened");
+
+  const created = (await ok("create_webhook", { url: "https://example.com/hook", event_types: ["thread.created"] })).json();
+  assert(created.isEnabled === true, "webhooks should be enabled by default");
+  await ok("update_webhook", { webhook_id: created.id, is_enabled: false });
+  assert(mock.state.webhookTargets.find((w) => w.id === created.id)?.isEnabled === false, "should disable webhook");
+  await ok("delete_webhook", { webhook_id: created.id });
+  assert(!mock.state.webhookTargets.some((w) => w.id === created.id), "should delete webhook");
+}
 
-  const threadWithCustomer = listResult.data.threads.find((t: any) => t.customer?.id);
-  if (!threadWithCustomer) {
-    console.log("  → Skipping: no threads with customers");
-    return;
+async function testAutorespondersAndTiers(): Promise<void> {
+  const autoresponders = (await ok("list_autoresponders")).json().autoresponders;
+  assert(autoresponders[0]?.id === "ar_ooo", "should list autoresponders");
+  const autoresponder = (await ok("create_autoresponder", { name: "Holidays", text_content: "Closed" })).json();
+  await ok("delete_autoresponder", { autoresponder_id: autoresponder.id });
+  assert(!mock.state.autoresponders.some((a) => a.id === autoresponder.id), "should delete autoresponder");
+
+  const tiers = (await ok("list_tiers")).json().tiers;
+  assert(tiers[0]?.name === "Gold", "should list tiers");
+  const tier = (await ok("create_tier", { name: "Silver", color: "#C0C0C0" })).json();
+  await ok("delete_tier", { tier_id: tier.id });
+  assert(!mock.state.tiers.some((t) => t.id === tier.id), "should delete tier");
+}
+
+async function testWorkspaceAndUsers(): Promise<void> {
+  const workspace = (await ok("get_workspace")).json();
+  assert(workspace.id === "w_mock", "should return workspace");
+
+  const users = (await ok("list_users")).json().users;
+  assert(users.length === 2 && users[0].fullName === "Alice Agent", "should list users");
+}
+
+async function testMultipleWorkspaces(): Promise<void> {
+  const usMock = startMockPlain();
+  usMock.state.workspace.name = "US Workspace";
+  const us = createPlainClient({ apiKey: "us-key", apiUrl: usMock.url });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const multiClient = new Client({ name: "plain-mcp-test-multi", version: "1.0.0" });
+  await createServer({ defaultName: "eu", clients: { eu: plain, us } }).connect(serverTransport);
+  await multiClient.connect(clientTransport);
+  const callText = async (name: string, args: Record<string, unknown>) => {
+    const result = await multiClient.callTool({ name, arguments: args });
+    return { isError: !!result.isError, text: (result.content as { text: string }[])[0]?.text ?? "" };
+  };
+
+  try {
+    const eu = JSON.parse((await callText("get_workspace", {})).text);
+    assert(eu.name === "Mock Workspace" && eu.configuredAs === "eu", "should default to the eu workspace");
+    assert(eu.configuredWorkspaces.length === 2, "should report configured workspaces");
+    assert(eu.configuredWorkspaces.find((w: any) => w.isDefault)?.name === "eu", "should flag the default workspace");
+
+    const usWorkspace = JSON.parse((await callText("get_workspace", { workspace: "us" })).text);
+    assert(usWorkspace.name === "US Workspace" && usWorkspace.configuredAs === "us", "workspace arg should select the client");
+
+    await callText("list_threads", { workspace: "us" });
+    assert(usMock.calls.some((c) => c.field === "threads"), "list_threads should run against the us workspace");
+    assert(!mock.calls.some((c) => c.field === "threads"), "default workspace should not be queried");
+
+    const unknown = await callText("get_workspace", { workspace: "apac" });
+    assert(unknown.isError, "unknown workspace should be rejected");
+  } finally {
+    await multiClient.close();
+    usMock.stop();
   }
+}
+
+async function testLoadWorkspaces(): Promise<void> {
+  const single = loadWorkspaces({ PLAIN_API_KEY: "k" });
+  assert(single.defaultName === "default" && Object.keys(single.clients).length === 1, "PLAIN_API_KEY is the default workspace");
 
-  const customerId = (threadWithCustomer as any).customer.id;
-  const threadId = threadWithCustomer.id;
-
-  const timelineQuery = `
-    query TimelineEntries($customerId: ID!, $first: Int) {
-      timelineEntries(customerId: $customerId, first: $first) {
-        edges {
-          node {
-            id
-            timestamp { iso8601 }
-            threadId
-            actor {
-              ... on UserActor {
-                __typename
-                user { fullName email }
-              }
-              ... on CustomerActor {
-                __typename
-                customer { fullName email { email } }
-              }
-              ... on SystemActor {
-                __typename
-              }
-              ... on MachineUserActor {
-                __typename
-                machineUser { fullName }
-              }
-            }
-            entry {
-              ... on ChatEntry {
-                __typename
-                chatId
-                chatText: text
-              }
-              ... on EmailEntry {
-                __typename
-                emailId
-                subject
-                textContent
-                from { email name }
-                to { email name }
-              }
-              ... on NoteEntry {
-                __typename
-                noteId
-                noteText: text
-              }
-              ... on CustomEntry {
-                __typename
-                title
-                components {
-                  ... on ComponentText {
-                    __typename
-                    componentText: text
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
+  const named = loadWorkspaces({ PLAIN_API_KEY_EU: "k1", PLAIN_API_KEY_US: "k2", PLAIN_DEFAULT_WORKSPACE: "US" });
+  assert(named.defaultName === "us" && Object.keys(named.clients).sort().join() === "eu,us", "named keys become workspaces");
+
+  const throws = (env: Record<string, string>) => {
+    try {
+      loadWorkspaces(env);
+      return false;
+    } catch {
+      return true;
     }
-  `;
+  };
+  assert(throws({}), "no keys should be rejected");
+  assert(throws({ PLAIN_API_KEY_EU: "k1", PLAIN_API_KEY_US: "k2" }), "ambiguous default should be rejected");
+  assert(throws({ PLAIN_API_KEY: "k", PLAIN_DEFAULT_WORKSPACE: "eu" }), "unknown default should be rejected");
+}
 
-  const timelineResult = await plain.rawRequest({
-    query: timelineQuery,
-    variables: { customerId, first: 50 },
-  });
+async function testReadOnlyMode(): Promise<void> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const readOnlyClient = new Client({ name: "plain-mcp-test-readonly", version: "1.0.0" });
+  await createServer(plain, { readOnly: true }).connect(serverTransport);
+  await readOnlyClient.connect(clientTransport);
+
+  try {
+    const { tools } = await readOnlyClient.listTools();
+    const names = tools.map((t) => t.name);
+    assert(names.includes("list_threads") && names.includes("get_thread"), "query tools should be registered");
+    assert(names.includes("search_customers") && names.includes("get_queue_stats"), "search and stats should be registered");
+    assert(!names.some((n) => /^(delete|create|update|upsert|send|reply|mark|snooze|assign)_/.test(n)), "mutations should be hidden");
+    assert(tools.every((t) => t.annotations?.readOnlyHint === true), "every registered tool should be annotated read-only");
+
+    const threads = await readOnlyClient.callTool({ name: "list_threads", arguments: {} });
+    assert(!threads.isError, "query tools should still work");
+
+    const rejected = await readOnlyClient.callTool({ name: "delete_thread", arguments: { thread_id: "th_login" } });
+    assert(!!rejected.isError, "calling a mutation should fail");
+    assert(!mock.calls.some((c) => c.field === "deleteThread"), "mutation should never reach the API");
+  } finally {
+    await readOnlyClient.close();
+  }
+}
+
+// =============================================================================
+// TOOLSET TESTS
+// =============================================================================
+
+async function testToolsets(): Promise<void> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const triageClient = new Client({ name: "plain-mcp-test-toolsets", version: "1.0.0" });
+  await createServer(plain, { toolsets: ["threads", "labels"] }).connect(serverTransport);
+  await triageClient.connect(clientTransport);
+
+  try {
+    const { tools } = await triageClient.listTools();
+    const names = tools.map((t) => t.name);
+    assert(names.includes("list_threads") && names.includes("add_labels_to_thread"), "enabled toolsets should be registered");
+    assert(!names.includes("create_webhook") && !names.includes("update_help_center_custom_domain"), "other toolsets should be hidden");
+    assert(names.includes("list_toolsets"), "list_toolsets should always be registered");
 
-  if (timelineResult.error) {
-    console.log(`  → Timeline query error: ${JSON.stringify(timelineResult.error, null, 2)}`);
-    throw new Error(`Timeline query failed: ${timelineResult.error.message}`);
+    const result = await triageClient.callTool({ name: "list_toolsets", arguments: {} });
+    const listed = JSON.parse((result.content as { text: string }[])[0]!.text).toolsets;
+    const threads = listed.find((set: any) => set.name === "threads");
+    const webhooks = listed.find((set: any) => set.name === "webhooks");
+    assert(threads.enabled && threads.tools.includes("reply_to_thread"), "threads should be listed as enabled");
+    assert(!webhooks.enabled && webhooks.tools.includes("create_webhook"), "disabled toolsets should still list their tools");
+
+    const prompts = (await triageClient.listPrompts()).prompts.map((p) => p.name).sort();
+    assert(prompts.join() === "triage_queue,write_article_from_thread", `only prompts whose tools are registered should be offered, got ${prompts}`);
+    const { resourceTemplates } = await triageClient.listResourceTemplates();
+    const templates = resourceTemplates.map((t) => t.uriTemplate);
+    assert(templates.join() === "plain://thread/{id}", `only resources whose tools are registered should be published, got ${templates}`);
+  } finally {
+    await triageClient.close();
   }
 
-  const data = timelineResult.data as any;
+  const { toolsets } = (await ok("list_toolsets")).json();
+  assert(toolsets.every((set: any) => set.enabled), "every toolset should be enabled by default");
+  assert(toolsets.some((set: any) => set.name === "customers" && set.tools.includes("search_customers")), "toolsets should group by domain");
 
-  if (!data?.timelineEntries?.edges) {
-    console.log(`  → Timeline response: ${JSON.stringify(data, null, 2)}`);
-    throw new Error("No timeline entries in response");
+  assert(parseToolsets(undefined) === undefined && parseToolsets("all") === undefined, "unset or all should enable everything");
+  assert(parseToolsets(" Threads, customers ")?.join() === "threads,customers", "should parse a comma-separated list");
+  let error = "";
+  try {
+    parseToolsets("threads,tickets");
+  } catch (e: any) {
+    error = e.message;
   }
+  assert(error.includes("tickets") && error.includes("available:"), "unknown toolsets should be rejected");
+}
+
+// =============================================================================
+// RESOURCE TESTS
+// =============================================================================
+
+async function testResources(): Promise<void> {
+  const { resourceTemplates } = await client.listResourceTemplates();
+  const templates = resourceTemplates.map((t) => t.uriTemplate);
+  assert(templates.includes("plain://thread/{id}") && templates.includes("plain://customer/{id}"), "should publish thread and customer templates");
+  assert(templates.includes("plain://help-center/{hcId}/article/{slug}"), "should publish the article template");
 
-  const allEntries = data.timelineEntries.edges.map((e: any) => e.node);
-  const threadEntries = allEntries.filter((e: any) => e.threadId === threadId);
+  const { resources } = await client.listResources();
+  const uris = resources.map((r) => r.uri).sort();
+  assert(
+    uris.join() === "plain://queue/todo,plain://thread/th_invoice,plain://thread/th_login",
+    `should list the queue and its threads, got ${uris}`
+  );
 
-  console.log(`  → Total timeline entries for customer: ${allEntries.length}`);
-  console.log(`  → Entries for thread ${threadId}: ${threadEntries.length}`);
+  const read = async (uri: string) => {
+    const { contents } = await client.readResource({ uri });
+    return JSON.parse((contents[0] as { text: string }).text);
+  };
 
-  if (threadEntries.length > 0) {
-    const entry = threadEntries[0];
-    console.log(`  → First entry type: ${entry.entry?.__typename || "Unknown"}`);
-    console.log(`  → First entry actor: ${entry.actor?.__typename || "Unknown"}`);
+  const thread = await read("plain://thread/th_login");
+  assert(JSON.stringify(thread) === JSON.stringify((await ok("get_thread", { thread_id: "th_login" })).json()), "thread resource should match get_thread");
+
+  const queue = await read("plain://queue/todo");
+  assert(queue.threads.length === 2 && queue.has_more === false, "queue resource should render the whole todo queue");
+
+  const customer = await read("plain://customer/c_jane");
+  assert(customer.fullName === "Jane Doe", "customer resource should render get_customer");
+
+  const article = await read("plain://help-center/hc_main/article/reset-password");
+  assert(article.id === "art_reset", "article resource should render get_help_center_article_by_slug");
+
+  const missing = await client.readResource({ uri: "plain://thread/th_missing" }).catch((error) => error);
+  assert(missing instanceof Error && missing.message.includes("Thread not found"), "unknown resources should be rejected");
+  assert(missing instanceof McpError && missing.code === ErrorCode.InvalidParams, "a missing thread is the client's mistake");
+
+  for (let i = 0; i < 4; i++) {
+    mock.failNext("customer", { status: 500, message: "boom" });
   }
+  const failed = await client.readResource({ uri: "plain://customer/c_jane" }).catch((error) => error);
+  assert(failed instanceof McpError && failed.code === ErrorCode.InternalError, `Plain failing should be an internal error, got ${failed?.code}`);
+}
 
-  assert(allEntries.length >= 0, "should have timeline entries array");
+async function waitFor(condition: () => boolean, message: string, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    assert(Date.now() < deadline, message);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
 }
 
-// Test: search_customers works
-async function testSearchCustomers(): Promise<void> {
-  // First get a customer email from a thread
-  const listResult = await plain.getThreads({
-    filters: { statuses: [ThreadStatus.Todo] },
-    first: 5,
+// A client on its own server, collecting resources/updated notifications
+async function subscriber(options: Parameters<typeof createServer>[1]): Promise<{ client: Client; updates: string[] }> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const subscribed = new Client({ name: "plain-mcp-test-subscriptions", version: "1.0.0" });
+  const updates: string[] = [];
+  subscribed.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updates.push(notification.params.uri);
   });
+  await createServer(plain, options).connect(serverTransport);
+  await subscribed.connect(clientTransport);
+  return { client: subscribed, updates };
+}
+
+async function testPolledSubscriptions(): Promise<void> {
+  const { client: subscribed, updates } = await subscriber({ pollIntervalMs: { min: 10, max: 40 } });
+  try {
+    assert(subscribed.getServerCapabilities()?.resources?.subscribe === true, "server should advertise resource subscriptions");
+    await subscribed.subscribeResource({ uri: "plain://thread/th_login" });
+    await subscribed.subscribeResource({ uri: "plain://queue/todo" });
+    const rejected = await subscribed.subscribeResource({ uri: "plain://customer/c_jane" }).catch((error) => error);
+    assert(rejected instanceof Error, "only threads and the queue can be subscribed to");
+
+    await waitFor(() => mock.calls.filter((c) => c.field === "threads").length >= 2, "subscribing should poll for a baseline");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert(updates.length === 0, `nothing changed yet, got ${updates}`);
+
+    await ok("mark_thread_done", { thread_id: "th_login" });
+    await waitFor(
+      () => updates.includes("plain://thread/th_login") && updates.includes("plain://queue/todo"),
+      `closing a thread should update it and the queue, got ${updates}`
+    );
 
-  if (listResult.error || listResult.data.threads.length === 0) {
-    console.log("  → Skipping: no threads available");
-    return;
+    await subscribed.unsubscribeResource({ uri: "plain://thread/th_login" });
+    updates.length = 0;
+    await ok("change_thread_priority", { thread_id: "th_invoice", priority: 0 });
+    await waitFor(() => updates.includes("plain://queue/todo"), "queued thread changes should update the queue");
+    assert(!updates.includes("plain://thread/th_login"), "unsubscribed threads should not be notified");
+  } finally {
+    await subscribed.close();
   }
+}
+
+async function testWebhookSubscriptions(): Promise<void> {
+  const events = createEventBuffer();
+  const { client: subscribed, updates } = await subscriber({ events, pollIntervalMs: { min: 10, max: 40 } });
+  const threadId = (threadCreatedDelivery.payload as any).thread.id;
+  try {
+    await subscribed.subscribeResource({ uri: `plain://thread/${threadId}` });
+    await subscribed.subscribeResource({ uri: "plain://queue/todo" });
 
-  const threadWithCustomer = listResult.data.threads.find((t: any) => t.customer?.id);
-  if (!threadWithCustomer) {
-    console.log("  → Skipping: no threads with customers");
-    return;
+    events.add(toWebhookEvent(threadStatusTransitionedDelivery));
+    await waitFor(
+      () => updates.includes(`plain://thread/${threadId}`) && updates.includes("plain://queue/todo"),
+      `a status webhook should update the thread and the queue, got ${updates}`
+    );
+    events.add(toWebhookEvent(customerCreatedDelivery));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert(updates.length === 2, `customer events should not update threads, got ${updates}`);
+    assert(!mock.calls.some((c) => c.field === "threads"), "webhook events should replace polling");
+  } finally {
+    await subscribed.close();
   }
+}
+
+// =============================================================================
+// PROMPT TESTS
+// =============================================================================
+
+async function testPrompts(): Promise<void> {
+  const { prompts } = await client.listPrompts();
+  const names = prompts.map((p) => p.name).sort();
+  assert(names.join() === "draft_reply,summarize_customer,triage_queue,write_article_from_thread", `unexpected prompts ${names}`);
+  const draftArgs = prompts.find((p) => p.name === "draft_reply")!.arguments ?? [];
+  assert(draftArgs.some((a) => a.name === "thread_id" && a.required), "draft_reply should require thread_id");
 
-  const customerId = (threadWithCustomer as any).customer.id;
-  const customerResult = await plain.getCustomerById({ customerId });
+  const textOf = (message: any) => (message.content.type === "resource" ? message.content.resource.text : message.content.text);
 
-  if (customerResult.error || !customerResult.data?.email?.email) {
-    console.log("  → Skipping: customer has no email");
-    return;
+  const triage = await client.getPrompt({ name: "triage_queue", arguments: {} });
+  const triageText = triage.messages.map(textOf).join("\n");
+  assert(triageText.includes("th_login") && triageText.includes("th_invoice"), "triage should embed the todo queue");
+  assert(triageText.includes("Bug"), "triage should embed label types");
+  for (const limit of ["-5", "0", "2.7", "500"]) {
+    await client.getPrompt({ name: "triage_queue", arguments: { limit } });
+    const first = mock.calls.filter((c) => c.field === "threads").at(-1)!.args.first;
+    assert(Number.isInteger(first) && first >= 1 && first <= 100, `limit ${limit} should be clamped, got ${first}`);
   }
 
-  const email = customerResult.data.email.email;
-  console.log(`  → Searching for: ${email}`);
+  const draft = await client.getPrompt({ name: "draft_reply", arguments: { thread_id: "th_login", instructions: "Mention the status page" } });
+  const embedded = draft.messages[0]!.content as any;
+  assert(embedded.type === "resource" && embedded.resource.uri === "plain://thread/th_login", "draft_reply should embed the thread resource");
+  assert(JSON.parse(embedded.resource.text).customer.name === "Jane Doe", "embedded thread should match get_thread");
+  assert(draft.messages.map(textOf).join("\n").includes("Mention the status page"), "instructions should be passed through");
 
-  const searchResult = await plain.getCustomerByEmail({ email });
+  const summary = await client.getPrompt({ name: "summarize_customer", arguments: { customer_id: "c_jane" } });
+  assert((summary.messages[0]!.content as any).resource.uri === "plain://customer/c_jane", "summarize_customer should embed the customer");
 
-  assert(!searchResult.error, `Search error: ${searchResult.error?.message}`);
-  assert(searchResult.data !== null, "search should return a customer");
-  assert(searchResult.data?.id === customerId, "should find the same customer");
+  const article = await client.getPrompt({ name: "write_article_from_thread", arguments: { thread_id: "th_login", help_center_id: "hc_main" } });
+  assert(article.messages.map(textOf).join("\n").includes("help center hc_main"), "write_article_from_thread should name the help center");
 
-  console.log(`  → Found: ${searchResult.data?.fullName || searchResult.data?.email?.email}`);
+  const missing = await client.getPrompt({ name: "draft_reply", arguments: { thread_id: "th_missing" } }).catch((error) => error);
+  assert(missing instanceof Error && missing.message.includes("Thread not found"), "unknown threads should be rejected");
 }
 
-// Test: get_queue_stats works
-async function testQueueStats(): Promise<void> {
-  const todoResult = await plain.getThreads({
-    filters: { statuses: [ThreadStatus.Todo] },
-    first: 100,
+// =============================================================================
+// DRY RUN TESTS
+// =============================================================================
+
+async function testDryRunPreviews(): Promise<void> {
+  const thread = (await ok("delete_thread", { thread_id: "th_login", dry_run: true })).json();
+  assert(thread.dryRun === true && thread.wouldDelete.title === "Cannot log in", "should preview the thread");
+  assert(thread.wouldDelete.customer.name === "Jane Doe", "should include the customer");
+  assert(thread.wouldDelete.timelineEntryCount === 3, "should count only this thread's timeline entries");
+  assert(mock.state.threads.some((t) => t.id === "th_login"), "dry run must not delete");
+  assert(!mock.calls.some((c) => c.operation === "mutation"), "dry run must not send mutations");
+
+  const customer = (await ok("delete_customer", { customer_id: "c_jane", dry_run: true })).json();
+  assert(customer.wouldDelete.email === "jane@example.com" && customer.wouldDelete.threadCount === 2, "should preview customer threads");
+
+  const helpCenter = (await ok("delete_help_center", { help_center_id: "hc_main", dry_run: true })).json();
+  assert(helpCenter.wouldDelete.articleCount === 2, "should count help center articles");
+
+  const targets: Record<string, Record<string, string>> = {
+    delete_help_center_article: { article_id: "art_reset" },
+    delete_help_center_article_group: { group_id: "grp_account" },
+    delete_company: { company_id: "co_example" },
+    delete_tenant: { tenant_id: "te_eu" },
+    delete_snippet: { snippet_id: "sn_thanks" },
+    delete_webhook: { webhook_id: "wh_main" },
+    delete_autoresponder: { autoresponder_id: "ar_ooo" },
+    delete_tier: { tier_id: "tier_gold" },
+    delete_note: { note_id: "no_1" },
+  };
+  for (const [name, args] of Object.entries(targets)) {
+    const previewed = (await ok(name, { ...args, dry_run: true })).json();
+    assert(previewed.dryRun === true && !!previewed.confirmationToken, `${name} should return a preview`);
+  }
+
+  const ks = (await ok("create_knowledge_source", { name: "Docs", url: "https://docs.mock.dev" })).json();
+  const ksPreview = (await ok("delete_knowledge_source", { knowledge_source_id: ks.id, dry_run: true })).json();
+  assert(ksPreview.wouldDelete.url === "https://docs.mock.dev", "should preview knowledge source");
+
+  const missing = await call("delete_tier", { tier_id: "tier_missing", dry_run: true });
+  assert(missing.isError && missing.error?.message === "Tier not found" && missing.error.code === "not_found", "unknown target should error");
+}
+
+async function testConfirmationTokens(): Promise<void> {
+  const preview = (await ok("delete_snippet", { snippet_id: "sn_thanks", dry_run: true })).json();
+
+  const wrongTarget = await call("delete_tier", { tier_id: "tier_gold", confirmation_token: preview.confirmationToken });
+  assert(wrongTarget.isError && wrongTarget.text.includes("different call"), "token should not carry over to another tool");
+
+  const again = (await ok("delete_snippet", { snippet_id: "sn_thanks", dry_run: true })).json();
+  await ok("delete_snippet", { snippet_id: "sn_thanks", confirmation_token: again.confirmationToken });
+  assert(!mock.state.snippets.some((sn) => sn.id === "sn_thanks"), "confirmed delete should run");
+
+  const reused = await call("delete_snippet", { snippet_id: "sn_thanks", confirmation_token: again.confirmationToken });
+  assert(reused.isError, "tokens should be single-use");
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const strictClient = new Client({ name: "plain-mcp-test-confirm", version: "1.0.0" });
+  await createServer(plain, { requireConfirmation: true }).connect(serverTransport);
+  await strictClient.connect(clientTransport);
+  const textOf = (result: any) => (result.content as { text: string }[])[0]?.text ?? "";
+
+  try {
+    const unconfirmed = await strictClient.callTool({ name: "delete_tier", arguments: { tier_id: "tier_gold" } });
+    assert(!!unconfirmed.isError && textOf(unconfirmed).includes("dry_run"), "delete without token should be refused");
+    assert(mock.state.tiers.some((t) => t.id === "tier_gold"), "refused delete must not run");
+
+    const tierPreview = JSON.parse(textOf(await strictClient.callTool({ name: "delete_tier", arguments: { tier_id: "tier_gold", dry_run: true } })));
+    const mismatched = await strictClient.callTool({
+      name: "delete_tier",
+      arguments: { tier_id: "tier_other", confirmation_token: tierPreview.confirmationToken },
+    });
+    assert(!!mismatched.isError && textOf(mismatched).includes("different call"), "token should be bound to the target");
+
+    const retry = JSON.parse(textOf(await strictClient.callTool({ name: "delete_tier", arguments: { tier_id: "tier_gold", dry_run: true } })));
+    const confirmed = await strictClient.callTool({
+      name: "delete_tier",
+      arguments: { tier_id: "tier_gold", confirmation_token: retry.confirmationToken },
+    });
+    assert(!confirmed.isError && !mock.state.tiers.some((t) => t.id === "tier_gold"), "confirmed delete should run");
+  } finally {
+    await strictClient.close();
+  }
+}
+
+// =============================================================================
+// AUDIT LOG TESTS
+// =============================================================================
+
+async function testAuditLog(): Promise<void> {
+  const disabled = await call("get_audit_log");
+  assert(disabled.isError && disabled.text.includes("PLAIN_AUDIT_LOG"), "should explain how to enable auditing");
+
+  const dir = mkdtempSync(join(tmpdir(), "plain-mcp-audit-"));
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const auditClient = new Client({ name: "plain-mcp-test-audit", version: "1.0.0" });
+  await createServer(plain, { auditLog: createAuditLog(join(dir, "audit.jsonl")) }).connect(serverTransport);
+  await auditClient.connect(clientTransport);
+  const run = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await auditClient.callTool({ name, arguments: args });
+    return { isError: !!result.isError, json: () => JSON.parse((result.content as { text: string }[])[0]!.text) };
+  };
+
+  try {
+    const before = new Date().toISOString();
+    await run("list_threads");
+    await run("reply_to_thread", { thread_id: "th_login", text: "On it" });
+    const created = (await run("create_thread", { customer_id: "c_sam", title: "New issue" })).json();
+    await run("delete_tier", { tier_id: "tier_missing" });
+    await run("delete_tier", { tier_id: "tier_gold", dry_run: true });
+
+    const all = (await run("get_audit_log")).json().records;
+    assert(all.length === 3, "only mutating calls should be recorded");
+    assert(all[0].tool === "delete_tier" && all[0].outcome === "error" && !!all[0].error, "failures should be recorded newest first");
+    assert(all[1].tool === "create_thread" && all[1].returnedIds.includes(created.id), "returned IDs should be captured");
+    assert(all[2].args.thread_id === "th_login" && all[2].workspace === "default", "args and workspace should be recorded");
+
+    const byTool = (await run("get_audit_log", { tool: "reply_to_thread" })).json().records;
+    assert(byTool.length === 1, "should filter by tool");
+    const byEntity = (await run("get_audit_log", { entity_id: created.id })).json().records;
+    assert(byEntity.length === 1 && byEntity[0].tool === "create_thread", "should filter by returned entity ID");
+    const byArg = (await run("get_audit_log", { entity_id: "th_login" })).json().records;
+    assert(byArg.length === 1 && byArg[0].tool === "reply_to_thread", "should filter by argument entity ID");
+    const inRange = (await run("get_audit_log", { since: before, until: new Date().toISOString() })).json().records;
+    const future = (await run("get_audit_log", { since: new Date(Date.now() + 60_000).toISOString() })).json().records;
+    assert(inRange.length === 3 && future.length === 0, "should filter by time range");
+  } finally {
+    await auditClient.close();
+  }
+
+  // Records from one workspace stay out of another's audit log
+  const [multiClientTransport, multiServerTransport] = InMemoryTransport.createLinkedPair();
+  const multiClient = new Client({ name: "plain-mcp-test-audit-workspaces", version: "1.0.0" });
+  const us = createPlainClient({ apiKey: "us-key", apiUrl: mock.url });
+  const shared = createAuditLog(join(dir, "shared.jsonl"));
+  await createServer({ defaultName: "eu", clients: { eu: plain, us } }, { auditLog: shared }).connect(multiServerTransport);
+  await multiClient.connect(multiClientTransport);
+  const records = async (args: Record<string, unknown>) => {
+    const result = await multiClient.callTool({ name: "get_audit_log", arguments: args });
+    return JSON.parse((result.content as { text: string }[])[0]!.text).records;
+  };
+
+  try {
+    await multiClient.callTool({ name: "reply_to_thread", arguments: { thread_id: "th_login", text: "EU reply" } });
+    await multiClient.callTool({ name: "reply_to_thread", arguments: { thread_id: "th_login", text: "US reply", workspace: "us" } });
+    const eu = await records({});
+    const usRecords = await records({ workspace: "us" });
+    assert(eu.length === 1 && eu[0].workspace === "eu", "the default workspace should only see its own records");
+    assert(usRecords.length === 1 && usRecords[0].args.text === "US reply", "a selected workspace should only see its own records");
+  } finally {
+    await multiClient.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+
+  const redacted = redact({ url: "https://x", api_key: "k", nested: { password: "p", items: [{ secretToken: "t" }] } }) as any;
+  assert(redacted.url === "https://x" && redacted.api_key === "[REDACTED]", "secret keys should be redacted");
+  assert(redacted.nested.password === "[REDACTED]" && redacted.nested.items[0].secretToken === "[REDACTED]", "redaction should recurse");
+}
+
+// =============================================================================
+// TRANSPORT ERROR TESTS
+// =============================================================================
+
+async function testApiErrors(): Promise<void> {
+  // Queries retry through a 500, so it has to outlast every attempt
+  for (let i = 0; i < 4; i++) {
+    mock.failNext("helpCenters", { status: 500, message: "boom" });
+  }
+  const serverError = await call("list_help_centers");
+  assert(serverError.isError && serverError.text.startsWith("Error: Internal server error."), "5xx should become a tool error");
+  assert(serverError.error?.code === "internal_server_error", "5xx should carry its error code");
+  assert(!!serverError.error?.requestId && serverError.text.includes(serverError.error.requestId), "errors should carry the request ID");
+
+  const unauthorized = createPlainClient({ apiKey: "", apiUrl: mock.url });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const otherClient = new Client({ name: "plain-mcp-test-unauth", version: "1.0.0" });
+  await createServer(unauthorized).connect(serverTransport);
+  await otherClient.connect(clientTransport);
+  const result = await otherClient.callTool({ name: "get_workspace", arguments: {} });
+  await otherClient.close();
+  assert(!!result.isError, "missing API key should be reported as an error");
+}
+
+// =============================================================================
+// ERROR MODEL TESTS
+// =============================================================================
+
+async function testStructuredErrors(): Promise<void> {
+  mock.failNext("updateThreadTitle", {
+    message: "There was a validation error.",
+    code: "input_validation",
+    fields: [{ field: "input.title", message: "Title must be at most 200 characters", type: "VALIDATION" }],
   });
-  const snoozedResult = await plain.getThreads({
-    filters: { statuses: [ThreadStatus.Snoozed] },
-    first: 100,
+  const invalid = await call("update_thread_title", { thread_id: "th_login", title: "x".repeat(300) });
+  assert(invalid.isError && invalid.error?.code === "input_validation", "should keep the mutation error code");
+  assert(invalid.error?.fields[0]?.field === "input.title", "should keep field errors");
+  assert(invalid.error?.hint === 'Check the "title" argument', `should point at the title argument, got ${invalid.error?.hint}`);
+  assert(invalid.text.includes("- input.title: Title must be at most 200 characters"), "text should list field errors");
+  assert(invalid.text.includes('Hint: Check the "title" argument'), "text should include the hint");
+
+  mock.failNext("upsertHelpCenterArticle", {
+    message: "There was a validation error.",
+    code: "input_validation",
+    fields: [{ field: "input.helpCenterArticleGroupId", message: "Article group not found", type: "NOT_FOUND" }],
   });
+  const article = await call("upsert_help_center_article", {
+    help_center_id: "hc_main",
+    title: "Billing",
+    content_html: "<p>Billing</p>",
+    description: "Billing",
+    status: "DRAFT",
+    group_id: "hcag_missing",
+  });
+  assert(article.error?.hint === 'Check the "group_id" argument', `should map nested input paths, got ${article.error?.hint}`);
+
+  const snooze = await call("snooze_thread", { thread_id: "th_login", status_detail: "WAITING_FOR_DURATION" });
+  assert(snooze.error?.code === "invalid_argument", "argument checks should use the error model");
+  assert(snooze.error?.hint === 'Check the "duration_seconds" argument', "argument checks should hint at the argument");
+
+  const expired = await call("delete_snippet", { snippet_id: "snip_greeting", confirmation_token: "nope" });
+  assert(expired.error?.code === "invalid_confirmation", "confirmation failures should use the error model");
+}
+
+// =============================================================================
+// OUTPUT SCHEMA TESTS
+// =============================================================================
+
+// The client validates structuredContent against each tool's outputSchema, so
+// every successful call in this suite also checks its tool's schema.
+async function testOutputSchemas(): Promise<void> {
+  const { tools } = await client.listTools();
+  const untyped = tools.filter((t) => t.outputSchema?.type !== "object").map((t) => t.name);
+  assert(untyped.length === 0, `tools without an output schema: ${untyped.join(", ")}`);
+
+  const listed = (await ok("list_threads")).structured.threads.find((t: any) => t.id === "th_login");
+  const { timeline, timelineTruncated, ...detail } = (await ok("get_thread", { thread_id: "th_login" })).structured;
+  assert(JSON.stringify(listed) === JSON.stringify(detail), "list_threads and get_thread should return the same thread shape");
+  assert(detail.assignee?.id === "u_alice" && detail.statusDetail === "NEW_REPLY", "threads should carry assignee and status detail");
+
+  const page = await ok("list_snippets");
+  assert(JSON.stringify(page.structured) === JSON.stringify(page.json()), "structuredContent should match the JSON text");
+
+  const done = await ok("mark_thread_done", { thread_id: "th_login" });
+  assert(done.structured.message === done.text, "confirmations should be structured too");
+
+  const missing = await call("get_customer", { customer_id: "c_missing" });
+  assert(missing.error?.code === "not_found" && missing.structured === undefined, "errors should have no structuredContent");
+}
+
+// =============================================================================
+// RESPONSE FORMAT TESTS
+// =============================================================================
+
+async function testResponseFormats(): Promise<void> {
+  const json = await ok("list_threads");
+  const markdown = await ok("list_threads", { format: "markdown" });
+  assert(markdown.text.startsWith("| id | title |"), "markdown lists should render as tables");
+  assert(JSON.stringify(markdown.structured) === JSON.stringify(json.structured), "format should not change structuredContent");
 
-  assert(!todoResult.error, `Todo fetch error: ${todoResult.error?.message}`);
-  assert(!snoozedResult.error, `Snoozed fetch error: ${snoozedResult.error?.message}`);
+  const transcript = (await ok("get_thread", { thread_id: "th_login", format: "markdown" })).text;
+  assert(transcript.startsWith("## Cannot log in\n\n- **id**: th_login"), "entities should render as a heading and fields");
+  assert(transcript.includes("### Conversation\n\n**Jane Doe** · EmailEntry"), "timelines should render as a transcript");
 
-  const todoCount = todoResult.data.threads.length;
-  const snoozedCount = snoozedResult.data.threads.length;
+  const lines = (await ok("list_threads", { format: "compact" })).text.split("\n");
+  assert(lines.length === json.structured.threads.length, "compact should be one line per thread");
+  assert(lines[0]!.startsWith("th_login | title=Cannot log in | "), "compact lines should lead with the ID");
 
-  console.log(`  → Todo: ${todoCount}, Snoozed: ${snoozedCount}`);
+  const { tools } = await client.listTools();
+  const formatted = tools.filter((t) => t.inputSchema.properties?.format).map((t) => t.name);
+  assert(formatted.includes("get_thread") && !formatted.includes("reply_to_thread"), "only read tools should take a format");
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const compactClient = new Client({ name: "plain-mcp-test-format", version: "1.0.0" });
+  await createServer(plain, { format: "compact" }).connect(serverTransport);
+  await compactClient.connect(clientTransport);
+  try {
+    const byDefault = await compactClient.callTool({ name: "get_customer", arguments: { customer_id: "c_jane" } });
+    assert((byDefault.content as { text: string }[])[0]!.text.startsWith("c_jane | fullName=Jane Doe"), "the server default should apply");
+    const asJson = await compactClient.callTool({ name: "get_customer", arguments: { customer_id: "c_jane", format: "json" } });
+    assert(JSON.parse((asJson.content as { text: string }[])[0]!.text).id === "c_jane", "the argument should override the default");
+  } finally {
+    await compactClient.close();
+  }
 
-  assert(typeof todoCount === "number", "todo count should be a number");
-  assert(typeof snoozedCount === "number", "snoozed count should be a number");
+  assert(parseResponseFormat(undefined) === undefined && parseResponseFormat(" Markdown ") === "markdown", "should parse formats");
+  let error = "";
+  try {
+    parseResponseFormat("yaml");
+  } catch (e: any) {
+    error = e.message;
+  }
+  assert(error.includes("yaml"), "unknown formats should be rejected");
+}
+
+// =============================================================================
+// HTTP TRANSPORT TESTS
+// =============================================================================
+
+async function testHttpTransports(): Promise<void> {
+  const http = await startHttpServer({ host: "127.0.0.1", port: 0, authToken: "s3cret" }, () => createServer(plain));
+  const auth = { requestInit: { headers: { Authorization: "Bearer s3cret" } } };
+  try {
+    const denied = await fetch(`${http.url}/mcp`, { method: "POST", body: "{}" });
+    assert(denied.status === 401, "missing bearer token should be rejected");
+    const unknownSession = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      headers: { Authorization: "Bearer s3cret", "Content-Type": "application/json", "mcp-session-id": "nope" },
+      body: "{}",
+    });
+    assert(unknownSession.status === 404, "unknown session should be rejected");
+    const rebound = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      headers: { Authorization: "Bearer s3cret", Origin: "http://attacker.example" },
+      body: "{}",
+    });
+    assert(rebound.status === 403, "foreign origin should be rejected on a loopback server");
+    const oversized = await fetch(`${http.url}/mcp`, {
+      method: "POST",
+      headers: { Authorization: "Bearer s3cret", "Content-Type": "application/json" },
+      body: "x".repeat(1_000_001),
+    });
+    assert(oversized.status === 413, "oversized body should be rejected");
+
+    const streamable = new Client({ name: "plain-mcp-test-http", version: "1.0.0" });
+    await streamable.connect(new StreamableHTTPClientTransport(new URL(`${http.url}/mcp`), auth));
+    const workspace = await streamable.callTool({ name: "get_workspace", arguments: {} });
+    assert(!workspace.isError, "tools should work over Streamable HTTP");
+
+    const legacy = new Client({ name: "plain-mcp-test-sse", version: "1.0.0" });
+    await legacy.connect(new SSEClientTransport(new URL(`${http.url}/sse`), auth));
+    const { tools } = await legacy.listTools();
+    assert(tools.some((t) => t.name === "list_threads"), "tools should be listed over SSE");
+    assert(http.sessionCount() === 2, "each client should get its own session");
+
+    await streamable.close();
+    await legacy.close();
+  } finally {
+    await http.close();
+  }
+
+  let refused = false;
+  await startHttpServer({ host: "0.0.0.0", port: 0 }, () => createServer(plain)).catch(() => (refused = true));
+  assert(refused, "non-loopback host without a token should be refused");
+}
+
+// =============================================================================
+// WEBHOOK LISTENER TESTS
+// =============================================================================
+
+const WEBHOOK_SECRET = "whsec_test";
+
+// A recorded delivery as Plain would send it now, with its signature
+function signedDelivery(delivery: object, secret = WEBHOOK_SECRET): { body: string; signature: string } {
+  const body = JSON.stringify({
+    ...delivery,
+    webhookMetadata: { ...(delivery as any).webhookMetadata, webhookDeliveryAttemptTimestamp: new Date().toISOString() },
+  });
+  return { body, signature: createHmac("sha256", secret).update(body).digest("hex") };
+}
+
+async function testWebhookListener(): Promise<void> {
+  const disabled = await call("list_recent_events");
+  assert(disabled.error?.code === "not_configured", "list_recent_events should need PLAIN_WEBHOOK_SECRET");
+
+  const events = createEventBuffer();
+  const listener = await startWebhookListener({ host: "127.0.0.1", port: 0, secret: WEBHOOK_SECRET }, events);
+  const deliver = (body: string, signature: string) =>
+    fetch(`${listener.url}/webhooks`, { method: "POST", headers: { "Plain-Request-Signature": signature }, body });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const withEvents = new Client({ name: "plain-mcp-test-events", version: "1.0.0" });
+  try {
+    for (const delivery of [customerCreatedDelivery, threadCreatedDelivery, threadStatusTransitionedDelivery]) {
+      const { body, signature } = signedDelivery(delivery);
+      const response = await deliver(body, signature);
+      assert(response.status === 200, `${delivery.type} should be accepted, got ${response.status}`);
+    }
+    const retry = signedDelivery(threadCreatedDelivery);
+    assert(((await (await deliver(retry.body, retry.signature)).json()) as any).duplicate, "redelivered events should be stored once");
+
+    const forged = signedDelivery(threadCreatedDelivery, "wrong-secret");
+    assert((await deliver(forged.body, forged.signature)).status === 401, "bad signature should be rejected");
+    const recorded = JSON.stringify(threadCreatedDelivery);
+    const stale = await deliver(recorded, createHmac("sha256", WEBHOOK_SECRET).update(recorded).digest("hex"));
+    assert(stale.status === 401, "deliveries outside the timestamp tolerance should be rejected");
+    const invalid = signedDelivery({ ...threadCreatedDelivery, type: "thread.unknown" });
+    assert((await deliver(invalid.body, invalid.signature)).status === 400, "payloads failing the schema should be rejected");
+    assert((await deliver("x".repeat(1_000_001), "sig")).status === 413, "oversized deliveries should be rejected");
+    assert(events.list().length === 3, "only verified deliveries should be buffered");
+
+    await createServer(plain, { events }).connect(serverTransport);
+    await withEvents.connect(clientTransport);
+    const list = async (args: Record<string, unknown> = {}) =>
+      (await withEvents.callTool({ name: "list_recent_events", arguments: args })).structuredContent as any;
+
+    const all = (await list()).events;
+    assert(all.map((e: any) => e.type).join() === "thread.thread_status_transitioned,thread.thread_created,customer.customer_created", "events should be newest first");
+    assert(all[0].summary === 'Thread "Cannot log in" moved from TODO to DONE', `unexpected summary: ${all[0].summary}`);
+    assert(all[0].threadId === (threadCreatedDelivery.payload as any).thread.id && all[0].payload === undefined, "events should carry IDs but not payloads by default");
+
+    const customerId = (customerCreatedDelivery.payload as any).customer.id;
+    assert((await list({ customer_id: customerId })).events.length === 3, "thread events should match their customer");
+    assert((await list({ type: "thread." })).events.length === 2, "type prefixes should match");
+    const created = (await list({ type: "thread.thread_created", include_payload: true })).events;
+    assert(created.length === 1 && created[0].payload.thread.title === "Cannot log in", "payloads should be included on request");
+    assert((await list({ since: "2024-03-01T10:30:00Z" })).events.length === 1, "since should filter by event time");
+
+    const ring = createEventBuffer(2);
+    ["a", "b", "c"].forEach((id, i) => ring.add({ ...all[0], id, timestamp: `2024-03-0${i + 1}T00:00:00Z` }));
+    assert(ring.list().map((e) => e.id).join() === "c,b", "the buffer should drop the oldest events");
+  } finally {
+    await withEvents.close();
+    await listener.close();
+  }
+}
+
+// =============================================================================
+// REQUEST POLICY TESTS
+// =============================================================================
+
+const body = (query: string) => JSON.stringify({ query, variables: {} });
+
+async function testRetrySafety(): Promise<void> {
+  assert(isRetrySafe(body("query Threads { threads { edges { node { id } } } }")), "queries are safe");
+  assert(isRetrySafe(body("mutation markThreadAsDone($input: MarkThreadAsDoneInput!) {\n  markThreadAsDone(input: $input) { thread { id } }\n}")), "idempotent mutations are safe");
+  assert(!isRetrySafe(body("mutation ReplyToThread($input: ReplyToThreadInput!) { replyToThread(input: $input) { error { message } } }")), "replies are not safe");
+  assert(!isRetrySafe(body("mutation DeleteThread($input: DeleteThreadInput!) { deleteThread(input: $input) { error { message } } }")), "deletes are not safe");
+}
+
+async function testRequestPolicy(): Promise<void> {
+  const fast: RequestPolicy = { maxConcurrent: 2, maxRetries: 3, baseDelayMs: 1, maxDelayMs: 100 };
+  const query = { method: "POST", headers: { Authorization: "Bearer k" }, body: body("query Q { workspace { id } }") };
+  const reply = { ...query, body: body("mutation R { replyToThread(input: {}) { error { message } } }") };
+
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const slow = withRequestPolicy(async () => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight--;
+    return new Response("{}");
+  }, () => fast);
+  await Promise.all(Array.from({ length: 8 }, () => slow("http://plain", query)));
+  assert(maxInFlight === 2, `concurrency should be capped at 2, saw ${maxInFlight}`);
+
+  const responses = (statuses: number[], headers: Record<string, string> = {}) => {
+    let calls = 0;
+    const fetchImpl = async () => new Response("{}", { status: statuses[Math.min(calls++, statuses.length - 1)], headers });
+    return { fetchImpl, count: () => calls };
+  };
+
+  const flaky = responses([503, 502, 200]);
+  const recovered = await withRequestPolicy(flaky.fetchImpl, () => fast)("http://plain", query);
+  assert(recovered.status === 200 && flaky.count() === 3, "queries should retry through 5xx");
+
+  const broken = responses([500, 200]);
+  const afterError = await withRequestPolicy(broken.fetchImpl, () => fast)("http://plain", query);
+  assert(afterError.status === 200 && broken.count() === 2, "queries should retry through a 500");
+  const brokenReply = responses([500, 200]);
+  const replyFailure = await withRequestPolicy(brokenReply.fetchImpl, () => fast)("http://plain", reply);
+  assert(replyFailure.status === 500 && brokenReply.count() === 1, "a 500 on a non-idempotent mutation should be returned, not retried");
+
+  const failingReply = responses([503, 200]);
+  const replyError = await withRequestPolicy(failingReply.fetchImpl, () => fast)("http://plain", reply).catch((e) => e);
+  assert(replyError.status === 503 && failingReply.count() === 1, "non-idempotent mutations should not be retried");
+
+  const limited = responses([429, 200], { "retry-after": "0" });
+  const afterLimit = await withRequestPolicy(limited.fetchImpl, () => fast)("http://plain", query);
+  assert(afterLimit.status === 200 && limited.count() === 2, "429 with Retry-After should be retried");
+
+  const blocked = responses([429], { "retry-after": "120" });
+  const tooLong = await withRequestPolicy(blocked.fetchImpl, () => fast)("http://plain", query).catch((e) => e);
+  assert(blocked.count() === 1 && tooLong.message.includes("retry after 120s"), "long Retry-After should fail fast");
+
+  const exhausted = responses([504]);
+  const gaveUp = await withRequestPolicy(exhausted.fetchImpl, () => fast)("http://plain", query).catch((e) => e);
+  assert(exhausted.count() === 4 && gaveUp.message.includes("4 attempt"), "should give up after maxRetries");
+
+  let networkCalls = 0;
+  const network = withRequestPolicy(async () => {
+    if (networkCalls++ === 0) throw new Error("ECONNRESET");
+    return new Response("{}");
+  }, () => fast);
+  assert((await network("http://plain", query)).status === 200 && networkCalls === 2, "network errors should be retried");
+
+  let resetCalls = 0;
+  const paused = withRequestPolicy(async () => {
+    resetCalls++;
+    return new Response("{}", { headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": "0.05" } });
+  }, () => fast);
+  await paused("http://plain", query);
+  const start = Date.now();
+  await paused("http://plain", query);
+  assert(Date.now() - start >= 40 && resetCalls === 2, "exhausted rate limit should delay the next request");
+}
+
+async function testRateLimitedTools(): Promise<void> {
+  mock.failNext("threads", { status: 429, message: "slow down", headers: { "retry-after": "0" } });
+  const threads = (await ok("list_threads")).json().threads;
+  assert(threads.length === 2, "rate-limited query should succeed on retry");
+
+  mock.failNext("replyToThread", { status: 503, message: "unavailable" });
+  const reply = await call("reply_to_thread", { thread_id: "th_login", text: "Hi" });
+  assert(reply.isError && reply.text.includes("HTTP 503"), `swallowed 5xx should surface as an error, got ${reply.text}`);
+  assert(mock.calls.filter((c) => c.field === "replyToThread").length === 1, "reply should not be retried");
+
+  for (let i = 0; i < 4; i++) {
+    mock.failNext("snippets", { status: 429, message: "slow down", headers: { "retry-after": "0" } });
+  }
+  const snippets = await call("list_snippets");
+  assert(snippets.isError && snippets.text.includes("Rate limited"), "persistent 429 should surface as an error");
+  assert(snippets.error?.code === "rate_limited", "persistent 429 should be coded as rate_limited");
+}
+
+// Every tool listed by the server must have been exercised above
+async function testAllToolsCovered(): Promise<void> {
+  const { tools } = await client.listTools();
+  const untested = tools.map((t) => t.name).filter((name) => !calledTools.has(name));
+  assert(untested.length === 0, `tools without tests: ${untested.join(", ")}`);
 }
 
 // Run all tests
 async function runTests(): Promise<void> {
-  console.log("\n🧪 Plain MCP Test Suite\n");
+  console.log("\n🧪 Plain MCP Test Suite (mock API)\n");
   console.log("=".repeat(50));
 
-  await test("list_threads returns threads with customer data", testListThreads);
-  await test("get_thread returns full thread details", testGetThread);
-  await test("timeline query returns entries", testTimeline);
-  await test("search_customers finds customers by email", testSearchCustomers);
-  await test("get_queue_stats returns counts", testQueueStats);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(plain).connect(serverTransport);
+  await client.connect(clientTransport);
+
+  await test("help centers: list, get, create, update, delete", testHelpCenters);
+  await test("help centers: custom domain update and verify", testHelpCenterCustomDomain);
+  await test("help center articles: list, get, slug, upsert, delete, generate", testHelpCenterArticles);
+  await test("upsert_help_center_article surfaces field errors", testUpsertArticleFieldErrors);
+  await test("help center article groups: CRUD", testHelpCenterArticleGroups);
+  await test("help center index: get and update with optimistic hash", testHelpCenterIndex);
+  await test("knowledge sources: create and delete", testKnowledgeSources);
+  await test("customers: upsert, get, search, spam, events, delete", testCustomers);
+  await test("search_customers matches text, emails, external IDs and companies", testSearchCustomers);
+  await test("list_customers filters, sorts and paginates", testListCustomers);
+  await test("customer groups: list, create, add, remove", testCustomerGroups);
+  await test("list_threads resolves customers and applies filters", testListThreads);
+  await test("customer lookups are cached and invalidated on upsert", testCustomerCache);
+  await test("list tools paginate with after, next_cursor and fetch_all", testPagination);
+  await test("get_thread returns customer and thread-scoped timeline", testGetThread);
+  await test("get_thread pages the thread timeline with since, entry_types and max_entries", testThreadTimelinePagination);
+  await test("get_thread describes every timeline entry type", testTimelineEntryTypes);
+  await test("search_threads finds threads by text with timeline snippets", testSearchThreads);
+  await test("get_queue_stats returns exact counts and breakdowns", testQueueStats);
+  await test("thread lifecycle: create, title, priority, assign, event, delete", testThreadLifecycle);
+  await test("thread actions: reply, done, todo, status detail", testThreadActions);
+  await test("snooze_thread validates duration and surfaces field errors", testSnoozeThread);
+  await test("labels: list, create, add, remove", testLabels);
+  await test("thread fields: list schemas and upsert", testThreadFields);
+  await test("notes: create and delete", testNotes);
+  await test("messaging: send email and chat", testMessaging);
+  await test("companies and tenants: upsert and delete", testCompaniesAndTenants);
+  await test("companies: list, get, search and company threads", testCompanyReads);
+  await test("tenants: list, get, membership and tenant threads", testTenants);
+  await test("snippets: CRUD", testSnippets);
+  await test("webhooks: CRUD", testWebhooks);
+  await test("autoresponders and tiers", testAutorespondersAndTiers);
+  await test("workspace and users", testWorkspaceAndUsers);
+  await test("workspace argument selects among configured workspaces", testMultipleWorkspaces);
+  await test("workspaces load from environment", testLoadWorkspaces);
+  await test("read-only mode registers only query tools", testReadOnlyMode);
+  await test("PLAIN_TOOLSETS registers only the chosen toolsets", testToolsets);
+  await test("threads, customers and articles are exposed as resources", testResources);
+  await test("resource subscriptions are updated by polling", testPolledSubscriptions);
+  await test("resource subscriptions are updated by webhook events", testWebhookSubscriptions);
+  await test("prompts embed live thread, customer and snippet data", testPrompts);
+  await test("dry_run previews what delete tools would remove", testDryRunPreviews);
+  await test("confirmation tokens gate destructive tools", testConfirmationTokens);
+  await test("audit log records mutating calls and can be queried", testAuditLog);
+  await test("API and auth errors become tool errors", testApiErrors);
+  await test("errors carry codes, field errors and argument hints", testStructuredErrors);
+  await test("tools declare output schemas and return structured content", testOutputSchemas);
+  await test("read tools render json, markdown or compact text", testResponseFormats);
+  await test("only queries and idempotent mutations are retry-safe", testRetrySafety);
+  await test("request policy limits concurrency, backs off and honors rate limits", testRequestPolicy);
+  await test("rate-limited and unavailable API calls are retried or surfaced", testRateLimitedTools);
+  await test("HTTP transports: auth, Streamable HTTP and SSE sessions", testHttpTransports);
+  await test("webhook listener verifies, parses and buffers events", testWebhookListener);
+  await test("every registered tool is covered", testAllToolsCovered);
+
+  await client.close();
+  mock.stop();
 
   console.log("\n" + "=".repeat(50));
 
@@ -0,0 +1,200 @@
+/**
+ * Optional receiver for Plain webhooks, so events can be inspected with the
+ * list_recent_events tool.
+ *
+ * Each delivery's Plain-Request-Signature is checked against the webhook
+ * secret, and its body is validated against the SDK's webhook schema. Accepted
+ * events are kept in a fixed-size in-memory buffer; Plain retries failed
+ * deliveries with the same event ID, so repeats are stored once.
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import {
+  PlainWebhookSignatureVerificationError,
+  verifyPlainWebhook,
+  type WebhooksSchemaDefinition,
+} from "@team-plain/typescript-sdk";
+import { PayloadTooLargeError, listen, readBody } from "./serve.ts";
+
+export type WebhookEventType = WebhooksSchemaDefinition["type"];
+export type WebhookPayload = WebhooksSchemaDefinition["payload"];
+
+export const EVENT_BUFFER_SIZE = 500;
+
+export interface WebhookOptions {
+  host: string;
+  port: number;
+  // Signing secret shown when the webhook target is created in Plain
+  secret: string;
+  // Deliveries older than this many seconds are rejected as replays
+  toleranceSeconds?: number;
+}
+
+export interface WebhookListener {
+  // Point the webhook target at `${url}/webhooks`
+  url: string;
+  close(): Promise<void>;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  timestamp: string;
+  workspaceId: string;
+  // The thread or customer the event is about, when there is one
+  threadId: string | null;
+  customerId: string | null;
+  // One line such as `Thread "Cannot log in" moved from TODO to DONE`
+  summary: string;
+  payload: WebhookPayload;
+}
+
+export interface EventQuery {
+  // An exact event type, or a prefix ending in "." such as "thread."
+  type?: string;
+  threadId?: string;
+  customerId?: string;
+  since?: string;
+  limit?: number;
+}
+
+export interface EventBuffer {
+  // False when the event was already stored
+  add(event: WebhookEvent): boolean;
+  // Matching events, newest first
+  list(query?: EventQuery): WebhookEvent[];
+  // Called for every newly stored event; returns a function that detaches the listener
+  onEvent(listener: (event: WebhookEvent) => void): () => void;
+}
+
+export function createEventBuffer(size = EVENT_BUFFER_SIZE): EventBuffer {
+  const events: WebhookEvent[] = [];
+  const listeners = new Set<(event: WebhookEvent) => void>();
+
+  return {
+    add(event) {
+      if (events.some((e) => e.id === event.id)) return false;
+      events.push(event);
+      if (events.length > size) events.shift();
+      listeners.forEach((listener) => listener(event));
+      return true;
+    },
+
+    list({ type, threadId, customerId, since, limit = 50 } = {}) {
+      const sinceTime = since ? Date.parse(since) : undefined;
+      return events
+        .filter((event) => {
+          if (type && !(type.endsWith(".") ? event.type.startsWith(type) : event.type === type)) return false;
+          if (threadId && event.threadId !== threadId) return false;
+          if (customerId && event.customerId !== customerId) return false;
+          if (sinceTime !== undefined && Date.parse(event.timestamp) < sinceTime) return false;
+          return true;
+        })
+        .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+        .slice(0, limit);
+    },
+
+    onEvent(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+function threadOf(payload: WebhookPayload): { id: string; title: string; customer: { id: string } } | undefined {
+  return "thread" in payload ? (payload.thread as any) : undefined;
+}
+
+function customerOf(payload: WebhookPayload): { id: string; fullName: string } | undefined {
+  if ("customer" in payload && payload.customer) return payload.customer as any;
+  if ("previousCustomer" in payload && payload.previousCustomer) return payload.previousCustomer as any;
+  return undefined;
+}
+
+// "thread.email_received" → "email received"
+function eventName(type: string): string {
+  return type.replace(/^[a-z]+\.(thread_|customer_)?/, "").replace(/_/g, " ");
+}
+
+function describe(payload: WebhookPayload): string {
+  const thread = threadOf(payload);
+  const label = thread ? `Thread "${thread.title}"` : "";
+  switch (payload.eventType) {
+    case "thread.thread_created":
+      return `${label} created`;
+    case "thread.thread_status_transitioned":
+      return `${label} moved from ${payload.previousThread.status} to ${payload.thread.status}`;
+    case "thread.thread_priority_changed":
+      return `${label} priority changed from ${payload.previousThread.priority} to ${payload.thread.priority}`;
+    case "thread.thread_assignment_transitioned":
+      return payload.thread.assignee ? `${label} assigned` : `${label} unassigned`;
+    case "thread.thread_labels_changed":
+      return `${label} labels ${payload.changeType === "ADDED" ? "added" : "removed"}`;
+  }
+  if (thread) return `${label}: ${eventName(payload.eventType)}`;
+  const customer = customerOf(payload);
+  if (customer) return `Customer ${customer.fullName} ${eventName(payload.eventType)}`;
+  return eventName(payload.eventType);
+}
+
+export function toWebhookEvent(webhook: WebhooksSchemaDefinition): WebhookEvent {
+  const thread = threadOf(webhook.payload);
+  return {
+    id: webhook.id,
+    type: webhook.type,
+    timestamp: webhook.timestamp,
+    workspaceId: webhook.workspaceId,
+    threadId: thread?.id ?? null,
+    customerId: thread?.customer.id ?? customerOf(webhook.payload)?.id ?? null,
+    summary: describe(webhook.payload),
+    payload: webhook.payload,
+  };
+}
+
+function send(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export async function startWebhookListener(options: WebhookOptions, buffer: EventBuffer): Promise<WebhookListener> {
+  if (!options.secret) {
+    throw new Error("A webhook secret is required to verify deliveries");
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== "/webhooks" || req.method !== "POST") {
+      return send(res, 404, { error: "Not found" });
+    }
+
+    const body = await readBody(req);
+
+    const signature = req.headers["plain-request-signature"];
+    const result = verifyPlainWebhook(body, typeof signature === "string" ? signature : "", options.secret, options.toleranceSeconds);
+    if (result.error) {
+      const status = result.error instanceof PlainWebhookSignatureVerificationError ? 401 : 400;
+      return send(res, status, { error: result.error.message });
+    }
+
+    const stored = buffer.add(toWebhookEvent(result.data));
+    send(res, 200, { received: true, duplicate: !stored });
+  }
+
+  const server: Server = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (res.headersSent) return;
+      if (error instanceof PayloadTooLargeError) {
+        return send(res, 413, { error: "Payload too large" });
+      }
+      console.error("Webhook delivery failed:", error);
+      send(res, 500, { error: "Internal server error" });
+    });
+  });
+
+  const url = await listen(server, options.host, options.port);
+
+  return {
+    url,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Named Plain workspaces, each with its own API key.
+ *
+ * A single workspace comes from PLAIN_API_KEY (named "default"). To add more,
+ * set PLAIN_API_KEY_<NAME> per workspace, e.g. PLAIN_API_KEY_EU and
+ * PLAIN_API_KEY_US give the workspaces "eu" and "us". PLAIN_DEFAULT_WORKSPACE
+ * says which one tools use when no `workspace` argument is given.
+ */
+
+import type { PlainClient } from "@team-plain/typescript-sdk";
+import { createPlainClient } from "./requests.ts";
+
+export interface Workspaces {
+  defaultName: string;
+  clients: Record<string, PlainClient>;
+}
+
+const KEY_PREFIX = "PLAIN_API_KEY_";
+
+// Wrap a single client, e.g. one pointed at the test mock
+export function singleWorkspace(plain: PlainClient, name = "default"): Workspaces {
+  return { defaultName: name, clients: { [name]: plain } };
+}
+
+export function loadWorkspaces(env: Record<string, string | undefined>): Workspaces {
+  const keys: Record<string, string> = {};
+  if (env.PLAIN_API_KEY) {
+    keys.default = env.PLAIN_API_KEY;
+  }
+  for (const [name, value] of Object.entries(env)) {
+    if (name.startsWith(KEY_PREFIX) && name.length > KEY_PREFIX.length && value) {
+      keys[name.slice(KEY_PREFIX.length).toLowerCase()] = value;
+    }
+  }
+
+  const names = Object.keys(keys);
+  if (names.length === 0) {
+    throw new Error("PLAIN_API_KEY (or PLAIN_API_KEY_<NAME> per workspace) environment variable is required");
+  }
+
+  const defaultName = env.PLAIN_DEFAULT_WORKSPACE?.toLowerCase() || (names.length === 1 ? names[0]! : "default");
+  if (!env.PLAIN_DEFAULT_WORKSPACE && !keys[defaultName]) {
+    throw new Error(`PLAIN_DEFAULT_WORKSPACE is required when several workspaces are configured (${names.join(", ")})`);
+  }
+  if (!keys[defaultName]) {
+    throw new Error(`PLAIN_DEFAULT_WORKSPACE "${defaultName}" is not configured (configured: ${names.join(", ")})`);
+  }
+
+  // PLAIN_API_URL is only needed to point at a non-production API, e.g. the local mock
+  const clients: Record<string, PlainClient> = {};
+  for (const [name, apiKey] of Object.entries(keys)) {
+    clients[name] = createPlainClient({ apiKey, apiUrl: env.PLAIN_API_URL });
+  }
+  return { defaultName, clients };
+}